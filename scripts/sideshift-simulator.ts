@@ -0,0 +1,557 @@
+import http from 'http';
+import crypto from 'crypto';
+import fs from 'fs';
+import { MOCK_COINS, MOCK_PRICES_USD } from '@/lib/mock-swap-provider';
+import {
+  signWebhookPayload,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+} from '@/lib/webhook-security';
+
+/**
+ * SIDESHIFT SIMULATOR
+ * Local stand-in for the SideShift v2 API, for exercising the real client,
+ * webhook route, pollShiftStatus and monitorPayments without real funds
+ *
+ *   npm run simulator
+ *   SIDESHIFT_API_URL=http://localhost:8787/api/v2 npm run dev
+ *
+ * SideShift API (what SideShiftClient calls, same shapes and error format):
+ *   GET  /api/v2/coins
+ *   GET  /api/v2/permissions
+ *   GET  /api/v2/coins/:coin/networks/:network/permissions
+ *   GET  /api/v2/pair/:from/:to              (from/to = coin-network)
+ *   POST /api/v2/quotes
+ *   POST /api/v2/shifts/fixed
+ *   POST /api/v2/shifts/variable
+ *   GET  /api/v2/shifts/:id
+ *   GET  /api/v2/affiliates/:id/stats
+ *
+ * Admin API (drives shifts; every status change fires a signed webhook):
+ *   GET  /admin/shifts
+ *   POST /admin/shifts/:id/advance   {depositAmount?}   next state up to settled
+ *   POST /admin/shifts/:id/status    {status, depositAmount?}   any state
+ *   POST /admin/shifts/:id/webhook   re-send the current status
+ *   POST /admin/faults               {status, count}   fail the next API calls
+ *   POST /admin/reset
+ *
+ * Prices and coins are the mock provider's. Webhooks go to
+ * SIMULATOR_WEBHOOK_URL, signed with WEBHOOK_SECRET like lib/webhook-security
+ * expects. With SIMULATOR_AUTO_ADVANCE_SECONDS set, shifts also advance on
+ * their own. State is in memory and lost on restart. Reads .env when there is
+ * one (variables already set win), so a fresh checkout runs without it.
+ */
+
+if (fs.existsSync('.env')) {
+  process.loadEnvFile('.env');
+}
+
+const PORT = parseInt(process.env.SIMULATOR_PORT || '8787', 10);
+const WEBHOOK_URL = process.env.SIMULATOR_WEBHOOK_URL || 'http://localhost:3000/api/webhooks/sideshift';
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || '';
+const AUTO_ADVANCE_MS = parseFloat(process.env.SIMULATOR_AUTO_ADVANCE_SECONDS || '0') * 1000;
+
+const QUOTE_TTL_MS = 15 * 60 * 1000;
+const VARIABLE_SHIFT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MIN_DEPOSIT_USD = 1;
+const MAX_DEPOSIT_USD = 20000;
+const OPEN_DEPOSIT_USD = 25; // Default deposit into a variable shift
+
+const TIMELINE = ['waiting', 'pending', 'processing', 'settling', 'settled'] as const;
+const STATUSES = [...TIMELINE, 'refund', 'refunded', 'expired'] as const;
+
+type ShiftState = typeof STATUSES[number];
+
+interface SimQuote {
+  id: string;
+  createdAt: string;
+  depositCoin: string;
+  depositNetwork: string;
+  settleCoin: string;
+  settleNetwork: string;
+  depositAmount: string;
+  settleAmount: string;
+  expiresAt: string;
+  rate: string;
+  affiliateId: string;
+}
+
+interface SimShift {
+  id: string;
+  type: 'fixed' | 'variable';
+  createdAt: string;
+  expiresAt: string;
+  status: ShiftState;
+  depositCoin: string;
+  depositNetwork: string;
+  depositAddress: string;
+  depositMemo?: string;
+  depositMin?: string;
+  depositMax?: string;
+  depositAmount?: string;
+  depositHash?: string;
+  settleCoin: string;
+  settleNetwork: string;
+  settleAddress: string;
+  settleMemo?: string;
+  settleAmount?: string;
+  settleHash?: string;
+  refundAddress?: string;
+  refundMemo?: string;
+  rate: string;
+  affiliateId: string;
+  updatedAt: number; // For auto-advance
+}
+
+class ApiError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+const quotes = new Map<string, SimQuote>();
+const shifts = new Map<string, SimShift>();
+const faults = { status: 0, remaining: 0 };
+
+// ============================================
+// SideShift API
+// ============================================
+
+function getPair(from: string, to: string) {
+  const [depositCoin, depositNetwork] = splitPair(from);
+  const [settleCoin, settleNetwork] = splitPair(to);
+
+  if (depositCoin === settleCoin && depositNetwork === settleNetwork) {
+    throw new ApiError(400, 'Invalid pair: deposit and settle coin must differ');
+  }
+
+  const depositPrice = price(depositCoin, depositNetwork);
+  const settlePrice = price(settleCoin, settleNetwork);
+
+  return {
+    depositCoin: depositCoin.toUpperCase(),
+    depositNetwork,
+    settleCoin: settleCoin.toUpperCase(),
+    settleNetwork,
+    min: toAmount(MIN_DEPOSIT_USD / depositPrice),
+    max: toAmount(MAX_DEPOSIT_USD / depositPrice),
+    rate: toAmount(depositPrice / settlePrice),
+  };
+}
+
+function createQuote(body: any): SimQuote {
+  requireFields(body, ['depositCoin', 'depositNetwork', 'settleCoin', 'settleNetwork', 'affiliateId']);
+  if (!body.depositAmount === !body.settleAmount) {
+    throw new ApiError(400, 'Specify exactly one of depositAmount and settleAmount');
+  }
+
+  const pair = getPair(`${body.depositCoin}-${body.depositNetwork}`, `${body.settleCoin}-${body.settleNetwork}`);
+  const rate = parseFloat(pair.rate);
+  const depositAmount = body.depositAmount
+    ? parseFloat(body.depositAmount)
+    : parseFloat(body.settleAmount) / rate;
+
+  if (!(depositAmount >= parseFloat(pair.min))) {
+    throw new ApiError(400, `Amount too low. Minimum is ${pair.min} ${pair.depositCoin}`);
+  }
+  if (depositAmount > parseFloat(pair.max)) {
+    throw new ApiError(400, `Amount too high. Maximum is ${pair.max} ${pair.depositCoin}`);
+  }
+
+  const now = Date.now();
+  const quote: SimQuote = {
+    id: crypto.randomUUID(),
+    createdAt: new Date(now).toISOString(),
+    depositCoin: pair.depositCoin,
+    depositNetwork: pair.depositNetwork,
+    settleCoin: pair.settleCoin,
+    settleNetwork: pair.settleNetwork,
+    depositAmount: toAmount(depositAmount),
+    settleAmount: body.settleAmount || toAmount(depositAmount * rate),
+    expiresAt: new Date(now + QUOTE_TTL_MS).toISOString(),
+    rate: pair.rate,
+    affiliateId: body.affiliateId,
+  };
+
+  quotes.set(quote.id, quote);
+  return quote;
+}
+
+function createFixedShift(body: any): SimShift {
+  requireFields(body, ['quoteId', 'settleAddress', 'affiliateId']);
+
+  const quote = quotes.get(body.quoteId);
+  if (!quote) {
+    throw new ApiError(404, 'Quote not found');
+  }
+  if (Date.parse(quote.expiresAt) <= Date.now()) {
+    throw new ApiError(400, 'Quote expired');
+  }
+  quotes.delete(quote.id);
+
+  return openShift({
+    type: 'fixed',
+    expiresAt: quote.expiresAt,
+    depositCoin: quote.depositCoin,
+    depositNetwork: quote.depositNetwork,
+    depositAmount: quote.depositAmount,
+    settleCoin: quote.settleCoin,
+    settleNetwork: quote.settleNetwork,
+    settleAmount: quote.settleAmount,
+    rate: quote.rate,
+    ...shiftAddresses(body),
+  });
+}
+
+function createVariableShift(body: any): SimShift {
+  requireFields(body, ['depositCoin', 'depositNetwork', 'settleCoin', 'settleNetwork', 'settleAddress', 'affiliateId']);
+
+  const pair = getPair(`${body.depositCoin}-${body.depositNetwork}`, `${body.settleCoin}-${body.settleNetwork}`);
+
+  return openShift({
+    type: 'variable',
+    expiresAt: new Date(Date.now() + VARIABLE_SHIFT_TTL_MS).toISOString(),
+    depositCoin: pair.depositCoin,
+    depositNetwork: pair.depositNetwork,
+    depositMin: pair.min,
+    depositMax: pair.max,
+    settleCoin: pair.settleCoin,
+    settleNetwork: pair.settleNetwork,
+    rate: pair.rate,
+    ...shiftAddresses(body),
+  });
+}
+
+function openShift(params: Omit<SimShift, 'id' | 'createdAt' | 'status' | 'depositAddress' | 'updatedAt'>): SimShift {
+  const id = crypto.randomBytes(10).toString('hex');
+  const coin = MOCK_COINS.find(entry => entry.coin === params.depositCoin);
+
+  const shift: SimShift = {
+    id,
+    createdAt: new Date().toISOString(),
+    ...params,
+    status: 'waiting',
+    depositAddress: fakeAddress(id, params.depositNetwork),
+    depositMemo: coin?.networksWithMemo?.includes(params.depositNetwork)
+      ? String(parseInt(fakeHash(id, 'memo').slice(2, 10), 16) % 1_000_000_000)
+      : undefined,
+    updatedAt: Date.now(),
+  };
+
+  shifts.set(id, shift);
+  console.log(`[Simulator] Shift ${id}: ${shift.depositAmount || 'any'} ${shift.depositCoin} -> ${shift.settleCoin} (${shift.type})`);
+  return shift;
+}
+
+function getShift(id: string): SimShift {
+  const shift = shifts.get(id);
+  if (!shift) {
+    throw new ApiError(404, 'Shift not found');
+  }
+  return shift;
+}
+
+function affiliateStats(affiliateId: string) {
+  const settled = [...shifts.values()].filter(shift => shift.affiliateId === affiliateId && shift.status === 'settled');
+
+  return {
+    shiftCount: settled.length,
+    volumeUsd: settled.reduce(
+      (sum, shift) => sum + parseFloat(shift.settleAmount || '0') * (MOCK_PRICES_USD[shift.settleCoin.toLowerCase()] || 0),
+      0
+    ),
+  };
+}
+
+// ============================================
+// Admin API
+// ============================================
+
+/**
+ * Move a shift to `status`, filling in what SideShift would report by then
+ */
+async function setStatus(shift: SimShift, status: ShiftState, depositAmount?: string): Promise<SimShift> {
+  if (!STATUSES.includes(status)) {
+    throw new ApiError(400, `Unknown status "${status}" (expected one of: ${STATUSES.join(', ')})`);
+  }
+  if (status === 'expired' && shift.depositHash) {
+    throw new ApiError(400, 'Shift already has a deposit; use refund instead');
+  }
+
+  const deposited = status !== 'waiting' && status !== 'expired';
+
+  if (deposited && !shift.depositHash) {
+    // Fixed shifts default to the quoted amount, variable ones to OPEN_DEPOSIT_USD worth
+    shift.depositAmount = depositAmount
+      || shift.depositAmount
+      || toAmount(OPEN_DEPOSIT_USD / price(shift.depositCoin, shift.depositNetwork));
+    shift.depositHash = fakeHash(shift.id, 'deposit');
+    if (shift.type === 'variable') {
+      shift.settleAmount = toAmount(parseFloat(shift.depositAmount) * parseFloat(shift.rate));
+    }
+  }
+  if (status === 'settled') {
+    shift.settleHash = fakeHash(shift.id, 'settle');
+  }
+
+  shift.status = status;
+  shift.updatedAt = Date.now();
+  console.log(`[Simulator] Shift ${shift.id} -> ${status}`);
+
+  await sendWebhook(shift);
+  return shift;
+}
+
+async function advance(shift: SimShift, depositAmount?: string): Promise<SimShift> {
+  const step = TIMELINE.indexOf(shift.status as typeof TIMELINE[number]);
+  if (step === -1 || step === TIMELINE.length - 1) {
+    throw new ApiError(400, `Shift is ${shift.status}; nothing to advance to`);
+  }
+  return setStatus(shift, TIMELINE[step + 1], depositAmount);
+}
+
+/**
+ * POST the shift's current status to our webhook route, signed
+ * (x-webhook-signature over `${timestamp}.${body}`, see lib/webhook-security)
+ */
+async function sendWebhook(shift: SimShift): Promise<void> {
+  const rawBody = JSON.stringify(toShiftStatus(shift));
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+  if (WEBHOOK_SECRET) {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    headers[TIMESTAMP_HEADER] = timestamp;
+    headers[SIGNATURE_HEADER] = signWebhookPayload(WEBHOOK_SECRET, timestamp, rawBody);
+  }
+
+  try {
+    const response = await fetch(WEBHOOK_URL, { method: 'POST', headers, body: rawBody });
+    console.log(`[Simulator] Webhook ${shift.id} (${shift.status}): ${response.status}`);
+  } catch (error: any) {
+    console.error(`[Simulator] Webhook ${shift.id} (${shift.status}) failed: ${error.message}`);
+  }
+}
+
+// ============================================
+// HTTP
+// ============================================
+
+async function route(method: string, path: string[], body: any): Promise<unknown> {
+  const [root, ...rest] = path;
+
+  if (root === 'admin') {
+    return routeAdmin(method, rest, body);
+  }
+
+  if (root !== 'api' || rest[0] !== 'v2') {
+    throw new ApiError(404, 'Not found');
+  }
+
+  if (faults.remaining > 0) {
+    faults.remaining--;
+    throw new ApiError(faults.status, `Simulated failure (${faults.remaining} left)`);
+  }
+
+  const endpoint = `${method} /${rest.slice(1).join('/')}`;
+  let match: RegExpMatchArray | null;
+
+  if (endpoint === 'GET /coins') {
+    return MOCK_COINS;
+  }
+  if (endpoint === 'GET /permissions') {
+    return { createShift: true };
+  }
+  if ((match = endpoint.match(/^GET \/coins\/([^/]+)\/networks\/([^/]+)\/permissions$/))) {
+    price(match[1].toLowerCase(), match[2].toLowerCase());
+    return { deposit: true, settle: true };
+  }
+  if ((match = endpoint.match(/^GET \/pair\/([^/]+)\/([^/]+)$/))) {
+    return getPair(match[1], match[2]);
+  }
+  if (endpoint === 'POST /quotes') {
+    const { affiliateId, ...quote } = createQuote(body);
+    return quote;
+  }
+  if (endpoint === 'POST /shifts/fixed') {
+    return toShiftResponse(createFixedShift(body));
+  }
+  if (endpoint === 'POST /shifts/variable') {
+    return toShiftResponse(createVariableShift(body));
+  }
+  if ((match = endpoint.match(/^GET \/shifts\/([^/]+)$/))) {
+    return toShiftStatus(getShift(match[1]));
+  }
+  if ((match = endpoint.match(/^GET \/affiliates\/([^/]+)\/stats$/))) {
+    return affiliateStats(match[1]);
+  }
+
+  throw new ApiError(404, `No such endpoint: ${method} /${path.join('/')}`);
+}
+
+async function routeAdmin(method: string, path: string[], body: any): Promise<unknown> {
+  const [resource, id, action] = path;
+
+  if (method === 'GET' && resource === 'shifts' && !id) {
+    return [...shifts.values()].map(toShiftStatus);
+  }
+
+  if (method === 'POST' && resource === 'shifts' && id) {
+    const shift = getShift(id);
+    switch (action) {
+      case 'advance':
+        return toShiftStatus(await advance(shift, body?.depositAmount));
+      case 'status':
+        return toShiftStatus(await setStatus(shift, body?.status, body?.depositAmount));
+      case 'webhook':
+        await sendWebhook(shift);
+        return toShiftStatus(shift);
+    }
+  }
+
+  if (method === 'POST' && resource === 'faults') {
+    faults.status = parseInt(body?.status, 10) || 503;
+    faults.remaining = parseInt(body?.count, 10) || 0;
+    return faults;
+  }
+
+  if (method === 'POST' && resource === 'reset') {
+    quotes.clear();
+    shifts.clear();
+    faults.remaining = 0;
+    return { reset: true };
+  }
+
+  throw new ApiError(404, `No such admin endpoint: ${method} /admin/${path.join('/')}`);
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  const path = url.pathname.split('/').filter(Boolean);
+  const isApi = path[0] === 'api';
+
+  try {
+    // SideShift rejects calls without credentials; the value isn't checked here
+    if (isApi && !req.headers['x-sideshift-secret']) {
+      throw new ApiError(401, 'Missing x-sideshift-secret header');
+    }
+
+    const result = await route(req.method || 'GET', path, await readJson(req));
+    sendJson(res, 200, result);
+  } catch (error: any) {
+    const statusCode = error instanceof ApiError ? error.statusCode : 500;
+    if (statusCode === 500) {
+      console.error('[Simulator] Error:', error);
+    }
+    // SideShift's error shape: { error: { message } }
+    sendJson(res, statusCode, { error: { message: error.message } }, statusCode === 429 ? { 'Retry-After': '1' } : {});
+  }
+});
+
+if (AUTO_ADVANCE_MS > 0) {
+  setInterval(() => {
+    for (const shift of shifts.values()) {
+      const step = TIMELINE.indexOf(shift.status as typeof TIMELINE[number]);
+      if (step !== -1 && step < TIMELINE.length - 1 && Date.now() - shift.updatedAt >= AUTO_ADVANCE_MS) {
+        advance(shift).catch(error => console.error(`[Simulator] Auto-advance ${shift.id} failed:`, error.message));
+      }
+    }
+  }, 1000);
+}
+
+server.listen(PORT, () => {
+  console.log(`[Simulator] SideShift API on http://localhost:${PORT}/api/v2, admin on /admin`);
+  console.log(`[Simulator] Webhooks -> ${WEBHOOK_URL}${WEBHOOK_SECRET ? '' : ' (unsigned: WEBHOOK_SECRET not set)'}`);
+});
+
+// ============================================
+// Helpers
+// ============================================
+
+function toShiftResponse(shift: SimShift) {
+  const { depositHash, settleHash, rate, affiliateId, updatedAt, refundAddress, refundMemo, settleMemo, ...response } = shift;
+  return response;
+}
+
+function toShiftStatus(shift: SimShift) {
+  const { type, rate, affiliateId, updatedAt, refundAddress, refundMemo, settleMemo, depositMin, depositMax, ...status } = shift;
+  return status;
+}
+
+function shiftAddresses(body: any): Pick<SimShift, 'settleAddress' | 'settleMemo' | 'refundAddress' | 'refundMemo' | 'affiliateId'> {
+  return {
+    settleAddress: body.settleAddress,
+    settleMemo: body.settleMemo,
+    refundAddress: body.refundAddress,
+    refundMemo: body.refundMemo,
+    affiliateId: body.affiliateId,
+  };
+}
+
+function requireFields(body: any, fields: string[]): void {
+  const missing = fields.filter(field => !body?.[field]);
+  if (missing.length > 0) {
+    throw new ApiError(400, `Missing ${missing.join(', ')}`);
+  }
+}
+
+function splitPair(value: string): [string, string] {
+  const separator = value.indexOf('-');
+  if (separator === -1) {
+    throw new ApiError(400, `Invalid coin-network "${value}"`);
+  }
+  return [value.slice(0, separator).toLowerCase(), value.slice(separator + 1).toLowerCase()];
+}
+
+function price(coin: string, network: string): number {
+  const known = MOCK_COINS.find(entry => entry.coin.toLowerCase() === coin.toLowerCase());
+  const usd = MOCK_PRICES_USD[coin.toLowerCase()];
+
+  if (!known || !usd || !known.networks.includes(network)) {
+    throw new ApiError(400, `Invalid pair: ${coin.toUpperCase()} on ${network} is not supported`);
+  }
+  return usd;
+}
+
+function toAmount(value: number): string {
+  return value.toFixed(8).replace(/\.?0+$/, '');
+}
+
+function fakeHash(shiftId: string, purpose: string): string {
+  return '0x' + crypto.createHash('sha256').update(`sim:${purpose}:${shiftId}`).digest('hex');
+}
+
+function fakeAddress(shiftId: string, network: string): string {
+  const hex = crypto.createHash('sha256').update(`sim:address:${shiftId}`).digest('hex');
+
+  switch (network) {
+    case 'bitcoin':
+      return `bc1q${hex.slice(0, 38)}`;
+    case 'ripple':
+      return `r${hex.slice(0, 33)}`;
+    case 'solana':
+      return hex.slice(0, 44);
+    default:
+      return `0x${hex.slice(0, 40)}`;
+  }
+}
+
+async function readJson(req: http.IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  if (chunks.length === 0) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new ApiError(400, 'Invalid JSON body');
+  }
+}
+
+function sendJson(res: http.ServerResponse, statusCode: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,44 @@
+import Link from 'next/link';
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { ADMIN_SESSION_COOKIE, verifyDashboardSession } from '@/lib/admin-auth';
+import SignOutButton from './sign-out-button';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Dashboard shell: every page below requires a dashboard session (admin or
+ * merchant); the API routes behind the pages scope what a merchant sees
+ */
+export default async function AdminLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  const cookieStore = await cookies();
+  const session = verifyDashboardSession(cookieStore.get(ADMIN_SESSION_COOKIE)?.value);
+  if (!session) {
+    redirect('/admin/login');
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <header className="bg-white border-b border-slate-200">
+        <div className="container mx-auto px-4 max-w-7xl h-14 flex items-center justify-between">
+          <Link href="/admin" className="font-bold text-slate-900">
+            Merchant Admin
+          </Link>
+          <div className="flex items-center gap-4">
+            {session.type === 'merchant' && (
+              <span className="text-sm text-slate-500 font-mono">{session.merchantId}</span>
+            )}
+            <SignOutButton />
+          </div>
+        </div>
+      </header>
+      <main className="container mx-auto px-4 max-w-7xl py-8">
+        {children}
+      </main>
+    </div>
+  );
+}
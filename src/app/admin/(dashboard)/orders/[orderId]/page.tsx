@@ -0,0 +1,477 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { ArrowLeft, ExternalLink, Loader2, RefreshCw, TimerOff, Undo2 } from 'lucide-react';
+import { formatTimestamp, formatUSD, getExplorerUrl, getNetworkName } from '@/lib/utils';
+import StatusBadge from '../../status-badge';
+
+interface AdminOrder {
+  orderId: string;
+  orderNumber: string;
+  merchantId: string;
+  status: string;
+  paymentMode: 'fixed' | 'open';
+  totalUSD: number;
+  items: Array<{ productId: string; name: string; quantity: number; priceUSD: number }>;
+  customerEmail: string;
+  customerWallet?: string;
+  customerWalletMemo?: string;
+  provider?: string;
+  shiftId?: string;
+  depositCoin: string;
+  depositNetwork: string;
+  depositAddress?: string;
+  depositMemo?: string;
+  depositAmount?: string;
+  receivedAmount?: string;
+  shortfallAmount?: string;
+  excessAmount?: string;
+  refundedAmount?: string;
+  settleCoin: string;
+  settleNetwork: string;
+  settleAddress: string;
+  settleAmount?: string;
+  depositTxHash?: string;
+  settleTxHash?: string;
+  quoteExpiresAt?: string;
+  statusHistory: Array<{ status: string; timestamp: string; note?: string; refundId?: string }>;
+  rejectedTransitions: Array<{ from: string; to: string; source?: string; note?: string; timestamp: string }>;
+  shiftHistory: Array<{ shiftId?: string; depositAddress?: string; depositAmount?: string; replacedAt: string }>;
+  notifications: Array<{ key: string; status: string; to: string; transport?: string; error?: string; createdAt: string }>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface AdminWebhookEvent {
+  eventId: string;
+  eventType: string;
+  shiftId?: string;
+  verified: boolean;
+  verifiedStatus?: string;
+  rejected: boolean;
+  rejectionReason?: string;
+  processed: boolean;
+  processingError?: string;
+  retryCount: number;
+  deadLettered: boolean;
+  receivedAt: string;
+}
+
+interface AdminRefund {
+  refundId: string;
+  refundReason: string;
+  refundAmount: string;
+  refundCoin: string;
+  refundNetwork: string;
+  status: string;
+  createdAt: string;
+}
+
+interface OrderDetail {
+  order: AdminOrder;
+  webhookEvents: AdminWebhookEvent[];
+  refunds: AdminRefund[];
+}
+
+const REFUND_REASONS = ['customer_request', 'overpaid', 'underpaid', 'failed', 'expired', 'duplicate'];
+// failed/expired shifts are refunded by SideShift itself
+const REFUNDABLE_STATUSES = ['completed', 'underpaid', 'overpaid'];
+
+export default function AdminOrderPage() {
+  const params = useParams();
+  const router = useRouter();
+  const orderId = params.orderId as string;
+
+  const [detail, setDetail] = useState<OrderDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [action, setAction] = useState<'poll' | 'expire' | 'refund' | null>(null);
+  const [showRefund, setShowRefund] = useState(false);
+  const [refundForm, setRefundForm] = useState({ reason: 'customer_request', amount: '', address: '', memo: '', processNow: false });
+  // Only admins can create the refund shift; merchants just open the refund
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const loadOrder = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/orders/${orderId}`);
+      if (response.status === 401) {
+        router.replace('/admin/login');
+        return;
+      }
+
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to load order');
+      }
+      setDetail(data.data);
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId, router]);
+
+  useEffect(() => {
+    loadOrder();
+  }, [loadOrder]);
+
+  useEffect(() => {
+    fetch('/api/admin/session')
+      .then(response => response.json())
+      .then(data => setIsAdmin(data.success && data.data.type === 'admin'))
+      .catch(() => setIsAdmin(false));
+  }, []);
+
+  const runAction = async (
+    name: 'poll' | 'expire' | 'refund',
+    url: string,
+    body: Record<string, unknown>,
+    success: string
+  ) => {
+    setAction(name);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (response.status === 401) {
+        router.replace('/admin/login');
+        return false;
+      }
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.details ? `${data.error}: ${typeof data.details === 'string' ? data.details : JSON.stringify(data.details)}` : data.error);
+      }
+      toast.success(success);
+      await loadOrder();
+      return true;
+    } catch (error: any) {
+      toast.error(error.message);
+      return false;
+    } finally {
+      setAction(null);
+    }
+  };
+
+  const forcePoll = () => runAction('poll', `/api/admin/orders/${orderId}/poll`, {}, 'Status refreshed from SideShift');
+
+  const expireOrder = () => {
+    if (!window.confirm('Expire this order? The customer will no longer be able to pay this quote.')) return;
+    runAction('expire', `/api/admin/orders/${orderId}/expire`, {}, 'Order expired');
+  };
+
+  const submitRefund = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const done = await runAction('refund', '/api/admin/refunds', {
+      orderId,
+      reason: refundForm.reason,
+      ...(refundForm.amount ? { refundAmount: refundForm.amount } : {}),
+      ...(refundForm.address ? { refundAddress: refundForm.address } : {}),
+      ...(refundForm.address && refundForm.memo ? { refundMemo: refundForm.memo } : {}),
+      process: isAdmin && refundForm.processNow,
+      processedBy: 'admin-dashboard',
+    }, isAdmin && refundForm.processNow ? 'Refund shift created' : 'Refund opened');
+    if (done) setShowRefund(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="py-24 flex justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <div className="py-24 text-center text-slate-600">
+        Order not found. <Link href="/admin" className="text-blue-600 hover:underline">Back to orders</Link>
+      </div>
+    );
+  }
+
+  const { order, webhookEvents, refunds } = detail;
+  const canExpire = order.status === 'pending' && !order.depositTxHash;
+  const canRefund = REFUNDABLE_STATUSES.includes(order.status) && parseFloat(order.receivedAmount || '0') > 0;
+  const inputClass = 'px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+  const buttonClass = 'px-4 py-2 text-sm rounded-lg font-semibold flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="space-y-6">
+      <Link href="/admin" className="text-sm text-slate-600 hover:text-slate-900 flex items-center gap-1">
+        <ArrowLeft className="w-4 h-4" />
+        Orders
+      </Link>
+
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-3">
+            <div className="text-2xl font-bold font-mono">{order.orderNumber}</div>
+            <StatusBadge status={order.status} />
+          </div>
+          <div className="text-sm text-slate-500 mt-1">
+            {order.orderId} · merchant {order.merchantId} · created {formatTimestamp(order.createdAt)}
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <button onClick={forcePoll} disabled={action !== null || !order.shiftId} className={`${buttonClass} bg-white border border-slate-300 hover:bg-slate-50`}>
+            <RefreshCw className={`w-4 h-4 ${action === 'poll' ? 'animate-spin' : ''}`} />
+            Force poll
+          </button>
+          <button onClick={expireOrder} disabled={action !== null || !canExpire} className={`${buttonClass} bg-white border border-slate-300 hover:bg-slate-50`}>
+            <TimerOff className="w-4 h-4" />
+            Expire
+          </button>
+          <button onClick={() => setShowRefund(v => !v)} disabled={action !== null || !canRefund} className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-700`}>
+            <Undo2 className="w-4 h-4" />
+            Refund
+          </button>
+        </div>
+      </div>
+
+      {showRefund && (
+        <form onSubmit={submitRefund} className="bg-white rounded-2xl shadow p-4 flex flex-wrap items-end gap-3">
+          <label className="text-sm text-slate-600 space-y-1">
+            <div>Reason</div>
+            <select
+              value={refundForm.reason}
+              onChange={(e) => setRefundForm(f => ({ ...f, reason: e.target.value }))}
+              className={inputClass}
+            >
+              {REFUND_REASONS.map(reason => <option key={reason} value={reason}>{reason}</option>)}
+            </select>
+          </label>
+          <label className="text-sm text-slate-600 space-y-1">
+            <div>Amount ({order.depositCoin.toUpperCase()})</div>
+            <input
+              value={refundForm.amount}
+              onChange={(e) => setRefundForm(f => ({ ...f, amount: e.target.value }))}
+              placeholder={order.receivedAmount
+                ? String(parseFloat((parseFloat(order.receivedAmount) - parseFloat(order.refundedAmount || '0')).toFixed(8)))
+                : ''}
+              className={`${inputClass} w-40`}
+            />
+          </label>
+          <label className="text-sm text-slate-600 space-y-1 flex-1 min-w-[16rem]">
+            <div>Refund address</div>
+            <input
+              value={refundForm.address}
+              onChange={(e) => setRefundForm(f => ({ ...f, address: e.target.value }))}
+              placeholder={order.customerWallet || 'Required: order has no refund wallet'}
+              className={`${inputClass} w-full font-mono`}
+            />
+          </label>
+          {refundForm.address && (
+            <label className="text-sm text-slate-600 space-y-1">
+              <div>Memo / tag</div>
+              <input
+                value={refundForm.memo}
+                onChange={(e) => setRefundForm(f => ({ ...f, memo: e.target.value }))}
+                placeholder="If the address needs one"
+                className={`${inputClass} w-40 font-mono`}
+              />
+            </label>
+          )}
+          {isAdmin && (
+            <label className="text-sm text-slate-600 flex items-center gap-2 pb-2">
+              <input
+                type="checkbox"
+                checked={refundForm.processNow}
+                onChange={(e) => setRefundForm(f => ({ ...f, processNow: e.target.checked }))}
+              />
+              Create refund shift now
+            </label>
+          )}
+          <button type="submit" disabled={action !== null} className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-700`}>
+            {action === 'refund' && <Loader2 className="w-4 h-4 animate-spin" />}
+            Open refund
+          </button>
+        </form>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <section className="bg-white rounded-2xl shadow p-6 space-y-3 text-sm">
+          <div className="text-lg font-bold">Payment</div>
+          <Row label="Customer" value={order.customerEmail} />
+          <Row label="Total" value={order.paymentMode === 'open' && !order.totalUSD ? 'Open amount' : formatUSD(order.totalUSD)} />
+          {order.items.map(item => (
+            <Row key={item.productId} label={`${item.quantity} × ${item.name}`} value={formatUSD(item.priceUSD * item.quantity)} />
+          ))}
+          <Row label="Deposit" value={`${order.depositAmount || '—'} ${order.depositCoin.toUpperCase()} on ${getNetworkName(order.depositNetwork)}`} />
+          {order.receivedAmount && <Row label="Received" value={order.receivedAmount} />}
+          {order.shortfallAmount && <Row label="Shortfall" value={order.shortfallAmount} />}
+          {order.excessAmount && <Row label="Excess" value={order.excessAmount} />}
+          {order.refundedAmount && <Row label="Refunded" value={order.refundedAmount} />}
+          <Row label="Deposit address" value={order.depositAddress} mono />
+          {order.depositMemo && <Row label="Deposit memo" value={order.depositMemo} mono />}
+          <TxRow label="Deposit tx" txHash={order.depositTxHash} network={order.depositNetwork} />
+          {order.quoteExpiresAt && <Row label="Quote expires" value={formatTimestamp(order.quoteExpiresAt)} />}
+          {order.customerWallet && <Row label="Refund wallet" value={order.customerWallet} mono />}
+          {order.customerWalletMemo && <Row label="Refund memo" value={order.customerWalletMemo} mono />}
+        </section>
+
+        <section className="bg-white rounded-2xl shadow p-6 space-y-3 text-sm">
+          <div className="text-lg font-bold">Settlement</div>
+          <Row label="Settles" value={`${order.settleAmount || '—'} ${order.settleCoin.toUpperCase()} on ${getNetworkName(order.settleNetwork)}`} />
+          <Row label="Settle address" value={order.settleAddress} mono />
+          <TxRow label="Settle tx" txHash={order.settleTxHash} network={order.settleNetwork} />
+          <Row label="Provider" value={order.provider || 'sideshift'} />
+          <Row label="Shift" value={order.shiftId} mono />
+          {order.shiftHistory.length > 0 && (
+            <div className="pt-2">
+              <div className="text-slate-500 mb-1">Replaced shifts</div>
+              {order.shiftHistory.map((entry, i) => (
+                <div key={i} className="font-mono text-xs text-slate-600">
+                  {entry.shiftId} · {entry.depositAmount} · replaced {formatTimestamp(entry.replacedAt)}
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+
+      <section className="bg-white rounded-2xl shadow p-6">
+        <div className="text-lg font-bold mb-4">Status history</div>
+        <ol className="space-y-3 text-sm">
+          {order.statusHistory.map((entry, i) => (
+            <li key={i} className="flex gap-4">
+              <div className="w-40 shrink-0 text-slate-500">{formatTimestamp(entry.timestamp)}</div>
+              <div className="w-28 shrink-0"><StatusBadge status={entry.status} /></div>
+              <div className="text-slate-700">
+                {entry.note}
+                {entry.refundId && <span className="text-slate-500 font-mono"> ({entry.refundId})</span>}
+              </div>
+            </li>
+          ))}
+        </ol>
+
+        {order.rejectedTransitions.length > 0 && (
+          <>
+            <div className="font-semibold mt-6 mb-2">Rejected transitions</div>
+            <ol className="space-y-2 text-sm text-slate-600">
+              {order.rejectedTransitions.map((entry, i) => (
+                <li key={i}>
+                  {formatTimestamp(entry.timestamp)}: {entry.from} → {entry.to}
+                  {entry.source && ` (${entry.source})`}
+                  {entry.note && ` · ${entry.note}`}
+                </li>
+              ))}
+            </ol>
+          </>
+        )}
+      </section>
+
+      <section className="bg-white rounded-2xl shadow p-6">
+        <div className="text-lg font-bold mb-4">SideShift webhooks</div>
+        {webhookEvents.length === 0 ? (
+          <div className="text-sm text-slate-500">No webhook events received for this order</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-left text-slate-500">
+              <tr>
+                <th className="py-2 font-medium">Received</th>
+                <th className="py-2 font-medium">Event</th>
+                <th className="py-2 font-medium">Shift</th>
+                <th className="py-2 font-medium">Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {webhookEvents.map(event => (
+                <tr key={event.eventId} className="border-t border-slate-100 align-top">
+                  <td className="py-2 text-slate-600 whitespace-nowrap">{formatTimestamp(event.receivedAt)}</td>
+                  <td className="py-2">
+                    {event.eventType}
+                    {event.verifiedStatus && <span className="text-slate-500"> ({event.verifiedStatus})</span>}
+                  </td>
+                  <td className="py-2 font-mono text-xs text-slate-600">{event.shiftId}</td>
+                  <td className="py-2 text-slate-700">
+                    {event.rejected ? `Rejected: ${event.rejectionReason}`
+                      : event.deadLettered ? `Dead-lettered: ${event.processingError}`
+                      : event.processed ? 'Processed'
+                      : event.processingError ? `Retrying (${event.retryCount}): ${event.processingError}`
+                      : 'Pending'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <section className="bg-white rounded-2xl shadow p-6 text-sm">
+          <div className="text-lg font-bold mb-4">Refunds</div>
+          {refunds.length === 0 ? (
+            <div className="text-slate-500">No refunds</div>
+          ) : refunds.map(refund => (
+            <div key={refund.refundId} className="flex justify-between py-2 border-t border-slate-100 first:border-0">
+              <div>
+                <div className="font-mono">{refund.refundId}</div>
+                <div className="text-slate-500">{refund.refundReason} · {formatTimestamp(refund.createdAt)}</div>
+              </div>
+              <div className="text-right">
+                <div>{refund.refundAmount} {refund.refundCoin.toUpperCase()}</div>
+                <StatusBadge status={refund.status} />
+              </div>
+            </div>
+          ))}
+        </section>
+
+        <section className="bg-white rounded-2xl shadow p-6 text-sm">
+          <div className="text-lg font-bold mb-4">Customer emails</div>
+          {order.notifications.length === 0 ? (
+            <div className="text-slate-500">No emails sent</div>
+          ) : order.notifications.map((notification, i) => (
+            <div key={i} className="flex justify-between py-2 border-t border-slate-100 first:border-0">
+              <div>
+                <div>{notification.key}</div>
+                <div className="text-slate-500">
+                  {formatTimestamp(notification.createdAt)}
+                  {notification.transport && ` · ${notification.transport}`}
+                  {notification.error && ` · ${notification.error}`}
+                </div>
+              </div>
+              <div className={notification.status === 'failed' ? 'text-red-600' : 'text-slate-600'}>
+                {notification.status}
+              </div>
+            </div>
+          ))}
+        </section>
+      </div>
+    </div>
+  );
+}
+
+function Row({ label, value, mono }: { label: string; value?: string; mono?: boolean }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <div className="text-slate-500 shrink-0">{label}</div>
+      <div className={`text-right break-all ${mono ? 'font-mono text-xs' : ''}`}>{value || '—'}</div>
+    </div>
+  );
+}
+
+function TxRow({ label, txHash, network }: { label: string; txHash?: string; network: string }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <div className="text-slate-500 shrink-0">{label}</div>
+      {txHash ? (
+        <a
+          href={getExplorerUrl(txHash, network)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="font-mono text-xs text-blue-600 hover:underline break-all flex items-center gap-1"
+        >
+          {txHash}
+          <ExternalLink className="w-3 h-3 shrink-0" />
+        </a>
+      ) : (
+        <div>—</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Loader2, Search } from 'lucide-react';
+import { formatTimestamp, formatUSD } from '@/lib/utils';
+import StatusBadge from './status-badge';
+
+interface OrderSummary {
+  orderId: string;
+  orderNumber: string;
+  merchantId: string;
+  status: string;
+  paymentMode: 'fixed' | 'open';
+  totalUSD: number;
+  customerEmail: string;
+  depositCoin: string;
+  depositNetwork: string;
+  depositAmount?: string;
+  receivedAmount?: string;
+  createdAt: string;
+}
+
+interface Filters {
+  q: string;
+  status: string;
+  coin: string;
+  network: string;
+  from: string;
+  to: string;
+}
+
+const STATUSES = [
+  'pending', 'detecting', 'processing', 'settling', 'completed',
+  'expired', 'failed', 'refunded', 'underpaid', 'overpaid',
+];
+
+const PAGE_SIZE = 50;
+
+const EMPTY_FILTERS: Filters = { q: '', status: '', coin: '', network: '', from: '', to: '' };
+
+export default function AdminOrdersPage() {
+  const router = useRouter();
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [applied, setApplied] = useState<Filters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [orders, setOrders] = useState<OrderSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const loadOrders = useCallback(async () => {
+    setLoading(true);
+    try {
+      const query = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+      for (const [key, value] of Object.entries(applied)) {
+        if (!value) continue;
+        // Date inputs are days: make `to` inclusive of the whole day
+        if (key === 'to') {
+          const end = new Date(value);
+          end.setDate(end.getDate() + 1);
+          query.set('to', end.toISOString().slice(0, 10));
+        } else {
+          query.set(key, value);
+        }
+      }
+
+      const response = await fetch(`/api/admin/orders?${query}`);
+      if (response.status === 401) {
+        router.replace('/admin/login');
+        return;
+      }
+
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to load orders');
+      }
+
+      setOrders(data.data);
+      setTotal(data.pagination.total);
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [applied, page, router]);
+
+  useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setApplied(filters);
+  };
+
+  const resetFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setApplied(EMPTY_FILTERS);
+    setPage(1);
+  };
+
+  const setFilter = (key: keyof Filters) => (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => setFilters(prev => ({ ...prev, [key]: e.target.value }));
+
+  const pageCount = Math.max(Math.ceil(total / PAGE_SIZE), 1);
+  const inputClass = 'px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="space-y-6">
+      <div className="text-2xl font-bold">Orders</div>
+
+      <form onSubmit={applyFilters} className="bg-white rounded-2xl shadow p-4 space-y-3">
+        <div className="relative">
+          <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            value={filters.q}
+            onChange={setFilter('q')}
+            placeholder="Order number, email, deposit address or tx hash"
+            className={`${inputClass} w-full pl-9`}
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <select value={filters.status} onChange={setFilter('status')} className={inputClass}>
+            <option value="">All statuses</option>
+            {STATUSES.map(status => (
+              <option key={status} value={status}>{status}</option>
+            ))}
+          </select>
+          <input value={filters.coin} onChange={setFilter('coin')} placeholder="Coin (e.g. eth)" className={`${inputClass} w-36`} />
+          <input value={filters.network} onChange={setFilter('network')} placeholder="Network (e.g. arbitrum)" className={`${inputClass} w-44`} />
+          <label className="text-sm text-slate-600 flex items-center gap-2">
+            From
+            <input type="date" value={filters.from} onChange={setFilter('from')} className={inputClass} />
+          </label>
+          <label className="text-sm text-slate-600 flex items-center gap-2">
+            To
+            <input type="date" value={filters.to} onChange={setFilter('to')} className={inputClass} />
+          </label>
+          <div className="flex gap-2 ml-auto">
+            <button type="button" onClick={resetFilters} className="px-4 py-2 text-sm rounded-lg text-slate-600 hover:bg-slate-100">
+              Reset
+            </button>
+            <button type="submit" className="px-4 py-2 text-sm rounded-lg bg-blue-600 text-white font-semibold hover:bg-blue-700">
+              Apply
+            </button>
+          </div>
+        </div>
+      </form>
+
+      <div className="bg-white rounded-2xl shadow overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-left text-slate-500 border-b border-slate-200">
+            <tr>
+              <th className="px-4 py-3 font-medium">Order</th>
+              <th className="px-4 py-3 font-medium">Status</th>
+              <th className="px-4 py-3 font-medium">Customer</th>
+              <th className="px-4 py-3 font-medium">Paying with</th>
+              <th className="px-4 py-3 font-medium text-right">Amount</th>
+              <th className="px-4 py-3 font-medium">Created</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td colSpan={6} className="px-4 py-12 text-center">
+                  <Loader2 className="w-6 h-6 animate-spin text-blue-600 mx-auto" />
+                </td>
+              </tr>
+            ) : orders.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-4 py-12 text-center text-slate-500">No orders found</td>
+              </tr>
+            ) : orders.map(order => (
+              <tr key={order.orderId} className="border-b border-slate-100 last:border-0 hover:bg-slate-50">
+                <td className="px-4 py-3">
+                  <Link href={`/admin/orders/${order.orderId}`} className="font-mono text-blue-600 hover:underline">
+                    {order.orderNumber}
+                  </Link>
+                  {order.merchantId !== 'default' && (
+                    <div className="text-xs text-slate-500">{order.merchantId}</div>
+                  )}
+                </td>
+                <td className="px-4 py-3"><StatusBadge status={order.status} /></td>
+                <td className="px-4 py-3 text-slate-700">{order.customerEmail}</td>
+                <td className="px-4 py-3 text-slate-700">
+                  {order.depositCoin.toUpperCase()} <span className="text-slate-500">({order.depositNetwork})</span>
+                </td>
+                <td className="px-4 py-3 text-right">
+                  <div className="font-semibold">
+                    {order.paymentMode === 'open' && !order.totalUSD ? 'Open' : formatUSD(order.totalUSD)}
+                  </div>
+                  {(order.receivedAmount || order.depositAmount) && (
+                    <div className="text-xs text-slate-500 font-mono">
+                      {order.receivedAmount || order.depositAmount} {order.depositCoin.toUpperCase()}
+                    </div>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-slate-600 whitespace-nowrap">{formatTimestamp(order.createdAt)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-slate-600">
+        <div>{total} order{total === 1 ? '' : 's'}</div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setPage(p => p - 1)}
+            disabled={page <= 1 || loading}
+            className="px-3 py-1 rounded-lg border border-slate-300 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span>Page {page} of {pageCount}</span>
+          <button
+            onClick={() => setPage(p => p + 1)}
+            disabled={page >= pageCount || loading}
+            className="px-3 py-1 rounded-lg border border-slate-300 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
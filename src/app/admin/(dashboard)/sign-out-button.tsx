@@ -0,0 +1,24 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { LogOut } from 'lucide-react';
+
+export default function SignOutButton() {
+  const router = useRouter();
+
+  const signOut = async () => {
+    await fetch('/api/admin/session', { method: 'DELETE' });
+    router.replace('/admin/login');
+    router.refresh();
+  };
+
+  return (
+    <button
+      onClick={signOut}
+      className="text-sm text-slate-600 hover:text-slate-900 flex items-center gap-1"
+    >
+      <LogOut className="w-4 h-4" />
+      Sign out
+    </button>
+  );
+}
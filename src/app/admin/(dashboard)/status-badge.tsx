@@ -0,0 +1,22 @@
+import { cn } from '@/lib/utils';
+
+const STATUS_COLORS: Record<string, string> = {
+  pending: 'text-yellow-700 bg-yellow-50',
+  detecting: 'text-blue-700 bg-blue-50',
+  processing: 'text-blue-700 bg-blue-50',
+  settling: 'text-blue-700 bg-blue-50',
+  completed: 'text-green-700 bg-green-50',
+  expired: 'text-slate-600 bg-slate-100',
+  failed: 'text-red-700 bg-red-50',
+  refunded: 'text-orange-700 bg-orange-50',
+  underpaid: 'text-orange-700 bg-orange-50',
+  overpaid: 'text-purple-700 bg-purple-50',
+};
+
+export default function StatusBadge({ status }: { status: string }) {
+  return (
+    <span className={cn('px-2 py-0.5 rounded-full text-xs font-semibold', STATUS_COLORS[status] || STATUS_COLORS.expired)}>
+      {status}
+    </span>
+  );
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { isAdminSessionRequest } from '@/lib/admin-auth';
+import { getApiKeyService, serializeApiKey } from '@/services/api-key.service';
+
+const RotateApiKeySchema = z.object({
+  // Keep the old key working this long so deployments can switch over
+  gracePeriodSeconds: z.number().int().min(0).max(7 * 24 * 60 * 60).default(0),
+});
+
+/**
+ * POST /api/admin/api-keys/[keyId]/rotate
+ * Issue a replacement key with the same scopes and retire the old one
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ keyId: string }> }
+) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { keyId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { gracePeriodSeconds } = RotateApiKeySchema.parse(body);
+
+    const apiKeyService = getApiKeyService();
+    const { apiKey, key } = await apiKeyService.rotateKey(keyId, gracePeriodSeconds);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...serializeApiKey(apiKey),
+        key,
+      },
+    }, { status: 201 });
+
+  } catch (error: any) {
+    console.error('[API] Rotate API key error:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error.name === 'ApiKeyError') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+
+    if (error.message.includes('not found')) {
+      return NextResponse.json(
+        { success: false, error: 'API key not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminSessionRequest } from '@/lib/admin-auth';
+import { getApiKeyService, serializeApiKey } from '@/services/api-key.service';
+
+type RouteContext = { params: Promise<{ keyId: string }> };
+
+/**
+ * GET /api/admin/api-keys/[keyId]
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { keyId } = await params;
+
+    const apiKeyService = getApiKeyService();
+    const apiKey = await apiKeyService.getKey(keyId);
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { success: false, error: 'API key not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: serializeApiKey(apiKey) });
+
+  } catch (error: any) {
+    console.error('[API] Get API key error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/api-keys/[keyId]
+ * Revoke a key immediately (kept for the audit trail)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { keyId } = await params;
+
+    const apiKeyService = getApiKeyService();
+    const apiKey = await apiKeyService.revokeKey(keyId);
+
+    return NextResponse.json({ success: true, data: serializeApiKey(apiKey) });
+
+  } catch (error: any) {
+    console.error('[API] Revoke API key error:', error);
+
+    if (error.message.includes('not found')) {
+      return NextResponse.json(
+        { success: false, error: 'API key not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { isAdminSessionRequest } from '@/lib/admin-auth';
+import { getApiKeyService, serializeApiKey } from '@/services/api-key.service';
+
+const CreateApiKeySchema = z.object({
+  merchantId: z.string(),
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.string()).min(1),
+});
+
+/**
+ * GET /api/admin/api-keys?merchantId=
+ * List API keys (hashes are never returned)
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const merchantId = request.nextUrl.searchParams.get('merchantId') || undefined;
+
+    const apiKeyService = getApiKeyService();
+    const keys = await apiKeyService.listKeys(merchantId);
+
+    return NextResponse.json({
+      success: true,
+      data: keys.map(serializeApiKey),
+    });
+
+  } catch (error: any) {
+    console.error('[API] List API keys error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/api-keys
+ * Issue a key for a merchant. The plaintext key is only returned here
+ * (and on rotation), so hand it to the merchant right away.
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validatedData = CreateApiKeySchema.parse(body);
+
+    const apiKeyService = getApiKeyService();
+    const { apiKey, key } = await apiKeyService.createKey(validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...serializeApiKey(apiKey),
+        key,
+      },
+    }, { status: 201 });
+
+  } catch (error: any) {
+    console.error('[API] Create API key error:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error.name === 'ApiKeyError') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminSessionRequest } from '@/lib/admin-auth';
+import { SwapProviderError } from '@/lib/swap-provider';
+import { getCoinCatalogService } from '@/services/coin-catalog.service';
+
+/**
+ * GET /api/admin/coins
+ * Cached coin catalog (all coins, no merchant filtering) and its freshness
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const snapshot = await getCoinCatalogService().getSnapshot();
+
+    return NextResponse.json({
+      success: true,
+      data: snapshot,
+    });
+
+  } catch (error: any) {
+    console.error('[API] Get coin catalog error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/coins
+ * Refresh the coin catalog from SideShift now (e.g. after a coin listing)
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const coins = await getCoinCatalogService().refresh();
+
+    return NextResponse.json({
+      success: true,
+      data: { coins: coins.length, fetchedAt: new Date() },
+    });
+
+  } catch (error: any) {
+    console.error('[API] Refresh coin catalog error:', error);
+
+    if (error instanceof SwapProviderError) {
+      return NextResponse.json(
+        { success: false, error: 'Payment provider error', details: error.message },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { isAdminSessionRequest } from '@/lib/admin-auth';
+import { getMerchantService, serializeMerchant } from '@/services/merchant.service';
+
+const UpdateMerchantSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  settleCoin: z.string().min(1).optional(),
+  settleNetwork: z.string().min(1).optional(),
+  settleAddress: z.string().min(1).optional(),
+  affiliateId: z.string().optional(),
+  acceptedCoins: z.array(z.object({
+    coin: z.string().min(1),
+    network: z.string().min(1),
+  })).optional(),
+  blockedCoins: z.array(z.object({
+    coin: z.string().min(1),
+    network: z.string().min(1).optional(),
+  })).optional(),
+  branding: z.object({
+    displayName: z.string().max(100).optional(),
+    logoUrl: z.string().url().optional(),
+    primaryColor: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional(),
+    supportEmail: z.string().email().optional(),
+  }).optional(),
+  active: z.boolean().optional(),
+});
+
+type RouteContext = { params: Promise<{ merchantId: string }> };
+
+/**
+ * GET /api/admin/merchants/[merchantId]
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { merchantId } = await params;
+
+    const merchantService = getMerchantService();
+    const merchant = await merchantService.getMerchant(merchantId);
+
+    if (!merchant) {
+      return NextResponse.json(
+        { success: false, error: 'Merchant not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: serializeMerchant(merchant) });
+
+  } catch (error: any) {
+    console.error('[API] Get merchant error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/admin/merchants/[merchantId]
+ * Update settlement, accepted coins, branding or deactivate a merchant.
+ * New settlement config only applies to orders created afterwards.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { merchantId } = await params;
+    const body = await request.json();
+    const validatedData = UpdateMerchantSchema.parse(body);
+
+    const merchantService = getMerchantService();
+    const merchant = await merchantService.updateMerchant(merchantId, validatedData);
+
+    return NextResponse.json({ success: true, data: serializeMerchant(merchant) });
+
+  } catch (error: any) {
+    console.error('[API] Update merchant error:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error.name === 'MerchantError') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
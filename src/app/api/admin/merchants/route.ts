@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { isAdminSessionRequest } from '@/lib/admin-auth';
+import { getMerchantService, serializeMerchant } from '@/services/merchant.service';
+
+const CoinSchema = z.object({
+  coin: z.string().min(1),
+  network: z.string().min(1),
+});
+
+// No network = block the coin on every network
+const BlockedCoinSchema = CoinSchema.partial({ network: true });
+
+const BrandingSchema = z.object({
+  displayName: z.string().max(100).optional(),
+  logoUrl: z.string().url().optional(),
+  primaryColor: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional(),
+  supportEmail: z.string().email().optional(),
+});
+
+const CreateMerchantSchema = z.object({
+  merchantId: z.string(),
+  name: z.string().min(1).max(100),
+  settleCoin: z.string().min(1),
+  settleNetwork: z.string().min(1),
+  settleAddress: z.string().min(1),
+  affiliateId: z.string().optional(),
+  acceptedCoins: z.array(CoinSchema).optional(),
+  blockedCoins: z.array(BlockedCoinSchema).optional(),
+  branding: BrandingSchema.optional(),
+});
+
+/**
+ * GET /api/admin/merchants
+ * List merchants (including the env-configured default)
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const merchantService = getMerchantService();
+    const merchants = await merchantService.listMerchants();
+
+    return NextResponse.json({
+      success: true,
+      data: merchants.map(serializeMerchant),
+    });
+
+  } catch (error: any) {
+    console.error('[API] List merchants error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/merchants
+ * Create a merchant with its own settlement config
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validatedData = CreateMerchantSchema.parse(body);
+
+    const merchantService = getMerchantService();
+    const merchant = await merchantService.createMerchant(validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: serializeMerchant(merchant),
+    }, { status: 201 });
+
+  } catch (error: any) {
+    console.error('[API] Create merchant error:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error.name === 'MerchantError') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
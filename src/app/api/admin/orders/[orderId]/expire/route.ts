@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateDashboardRequest, authErrorResponse, canAccessOrder } from '@/lib/api-auth';
+import { getPaymentService } from '@/services/payment.service';
+
+const ExpireSchema = z.object({
+  note: z.string().max(500).optional(),
+});
+
+/**
+ * POST /api/admin/orders/[orderId]/expire
+ * Expire a pending order now (only allowed before a deposit is seen)
+ * Auth: dashboard session or key (scope: create), for the merchant's own orders
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const auth = await authenticateDashboardRequest(request, 'create');
+    if (!auth.ok) {
+      return authErrorResponse(auth);
+    }
+
+    const { orderId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { note } = ExpireSchema.parse(body);
+
+    const paymentService = getPaymentService();
+    const order = await paymentService.getOrder(orderId);
+    if (!order || !canAccessOrder(auth.auth, order)) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    if (order.status !== 'pending' || order.depositTxHash) {
+      return NextResponse.json(
+        { success: false, error: `Order in status "${order.status}" cannot be expired` },
+        { status: 409 }
+      );
+    }
+
+    const updated = await paymentService.updateOrderStatus(orderId, 'expired', {
+      note: note || (auth.auth.type === 'admin' ? 'Expired by admin' : 'Expired by merchant'),
+      source: 'admin',
+      shiftId: order.shiftId, // Skip if re-quoted meanwhile
+    });
+
+    // Lost a race with a deposit/webhook: the state machine refused it
+    if (updated.status !== 'expired') {
+      return NextResponse.json(
+        { success: false, error: `Order moved to "${updated.status}" and cannot be expired` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        orderId: updated.orderId,
+        status: updated.status,
+        updatedAt: updated.updatedAt,
+      },
+    });
+
+  } catch (error: any) {
+    console.error('[API] Admin expire error:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
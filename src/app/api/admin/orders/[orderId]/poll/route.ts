@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateDashboardRequest, authErrorResponse, canAccessOrder } from '@/lib/api-auth';
+import { SwapProviderError } from '@/lib/swap-provider';
+import { getPaymentService } from '@/services/payment.service';
+
+/**
+ * POST /api/admin/orders/[orderId]/poll
+ * Force a SideShift status check now (e.g. a webhook never arrived)
+ * Auth: dashboard session or key (scope: read), for the merchant's own orders
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const auth = await authenticateDashboardRequest(request, 'read');
+    if (!auth.ok) {
+      return authErrorResponse(auth);
+    }
+
+    const { orderId } = await params;
+
+    const paymentService = getPaymentService();
+    const existing = await paymentService.getOrder(orderId);
+    if (!existing || !canAccessOrder(auth.auth, existing)) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    const order = await paymentService.pollShiftStatus(orderId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        orderId: order.orderId,
+        status: order.status,
+        depositTxHash: order.depositTxHash,
+        settleTxHash: order.settleTxHash,
+        updatedAt: order.updatedAt,
+      },
+    });
+
+  } catch (error: any) {
+    console.error('[API] Admin poll error:', error);
+
+    if (error.message?.includes('not found')) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof SwapProviderError) {
+      return NextResponse.json(
+        { success: false, error: 'Payment provider error', details: error.message },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
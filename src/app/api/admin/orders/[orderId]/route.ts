@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateDashboardRequest, authErrorResponse, canAccessOrder } from '@/lib/api-auth';
+import { getPaymentService } from '@/services/payment.service';
+import { getWebhookService } from '@/services/webhook.service';
+import { getRefundService, serializeRefund } from '@/services/refund.service';
+
+/**
+ * GET /api/admin/orders/[orderId]
+ * Full order with its status history, related SideShift webhook events
+ * and refunds
+ * Auth: dashboard session or key (scope: read), for the merchant's own orders
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const auth = await authenticateDashboardRequest(request, 'read');
+    if (!auth.ok) {
+      return authErrorResponse(auth);
+    }
+
+    const { orderId } = await params;
+
+    const order = await getPaymentService().getOrder(orderId);
+    if (!order || !canAccessOrder(auth.auth, order)) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    const [events, refunds] = await Promise.all([
+      getWebhookService().listOrderEvents(order),
+      getRefundService().listRefunds({ orderId, limit: 50 }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        order: order.toObject(),
+        webhookEvents: events.map(event => ({
+          eventId: event.eventId,
+          eventType: event.eventType,
+          shiftId: event.shiftId,
+          verified: event.verified,
+          verifiedStatus: event.verifiedStatus,
+          rejected: event.rejected,
+          rejectionReason: event.rejectionReason,
+          processed: event.processed,
+          processingError: event.processingError,
+          retryCount: event.retryCount,
+          deadLettered: event.deadLettered,
+          receivedAt: event.receivedAt,
+        })),
+        refunds: refunds.map(serializeRefund),
+      },
+    });
+
+  } catch (error: any) {
+    console.error('[API] Get admin order error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
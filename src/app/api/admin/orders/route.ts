@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateDashboardRequest, authErrorResponse } from '@/lib/api-auth';
+import { getPaymentService } from '@/services/payment.service';
+
+const SearchOrdersSchema = z.object({
+  merchantId: z.string().optional(),
+  status: z.enum([
+    'pending', 'detecting', 'processing', 'settling', 'completed',
+    'expired', 'failed', 'refunded', 'underpaid', 'overpaid',
+  ]).optional(),
+  coin: z.string().optional(),
+  network: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  q: z.string().max(200).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+/**
+ * GET /api/admin/orders
+ * Search payment orders (newest first)
+ * Auth: dashboard session or key (scope: read); merchants only see their own
+ *
+ * Query params:
+ * - status, coin, network (deposit side), merchantId (admin only)
+ * - from, to: createdAt range (ISO dates, `to` exclusive)
+ * - q: orderNumber, orderId, email, deposit address, tx hash or shiftId
+ * - page (1-based), limit (default 50, max 200)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateDashboardRequest(request, 'read');
+    if (!auth.ok) {
+      return authErrorResponse(auth);
+    }
+
+    const { searchParams } = new URL(request.url);
+    const params = SearchOrdersSchema.parse(
+      Object.fromEntries([...searchParams.entries()].filter(([, value]) => value !== ''))
+    );
+
+    const { orders, total } = await getPaymentService().searchOrders({
+      ...params,
+      merchantId: auth.auth.type === 'admin' ? params.merchantId : auth.auth.merchantId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: orders.map(order => ({
+        orderId: order.orderId,
+        orderNumber: order.orderNumber,
+        merchantId: order.merchantId,
+        status: order.status,
+        paymentMode: order.paymentMode,
+        totalUSD: order.totalUSD,
+        customerEmail: order.customerEmail,
+        depositCoin: order.depositCoin,
+        depositNetwork: order.depositNetwork,
+        depositAmount: order.depositAmount,
+        receivedAmount: order.receivedAmount,
+        settleCoin: order.settleCoin,
+        settleAmount: order.settleAmount,
+        createdAt: order.createdAt,
+        updatedAt: order.updatedAt,
+      })),
+      pagination: {
+        page: params.page || 1,
+        limit: params.limit || 50,
+        total,
+      },
+    });
+
+  } catch (error: any) {
+    console.error('[API] Search orders error:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid query', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
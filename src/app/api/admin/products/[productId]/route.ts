@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { isAdminSessionRequest } from '@/lib/admin-auth';
+import { getCatalogService, serializeProduct } from '@/services/catalog.service';
+
+const UpdateProductSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  description: z.string().max(2000).optional(),
+  imageUrl: z.string().url().optional(),
+  priceUSD: z.number().min(0.01).multipleOf(0.01).optional(),
+  active: z.boolean().optional(),
+});
+
+type RouteContext = { params: Promise<{ productId: string }> };
+
+/**
+ * GET /api/admin/products/[productId]
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { productId } = await params;
+
+    const catalogService = getCatalogService();
+    const product = await catalogService.getProduct(productId);
+
+    if (!product) {
+      return NextResponse.json(
+        { success: false, error: 'Product not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: serializeProduct(product) });
+
+  } catch (error: any) {
+    console.error('[API] Get product error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/admin/products/[productId]
+ * Update details or price, or deactivate ({ active: false })
+ * Existing orders keep the price they were created with
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { productId } = await params;
+    const body = await request.json();
+    const validatedData = UpdateProductSchema.parse(body);
+
+    const catalogService = getCatalogService();
+    const product = await catalogService.updateProduct(productId, validatedData);
+
+    return NextResponse.json({ success: true, data: serializeProduct(product) });
+
+  } catch (error: any) {
+    console.error('[API] Update product error:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error.message.includes('not found')) {
+      return NextResponse.json(
+        { success: false, error: 'Product not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { isAdminSessionRequest } from '@/lib/admin-auth';
+import { getCatalogService, serializeProduct } from '@/services/catalog.service';
+import { DEFAULT_MERCHANT_ID } from '@/services/merchant.service';
+
+const CreateProductSchema = z.object({
+  merchantId: z.string().default(DEFAULT_MERCHANT_ID),
+  name: z.string().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  imageUrl: z.string().url().optional(),
+  priceUSD: z.number().min(0.01).multipleOf(0.01),
+});
+
+/**
+ * GET /api/admin/products?merchantId=&includeInactive=true
+ * List a merchant's catalog
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = request.nextUrl;
+
+    const catalogService = getCatalogService();
+    const products = await catalogService.listProducts(
+      searchParams.get('merchantId') || DEFAULT_MERCHANT_ID,
+      { includeInactive: searchParams.get('includeInactive') === 'true' }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: products.map(serializeProduct),
+    });
+
+  } catch (error: any) {
+    console.error('[API] List products error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/products
+ * Add a product to a merchant's catalog
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validatedData = CreateProductSchema.parse(body);
+
+    const catalogService = getCatalogService();
+    const product = await catalogService.createProduct(validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: serializeProduct(product),
+    }, { status: 201 });
+
+  } catch (error: any) {
+    console.error('[API] Create product error:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminSessionRequest } from '@/lib/admin-auth';
+import {
+  getReconciliationService,
+  serializeReconciliationReport,
+} from '@/services/reconciliation.service';
+
+/**
+ * GET /api/admin/reconciliation/[reportId]
+ * Full report with discrepancies and per-order API errors
+ *
+ * Query params:
+ * - type: only this discrepancy type (status, deposit_amount, ...)
+ * - severity: high | low
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ reportId: string }> }
+) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { reportId } = await params;
+    const { searchParams } = new URL(request.url);
+    const type = searchParams.get('type');
+    const severity = searchParams.get('severity');
+
+    const report = await getReconciliationService().getReport(reportId);
+    if (!report) {
+      return NextResponse.json(
+        { success: false, error: 'Report not found' },
+        { status: 404 }
+      );
+    }
+
+    const data = serializeReconciliationReport(report, true);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...data,
+        discrepancies: data.discrepancies?.filter(discrepancy =>
+          (!type || discrepancy.type === type) &&
+          (!severity || discrepancy.severity === severity)
+        ),
+      },
+    });
+
+  } catch (error: any) {
+    console.error('[API] Get reconciliation report error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
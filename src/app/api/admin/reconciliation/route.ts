@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { z } from 'zod';
+import { isAdminSessionRequest } from '@/lib/admin-auth';
+import {
+  getReconciliationService,
+  serializeReconciliationReport,
+} from '@/services/reconciliation.service';
+
+const RunReconciliationSchema = z.object({
+  lookbackHours: z.number().positive().max(24 * 90).optional(),
+});
+
+/**
+ * GET /api/admin/reconciliation
+ * Recent reconciliation reports (summaries, newest first)
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const reports = await getReconciliationService().listReports(
+      parseInt(searchParams.get('limit') || '20', 10)
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: reports.map(report => serializeReconciliationReport(report)),
+    });
+
+  } catch (error: any) {
+    console.error('[API] List reconciliation reports error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/reconciliation
+ * Start a reconciliation run now
+ * Body: { lookbackHours? } (default RECONCILIATION_LOOKBACK_HOURS)
+ *
+ * Returns 202 with the running report; fetch it by reportId for results
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { lookbackHours } = RunReconciliationSchema.parse(body);
+
+    const reconciliationService = getReconciliationService();
+    const report = await reconciliationService.startReport('admin', lookbackHours);
+
+    after(async () => {
+      try {
+        await reconciliationService.runReport(report.reportId);
+      } catch (error) {
+        console.error(`[Reconcile ${report.reportId}] Background run failed:`, error);
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: serializeReconciliationReport(report),
+    }, { status: 202 });
+
+  } catch (error: any) {
+    console.error('[API] Start reconciliation error:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error.name === 'ReconciliationError') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminSessionRequest } from '@/lib/admin-auth';
+import { SwapProviderError } from '@/lib/swap-provider';
+import { getRefundService, serializeRefund } from '@/services/refund.service';
+
+/**
+ * POST /api/admin/refunds/[refundId]/process
+ * Create the SideShift refund shift for a pending refund
+ * Body (optional): { processedBy: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ refundId: string }> }
+) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { refundId } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    const refundService = getRefundService();
+    const refund = await refundService.processRefund(
+      refundId,
+      typeof body?.processedBy === 'string' ? body.processedBy : undefined
+    );
+
+    return NextResponse.json({ success: true, data: serializeRefund(refund) });
+
+  } catch (error: any) {
+    console.error('[API] Process refund error:', error);
+
+    if (error.name === 'RefundError') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+
+    if (error.message?.includes('not found')) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof SwapProviderError) {
+      return NextResponse.json(
+        { success: false, error: 'Payment provider error', details: error.message },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
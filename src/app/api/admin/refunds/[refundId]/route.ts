@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminSessionRequest } from '@/lib/admin-auth';
+import { getRefundService, serializeRefund } from '@/services/refund.service';
+
+/**
+ * GET /api/admin/refunds/[refundId]
+ * Get a refund, including the deposit address the merchant must fund
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ refundId: string }> }
+) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { refundId } = await params;
+
+    const refundService = getRefundService();
+    const refund = await refundService.getRefund(refundId);
+
+    if (!refund) {
+      return NextResponse.json(
+        { success: false, error: 'Refund not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: serializeRefund(refund) });
+
+  } catch (error: any) {
+    console.error('[API] Get refund error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminSessionRequest } from '@/lib/admin-auth';
+import { SwapProviderError } from '@/lib/swap-provider';
+import { getRefundService, serializeRefund } from '@/services/refund.service';
+
+/**
+ * POST /api/admin/refunds/[refundId]/sync
+ * Poll the refund shift now instead of waiting for the monitor
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ refundId: string }> }
+) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { refundId } = await params;
+
+    const refundService = getRefundService();
+    const refund = await refundService.syncRefund(refundId);
+
+    return NextResponse.json({ success: true, data: serializeRefund(refund) });
+
+  } catch (error: any) {
+    console.error('[API] Sync refund error:', error);
+
+    if (error.message?.includes('not found')) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof SwapProviderError) {
+      return NextResponse.json(
+        { success: false, error: 'Payment provider error', details: error.message },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { isAdminSessionRequest } from '@/lib/admin-auth';
+import { authenticateDashboardRequest, authErrorResponse, canAccessOrder } from '@/lib/api-auth';
+import { SwapProviderError } from '@/lib/swap-provider';
+import { getPaymentService } from '@/services/payment.service';
+import { getRefundService, serializeRefund } from '@/services/refund.service';
+import { RefundStatus } from '@/models/Refund';
+
+const CreateRefundSchema = z.object({
+  orderId: z.string(),
+  reason: z.enum(['expired', 'failed', 'customer_request', 'overpaid', 'underpaid', 'duplicate']),
+  refundAmount: z.string().regex(/^\d+(\.\d+)?$/).optional(),
+  refundAddress: z.string().optional(),
+  refundMemo: z.string().max(100).optional(), // Memo/tag for refundAddress
+  refundCoin: z.string().optional(),
+  refundNetwork: z.string().optional(),
+  notes: z.string().max(1000).optional(),
+  processedBy: z.string().optional(),
+  process: z.boolean().optional(), // Create the refund shift immediately
+});
+
+/**
+ * GET /api/admin/refunds
+ * List refunds (filters: status, orderId)
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const refundService = getRefundService();
+    const refunds = await refundService.listRefunds({
+      status: (searchParams.get('status') as RefundStatus) || undefined,
+      orderId: searchParams.get('orderId') || undefined,
+      limit: parseInt(searchParams.get('limit') || '50', 10),
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: refunds.map(serializeRefund),
+    });
+
+  } catch (error: any) {
+    console.error('[API] List refunds error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/refunds
+ * Open a refund for an order
+ * Amount, coin, network and address default to the order's deposit details
+ * Auth: dashboard session or key (scope: refund), for the merchant's own
+ * orders; only an admin may process the refund shift right away
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateDashboardRequest(request, 'refund');
+    if (!auth.ok) {
+      return authErrorResponse(auth);
+    }
+
+    const body = await request.json();
+    const { process: processNow, ...validatedData } = CreateRefundSchema.parse(body);
+
+    if (auth.auth.type === 'api_key') {
+      if (processNow) {
+        return authErrorResponse({ status: 403, error: 'Only an admin can process a refund' });
+      }
+      validatedData.processedBy = `api_key:${auth.auth.keyId}`;
+    }
+
+    const order = await getPaymentService().getOrder(validatedData.orderId);
+    if (!order || !canAccessOrder(auth.auth, order)) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    const refundService = getRefundService();
+    let refund = await refundService.createRefund(validatedData);
+
+    if (processNow) {
+      refund = await refundService.processRefund(refund.refundId, validatedData.processedBy);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: serializeRefund(refund),
+    }, { status: 201 });
+
+  } catch (error: any) {
+    return handleRefundError(error, 'Create refund');
+  }
+}
+
+function handleRefundError(error: any, action: string) {
+  console.error(`[API] ${action} error:`, error);
+
+  if (error.name === 'ZodError') {
+    return NextResponse.json(
+      { success: false, error: 'Invalid request data', details: error.errors },
+      { status: 400 }
+    );
+  }
+
+  if (error.name === 'RefundError') {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 409 }
+    );
+  }
+
+  if (error.message?.includes('not found')) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 404 }
+    );
+  }
+
+  if (error instanceof SwapProviderError) {
+    return NextResponse.json(
+      { success: false, error: 'Payment provider error', details: error.message },
+      { status: 502 }
+    );
+  }
+
+  return NextResponse.json(
+    { success: false, error: 'Internal server error' },
+    { status: 500 }
+  );
+}
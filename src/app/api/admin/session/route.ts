@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  isAdminKey,
+  createDashboardSession,
+  ADMIN_SESSION_COOKIE,
+  ADMIN_SESSION_TTL_SECONDS,
+} from '@/lib/admin-auth';
+import { authenticateDashboardRequest, authErrorResponse, checkoutTokensConfigured } from '@/lib/api-auth';
+import { getApiKeyService } from '@/services/api-key.service';
+
+const LoginSchema = z.object({
+  apiKey: z.string().min(1),
+});
+
+/**
+ * GET /api/admin/session
+ * Who the dashboard is signed in as (admin, or a merchant and its key's scopes)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateDashboardRequest(request, 'read');
+    if (!auth.ok) {
+      return authErrorResponse(auth);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: auth.auth.type === 'admin'
+        ? { type: 'admin' }
+        : { type: 'merchant', merchantId: auth.auth.merchantId, scopes: auth.auth.scopes },
+    });
+
+  } catch (error: any) {
+    console.error('[API] Get dashboard session error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/session
+ * Sign in to the dashboard with ADMIN_API_KEY (all merchants) or a merchant
+ * secret key with the read scope (that merchant's orders only)
+ * Sets an httpOnly, SameSite=Strict session cookie
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { apiKey } = LoginSchema.parse(body);
+
+    let session: { value: string; expiresAt: Date };
+    let merchantId: string | undefined;
+
+    if (isAdminKey(apiKey)) {
+      session = createDashboardSession();
+    } else {
+      const merchantKey = await getApiKeyService().authenticate(apiKey);
+      if (!merchantKey) {
+        return NextResponse.json({ success: false, error: 'Invalid API key' }, { status: 401 });
+      }
+      if (!merchantKey.scopes.includes('read')) {
+        return NextResponse.json({ success: false, error: 'API key lacks the "read" scope' }, { status: 403 });
+      }
+      if (!checkoutTokensConfigured()) {
+        console.error('[API] Dashboard login: CHECKOUT_TOKEN_SECRET not configured');
+        return NextResponse.json(
+          { success: false, error: 'Merchant sign-in is not configured' },
+          { status: 500 }
+        );
+      }
+
+      merchantId = merchantKey.merchantId;
+      session = createDashboardSession({ merchantId, keyId: merchantKey.keyId });
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      data: { expiresAt: session.expiresAt, ...(merchantId ? { merchantId } : {}) },
+    });
+
+    response.cookies.set(ADMIN_SESSION_COOKIE, session.value, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      path: '/',
+      maxAge: ADMIN_SESSION_TTL_SECONDS,
+    });
+
+    return response;
+
+  } catch (error: any) {
+    console.error('[API] Admin login error:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/session
+ * Sign out of the dashboard
+ */
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.set(ADMIN_SESSION_COOKIE, '', { path: '/', maxAge: 0 });
+  return response;
+}
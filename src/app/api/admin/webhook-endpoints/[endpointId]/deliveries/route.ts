@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminSessionRequest } from '@/lib/admin-auth';
+import { getMerchantWebhookService } from '@/services/merchant-webhook.service';
+
+/**
+ * GET /api/admin/webhook-endpoints/[endpointId]/deliveries
+ * Recent deliveries to an endpoint, with every attempt
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ endpointId: string }> }
+) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { endpointId } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const merchantWebhookService = getMerchantWebhookService();
+    const deliveries = await merchantWebhookService.listDeliveries(
+      endpointId,
+      parseInt(searchParams.get('limit') || '50', 10)
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: deliveries.map(delivery => ({
+        deliveryId: delivery.deliveryId,
+        eventId: delivery.eventId,
+        eventType: delivery.eventType,
+        orderId: delivery.orderId,
+        status: delivery.status,
+        attemptCount: delivery.attemptCount,
+        attempts: delivery.attempts,
+        nextAttemptAt: delivery.nextAttemptAt,
+        deliveredAt: delivery.deliveredAt,
+        createdAt: delivery.createdAt,
+      })),
+    });
+
+  } catch (error: any) {
+    console.error('[API] List webhook deliveries error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
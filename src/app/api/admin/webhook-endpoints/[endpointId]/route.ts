@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { isAdminSessionRequest } from '@/lib/admin-auth';
+import { getMerchantWebhookService, serializeEndpoint } from '@/services/merchant-webhook.service';
+
+const UpdateEndpointSchema = z.object({
+  url: z.string().url().optional(),
+  events: z.array(z.string()).optional(),
+  description: z.string().max(200).optional(),
+  active: z.boolean().optional(),
+  rotateSecret: z.boolean().optional(),
+});
+
+type RouteContext = { params: Promise<{ endpointId: string }> };
+
+/**
+ * GET /api/admin/webhook-endpoints/[endpointId]
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { endpointId } = await params;
+
+    const merchantWebhookService = getMerchantWebhookService();
+    const endpoint = await merchantWebhookService.getEndpoint(endpointId);
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { success: false, error: 'Endpoint not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: serializeEndpoint(endpoint) });
+
+  } catch (error: any) {
+    console.error('[API] Get webhook endpoint error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/admin/webhook-endpoints/[endpointId]
+ * Update URL, subscribed events, active flag, or rotate the secret
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { endpointId } = await params;
+    const body = await request.json();
+    const validatedData = UpdateEndpointSchema.parse(body);
+
+    const merchantWebhookService = getMerchantWebhookService();
+    const endpoint = await merchantWebhookService.updateEndpoint(endpointId, validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...serializeEndpoint(endpoint),
+        // Only reveal the secret when it was just rotated
+        ...(validatedData.rotateSecret ? { secret: endpoint.secret } : {}),
+      },
+    });
+
+  } catch (error: any) {
+    console.error('[API] Update webhook endpoint error:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error.name === 'WebhookEndpointValidationError') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error.message.includes('not found')) {
+      return NextResponse.json(
+        { success: false, error: 'Endpoint not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/webhook-endpoints/[endpointId]
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { endpointId } = await params;
+
+    const merchantWebhookService = getMerchantWebhookService();
+    await merchantWebhookService.deleteEndpoint(endpointId);
+
+    return NextResponse.json({ success: true });
+
+  } catch (error: any) {
+    console.error('[API] Delete webhook endpoint error:', error);
+
+    if (error.message.includes('not found')) {
+      return NextResponse.json(
+        { success: false, error: 'Endpoint not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
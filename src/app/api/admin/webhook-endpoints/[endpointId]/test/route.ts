@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminSessionRequest } from '@/lib/admin-auth';
+import { getMerchantWebhookService } from '@/services/merchant-webhook.service';
+
+/**
+ * POST /api/admin/webhook-endpoints/[endpointId]/test
+ * Send a signed `ping` event and return the delivery result
+ * 
+ * For local integration testing, register http://localhost:<port>/...
+ * (plain HTTP is accepted for localhost outside production)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ endpointId: string }> }
+) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { endpointId } = await params;
+
+    const merchantWebhookService = getMerchantWebhookService();
+    const delivery = await merchantWebhookService.sendTestPing(endpointId);
+    const attempt = delivery.attempts[delivery.attempts.length - 1];
+
+    return NextResponse.json({
+      success: delivery.status === 'succeeded',
+      data: {
+        deliveryId: delivery.deliveryId,
+        status: delivery.status,
+        responseStatus: attempt?.responseStatus,
+        responseBody: attempt?.responseBody,
+        error: attempt?.error,
+        durationMs: attempt?.durationMs,
+      },
+    });
+
+  } catch (error: any) {
+    console.error('[API] Test webhook endpoint error:', error);
+
+    if (error.message.includes('not found')) {
+      return NextResponse.json(
+        { success: false, error: 'Endpoint not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
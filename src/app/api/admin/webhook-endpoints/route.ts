@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { isAdminSessionRequest } from '@/lib/admin-auth';
+import { getMerchantWebhookService, serializeEndpoint } from '@/services/merchant-webhook.service';
+
+const CreateEndpointSchema = z.object({
+  merchantId: z.string().optional(),
+  url: z.string().url(),
+  events: z.array(z.string()).optional(),
+  description: z.string().max(200).optional(),
+});
+
+/**
+ * GET /api/admin/webhook-endpoints?merchantId=
+ * List registered merchant webhook endpoints
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const merchantWebhookService = getMerchantWebhookService();
+    const merchantId = request.nextUrl.searchParams.get('merchantId') || undefined;
+    const endpoints = await merchantWebhookService.listEndpoints(merchantId);
+
+    return NextResponse.json({
+      success: true,
+      data: endpoints.map(serializeEndpoint),
+    });
+
+  } catch (error: any) {
+    console.error('[API] List webhook endpoints error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/webhook-endpoints
+ * Register an endpoint. The signing secret is only returned here
+ * (and when rotated), so store it on the receiving side.
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validatedData = CreateEndpointSchema.parse(body);
+
+    const merchantWebhookService = getMerchantWebhookService();
+    const endpoint = await merchantWebhookService.createEndpoint(validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...serializeEndpoint(endpoint),
+        secret: endpoint.secret,
+      },
+    }, { status: 201 });
+
+  } catch (error: any) {
+    console.error('[API] Create webhook endpoint error:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error.name === 'WebhookEndpointValidationError') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminSessionRequest } from '@/lib/admin-auth';
+import { getWebhookService } from '@/services/webhook.service';
+
+/**
+ * POST /api/admin/webhooks/[eventId]/replay
+ * Manually reprocess a webhook event (e.g. from the dead-letter queue)
+ * The status is always re-read from SideShift, so replays are safe
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { eventId } = await params;
+
+    const webhookService = getWebhookService();
+    const result = await webhookService.replayEvent(eventId);
+
+    return NextResponse.json({
+      success: result.outcome !== 'failed',
+      data: result,
+    });
+
+  } catch (error: any) {
+    console.error('[API] Replay webhook error:', error);
+
+    if (error.message.includes('not found')) {
+      return NextResponse.json(
+        { success: false, error: 'Event not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
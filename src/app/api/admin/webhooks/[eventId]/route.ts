@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminSessionRequest } from '@/lib/admin-auth';
+import { getWebhookService } from '@/services/webhook.service';
+import { sanitizeWebhookHeaders } from '@/lib/webhook-security';
+
+/**
+ * GET /api/admin/webhooks/[eventId]
+ * Inspect a single webhook event, including payload and headers
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { eventId } = await params;
+
+    const webhookService = getWebhookService();
+    const event = await webhookService.getEvent(eventId);
+
+    if (!event) {
+      return NextResponse.json(
+        { success: false, error: 'Event not found' },
+        { status: 404 }
+      );
+    }
+
+    // Events stored before headers were sanitized may still carry secrets
+    const data = event.toObject({ flattenMaps: true });
+    data.headers = sanitizeWebhookHeaders(data.headers || {});
+
+    return NextResponse.json({
+      success: true,
+      data,
+    });
+
+  } catch (error: any) {
+    console.error('[API] Get webhook error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
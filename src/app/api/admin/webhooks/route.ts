@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminSessionRequest } from '@/lib/admin-auth';
+import { getWebhookService, WebhookEventState } from '@/services/webhook.service';
+
+const STATES: WebhookEventState[] = ['pending', 'failed', 'dead_letter', 'processed', 'rejected'];
+
+/**
+ * GET /api/admin/webhooks
+ * List inbound webhook events
+ * 
+ * Query params:
+ * - state: pending | failed | dead_letter | processed | rejected
+ * - shiftId, orderId: filter by related entity
+ * - limit: max results (default 50, max 200)
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminSessionRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const state = searchParams.get('state') as WebhookEventState | null;
+
+    if (state && !STATES.includes(state)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid state. Use one of: ${STATES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const webhookService = getWebhookService();
+    const events = await webhookService.listEvents({
+      state: state || undefined,
+      shiftId: searchParams.get('shiftId') || undefined,
+      orderId: searchParams.get('orderId') || undefined,
+      limit: parseInt(searchParams.get('limit') || '50', 10),
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: events.map(event => ({
+        eventId: event.eventId,
+        eventType: event.eventType,
+        shiftId: event.shiftId,
+        orderId: event.orderId,
+        verified: event.verified,
+        rejected: event.rejected,
+        rejectionReason: event.rejectionReason,
+        processed: event.processed,
+        processingError: event.processingError,
+        retryCount: event.retryCount,
+        nextRetryAt: event.nextRetryAt,
+        deadLettered: event.deadLettered,
+        receivedAt: event.receivedAt,
+      })),
+    });
+
+  } catch (error: any) {
+    console.error('[API] List webhooks error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
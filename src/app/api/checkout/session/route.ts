@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest, authErrorResponse, createCheckoutToken } from '@/lib/api-auth';
+import { DEFAULT_MERCHANT_ID } from '@/services/merchant.service';
+
+const CreateSessionSchema = z.object({
+  merchantId: z.string().optional(), // Admin only: which merchant to check out for
+});
+
+/**
+ * POST /api/checkout/session
+ * Mint a short-lived checkout token for the hosted checkout page
+ * 
+ * Call it from your server with a secret key (scope: create) and send the
+ * customer to /checkout?token=... The browser never sees the secret key.
+ * With PUBLIC_CHECKOUT_ENABLED=true, anonymous calls get a token for the
+ * default merchant (demo storefront).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const validatedData = CreateSessionSchema.parse(body);
+
+    let merchantId: string;
+
+    if (!request.headers.get('authorization') && process.env.PUBLIC_CHECKOUT_ENABLED === 'true') {
+      merchantId = DEFAULT_MERCHANT_ID;
+    } else {
+      const result = await authenticateRequest(request, 'create');
+      if (!result.ok) {
+        return authErrorResponse(result);
+      }
+
+      // Tokens can't mint more tokens
+      if (result.auth.type === 'checkout_token') {
+        return authErrorResponse({ status: 403, error: 'Use a secret API key to create checkout sessions' });
+      }
+
+      merchantId = result.auth.type === 'admin'
+        ? validatedData.merchantId || DEFAULT_MERCHANT_ID
+        : result.auth.merchantId;
+    }
+
+    const { token, expiresAt } = createCheckoutToken({ merchantId, scopes: ['create'] });
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || '';
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        token,
+        expiresAt,
+        checkoutUrl: `${appUrl}/checkout?token=${encodeURIComponent(token)}`,
+      },
+    }, { status: 201 });
+
+  } catch (error: any) {
+    console.error('[API] Create checkout session error:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { refreshCoinCatalog } from '@/jobs/refresh-coin-catalog';
+
+/**
+ * GET /api/cron/coins
+ * Vercel Cron Job Endpoint: refreshes the cached coin catalog when stale
+ * 
+ * Configured in vercel.json to run every 15 minutes
+ */
+export async function GET(request: Request) {
+  // Verify cron secret (set in Vercel env vars)
+  const authHeader = request.headers.get('authorization');
+  const expectedAuth = `Bearer ${process.env.CRON_SECRET}`;
+  
+  if (authHeader !== expectedAuth) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await refreshCoinCatalog();
+    return Response.json({ 
+      success: true,
+      timestamp: new Date().toISOString(),
+      ...result 
+    });
+  } catch (error: any) {
+    console.error('[Cron] Coin catalog refresh error:', error);
+    return Response.json({ 
+      success: false, 
+      error: error.message 
+    }, { status: 500 });
+  }
+}
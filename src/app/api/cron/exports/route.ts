@@ -0,0 +1,33 @@
+import { runExports } from '@/jobs/run-exports';
+
+/**
+ * GET /api/cron/exports
+ * Vercel Cron Job Endpoint: runs leftover accounting export jobs and
+ * cleans up expired export files
+ * 
+ * Configured in vercel.json to run every 5 minutes
+ */
+export async function GET(request: Request) {
+  // Verify cron secret (set in Vercel env vars)
+  const authHeader = request.headers.get('authorization');
+  const expectedAuth = `Bearer ${process.env.CRON_SECRET}`;
+  
+  if (authHeader !== expectedAuth) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await runExports();
+    return Response.json({ 
+      success: true,
+      timestamp: new Date().toISOString(),
+      ...result 
+    });
+  } catch (error: any) {
+    console.error('[Cron] Export worker error:', error);
+    return Response.json({ 
+      success: false, 
+      error: error.message 
+    }, { status: 500 });
+  }
+}
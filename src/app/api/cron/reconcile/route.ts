@@ -0,0 +1,32 @@
+import { reconcileOrders } from '@/jobs/reconcile-orders';
+
+/**
+ * GET /api/cron/reconcile
+ * Vercel Cron Job Endpoint: reconciles recent orders with SideShift
+ * 
+ * Configured in vercel.json to run hourly
+ */
+export async function GET(request: Request) {
+  // Verify cron secret (set in Vercel env vars)
+  const authHeader = request.headers.get('authorization');
+  const expectedAuth = `Bearer ${process.env.CRON_SECRET}`;
+  
+  if (authHeader !== expectedAuth) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await reconcileOrders();
+    return Response.json({ 
+      success: true,
+      timestamp: new Date().toISOString(),
+      ...result 
+    });
+  } catch (error: any) {
+    console.error('[Cron] Reconciliation error:', error);
+    return Response.json({ 
+      success: false, 
+      error: error.message 
+    }, { status: error.name === 'ReconciliationError' ? 409 : 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { retryWebhooks } from '@/jobs/retry-webhooks';
+
+/**
+ * GET /api/cron/webhooks
+ * Vercel Cron Job Endpoint: retries failed inbound webhook events and
+ * pending outbound merchant webhook deliveries
+ * 
+ * Configured in vercel.json to run every 2 minutes
+ */
+export async function GET(request: Request) {
+  // Verify cron secret (set in Vercel env vars)
+  const authHeader = request.headers.get('authorization');
+  const expectedAuth = `Bearer ${process.env.CRON_SECRET}`;
+  
+  if (authHeader !== expectedAuth) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await retryWebhooks();
+    return Response.json({ 
+      success: true,
+      timestamp: new Date().toISOString(),
+      ...result 
+    });
+  } catch (error: any) {
+    console.error('[Cron] Webhook retry error:', error);
+    return Response.json({ 
+      success: false, 
+      error: error.message 
+    }, { status: 500 });
+  }
+}
@@ -1,15 +1,15 @@
 import { NextResponse } from 'next/server';
-import { getSideShiftClient } from '@/lib/sideshift';
+import { getSwapProvider } from '@/lib/swap-providers';
 
 /**
  * GET /api/crypto/debug
- * Debug endpoint to see all supported coins and networks
+ * Debug endpoint to see all supported coins and networks (configured swap provider)
  * REMOVE IN PRODUCTION
  */
 export async function GET() {
   try {
-    const sideshift = getSideShiftClient();
-    const coins = await sideshift.getSupportedCoins();
+    const provider = getSwapProvider();
+    const coins = await provider.getSupportedCoins();
 
     // Format for easy reading
     const formatted = coins.map(coin => ({
@@ -1,9 +1,9 @@
-import { NextResponse } from 'next/server';
-import { getSideShiftClient } from '@/lib/sideshift';
+import { NextResponse, after } from 'next/server';
+import { getCoinCatalogService } from '@/services/coin-catalog.service';
 
 /**
  * GET /api/crypto/networks
- * Get supported networks for a specific coin
+ * Get supported networks for a specific coin (from the cached coin catalog)
  */
 export async function GET(request: Request) {
   try {
@@ -17,11 +17,10 @@ export async function GET(request: Request) {
       );
     }
 
-    const sideshift = getSideShiftClient();
-    const coins = await sideshift.getSupportedCoins();
-    
-    const coinData = coins.find(c => c.coin === coin);
-    
+    const coinCatalog = getCoinCatalogService();
+    const coinData = await coinCatalog.getCoin(coin);
+    after(() => coinCatalog.refreshIfStale());
+
     if (!coinData) {
       return NextResponse.json(
         { success: false, error: 'Coin not found' },
@@ -35,6 +34,7 @@ export async function GET(request: Request) {
         coin: coinData.coin,
         name: coinData.name,
         networks: coinData.networks,
+        networksWithMemo: coinData.networksWithMemo,
       },
     });
 
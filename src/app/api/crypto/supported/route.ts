@@ -1,33 +1,52 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getSideShiftClient } from '@/lib/sideshift';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/api-auth';
+import { getCoinCatalogService } from '@/services/coin-catalog.service';
+import { getMerchantService, DEFAULT_MERCHANT_ID } from '@/services/merchant.service';
 
 /**
  * GET /api/crypto/supported
- * Get list of supported coins and networks
+ * Coins and networks customers can pay with, from the cached coin catalog
+ * narrowed to the merchant's allow/deny lists
+ *
+ * Public; with a checkout token or API key the caller's merchant is used,
+ * otherwise ?merchantId= (default merchant if omitted)
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const sideshift = getSideShiftClient();
-    const coins = await sideshift.getSupportedCoins();
-
-    // Filter to most popular coins for better UX
-    const popularCoins = ['btc', 'eth', 'usdc', 'usdt', 'sol', 'bnb', 'matic', 'arb'];
-    
-    const filtered = coins
-      .filter(coin => popularCoins.includes(coin.coin))
-      .map(coin => ({
-        coin: coin.coin,
-        name: coin.name,
-        networks: coin.networks,
-      }));
+    let merchantId = request.nextUrl.searchParams.get('merchantId') || DEFAULT_MERCHANT_ID;
+
+    if (request.headers.has('authorization')) {
+      const auth = await authenticateRequest(request, 'create');
+      if (!auth.ok) {
+        return authErrorResponse(auth);
+      }
+      if (auth.auth.type !== 'admin') {
+        merchantId = auth.auth.merchantId;
+      }
+    }
+
+    const merchant = await getMerchantService().resolveMerchant(merchantId);
+    const coinCatalog = getCoinCatalogService();
+    const coins = await coinCatalog.getMerchantCoins(merchant);
+
+    // Stale snapshots are served as-is; refresh once the response is out
+    after(() => coinCatalog.refreshIfStale());
 
     return NextResponse.json({
       success: true,
-      data: filtered,
+      data: coins,
     });
 
   } catch (error: any) {
     console.error('[API] Get supported coins error:', error);
+
+    if (error.name === 'MerchantError') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
     return NextResponse.json(
       { success: false, error: 'Failed to fetch supported coins' },
       { status: 500 }
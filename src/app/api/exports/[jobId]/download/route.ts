@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/api-auth';
+import { getExportFormat } from '@/lib/order-export';
+import { getExportService } from '@/services/export.service';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/exports/[jobId]/download
+ * Download a completed export (streamed from storage)
+ * Auth: secret key (scope: read) of the job's merchant, or admin
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+
+    const auth = await authenticateRequest(request, 'read');
+    if (!auth.ok) {
+      return authErrorResponse(auth);
+    }
+
+    const exportService = getExportService();
+    const job = await exportService.getJob(jobId);
+
+    if (!job || (auth.auth.type !== 'admin' && (auth.auth.type !== 'api_key' || job.merchantId !== auth.auth.merchantId))) {
+      return NextResponse.json(
+        { success: false, error: 'Export not found' },
+        { status: 404 }
+      );
+    }
+
+    const stream = await exportService.openDownload(job);
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': getExportFormat(job.format).contentType,
+        'Content-Disposition': `attachment; filename="${job.fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+
+  } catch (error: any) {
+    console.error('[API] Download export error:', error);
+
+    if (error.name === 'ExportError') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/api-auth';
+import { getExportService, serializeExportJob } from '@/services/export.service';
+
+/**
+ * GET /api/exports/[jobId]
+ * Export job status
+ * Auth: secret key (scope: read) of the job's merchant, or admin
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+
+    const auth = await authenticateRequest(request, 'read');
+    if (!auth.ok) {
+      return authErrorResponse(auth);
+    }
+
+    const job = await getExportService().getJob(jobId);
+
+    // Other merchants' jobs look exactly like missing ones
+    if (!job || (auth.auth.type !== 'admin' && (auth.auth.type !== 'api_key' || job.merchantId !== auth.auth.merchantId))) {
+      return NextResponse.json(
+        { success: false, error: 'Export not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: serializeExportJob(job),
+    });
+
+  } catch (error: any) {
+    console.error('[API] Get export error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest, authErrorResponse } from '@/lib/api-auth';
+import { EXPORT_FORMATS } from '@/lib/order-export';
+import { getExportService, serializeExportJob } from '@/services/export.service';
+
+const CreateExportSchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default('csv'),
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  merchantId: z.string().optional(), // Admin only
+}).refine(data => data.from < data.to, {
+  message: '`from` must be before `to`',
+  path: ['to'],
+});
+
+/**
+ * GET /api/exports
+ * List export jobs (newest first)
+ * Auth: secret key (scope: read); admin key sees all merchants
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, 'read');
+    if (!auth.ok) {
+      return authErrorResponse(auth);
+    }
+
+    if (auth.auth.type === 'checkout_token') {
+      return authErrorResponse({ status: 403, error: 'Checkout tokens cannot export orders' });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const merchantId = auth.auth.type === 'admin'
+      ? searchParams.get('merchantId') || undefined
+      : auth.auth.merchantId;
+
+    const jobs = await getExportService().listJobs(
+      merchantId,
+      parseInt(searchParams.get('limit') || '50', 10)
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: jobs.map(serializeExportJob),
+    });
+
+  } catch (error: any) {
+    console.error('[API] List exports error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/exports
+ * Start an export job of completed orders (completedAt in [from, to))
+ * Body: { format: csv | jsonl | bookkeeping, from, to, merchantId? (admin) }
+ *
+ * Returns 202 with the job; poll GET /api/exports/{jobId} until `completed`,
+ * then download from /api/exports/{jobId}/download
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, 'read');
+    if (!auth.ok) {
+      return authErrorResponse(auth);
+    }
+
+    if (auth.auth.type === 'checkout_token') {
+      return authErrorResponse({ status: 403, error: 'Checkout tokens cannot export orders' });
+    }
+
+    const body = await request.json();
+    const validatedData = CreateExportSchema.parse(body);
+
+    const exportService = getExportService();
+    const job = await exportService.createJob(
+      {
+        format: validatedData.format,
+        from: validatedData.from,
+        to: validatedData.to,
+        merchantId: auth.auth.type === 'admin' ? validatedData.merchantId : auth.auth.merchantId,
+      },
+      auth.auth.type === 'api_key' ? `api_key:${auth.auth.keyId}` : 'admin'
+    );
+
+    // Start right away; /api/cron/exports picks it up if this instance dies
+    after(async () => {
+      try {
+        await exportService.runJob(job.jobId);
+      } catch (error) {
+        console.error(`[Export ${job.jobId}] Background run failed:`, error);
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: serializeExportJob(job),
+    }, { status: 202 });
+
+  } catch (error: any) {
+    console.error('[API] Create export error:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
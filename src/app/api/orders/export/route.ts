@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest, authErrorResponse } from '@/lib/api-auth';
+import { EXPORT_FORMATS, exportFileName, getExportFormat } from '@/lib/order-export';
+import { getExportService } from '@/services/export.service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const ExportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default('csv'),
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  merchantId: z.string().optional(), // Admin only
+}).refine(data => data.from < data.to, {
+  message: '`from` must be before `to`',
+  path: ['to'],
+});
+
+/**
+ * GET /api/orders/export
+ * Stream completed orders (completedAt in [from, to)) as a file download
+ * Auth: secret key (scope: read); admin key may pass merchantId or export all
+ *
+ * Query params:
+ * - format: csv (default) | jsonl | bookkeeping (Xero/QuickBooks bank CSV)
+ * - from, to: ISO dates, `to` exclusive
+ *
+ * Rows are streamed as they are read; for very large ranges prefer an
+ * export job (POST /api/exports) and download the file when it's ready.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, 'read');
+    if (!auth.ok) {
+      return authErrorResponse(auth);
+    }
+
+    if (auth.auth.type === 'checkout_token') {
+      return authErrorResponse({ status: 403, error: 'Checkout tokens cannot export orders' });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = ExportQuerySchema.parse(
+      Object.fromEntries([...searchParams.entries()].filter(([, value]) => value !== ''))
+    );
+
+    const params = {
+      format: query.format,
+      from: query.from,
+      to: query.to,
+      merchantId: auth.auth.type === 'admin' ? query.merchantId : auth.auth.merchantId,
+    };
+
+    const stream = getExportService().streamOrders(params);
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': getExportFormat(params.format).contentType,
+        'Content-Disposition': `attachment; filename="${exportFileName(params.format, params.from, params.to)}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+
+  } catch (error: any) {
+    console.error('[API] Export orders error:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid query', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
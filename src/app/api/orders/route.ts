@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getPaymentService, serializeOrder, PaymentStatus, OrderSortField } from '@/services/payment.service';
+import { authenticateRequest, authErrorResponse } from '@/lib/api-auth';
+
+const STATUSES: PaymentStatus[] = [
+  'pending', 'detecting', 'processing', 'settling', 'completed',
+  'expired', 'failed', 'refunded', 'underpaid', 'overpaid',
+];
+
+const SORTS = ['createdAt', '-createdAt', 'updatedAt', '-updatedAt', 'totalUSD', '-totalUSD'] as const;
+
+const ListOrdersSchema = z.object({
+  merchantId: z.string().optional(), // Admin only
+  status: z.string()
+    .transform(value => value.split(',').map(s => s.trim()).filter(Boolean))
+    .refine(
+      values => values.every(value => STATUSES.includes(value as PaymentStatus)),
+      { message: `status must be one or more of: ${STATUSES.join(', ')}` }
+    )
+    .optional(),
+  createdFrom: z.coerce.date().optional(),
+  createdTo: z.coerce.date().optional(),
+  depositCoin: z.string().optional(),
+  settleNetwork: z.string().optional(),
+  customerEmail: z.string().optional(),
+  depositTxHash: z.string().optional(),
+  depositAddress: z.string().optional(),
+  shiftId: z.string().optional(),
+  sort: z.enum(SORTS).default('-createdAt'),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  cursor: z.string().optional(),
+});
+
+/**
+ * GET /api/orders
+ * List the merchant's orders, newest first by default
+ * Auth: secret key (scope: read); admin key may pass merchantId or see all
+ *
+ * Query params:
+ * - status: one or more, comma-separated (e.g. completed,overpaid)
+ * - createdFrom, createdTo: createdAt range (ISO dates, createdTo exclusive)
+ * - depositCoin, settleNetwork, customerEmail
+ * - depositTxHash, depositAddress, shiftId: look up an order from what the
+ *   customer has (shiftId also matches re-quoted shifts)
+ * - sort: createdAt | updatedAt | totalUSD, prefix with - for descending
+ * - limit: page size (default 25, max 100)
+ * - cursor: pagination.nextCursor from the previous page (keep the same
+ *   filters and sort)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, 'read');
+    if (!auth.ok) {
+      return authErrorResponse(auth);
+    }
+
+    // Checkout tokens are for a single customer's session/order
+    if (auth.auth.type === 'checkout_token') {
+      return authErrorResponse({ status: 403, error: 'Checkout tokens cannot list orders' });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { sort, merchantId, ...filters } = ListOrdersSchema.parse(
+      Object.fromEntries([...searchParams.entries()].filter(([, value]) => value !== ''))
+    );
+
+    const result = await getPaymentService().listOrders({
+      ...filters,
+      status: filters.status as PaymentStatus[] | undefined,
+      merchantId: auth.auth.type === 'admin' ? merchantId : auth.auth.merchantId,
+      sort: sort.replace(/^-/, '') as OrderSortField,
+      direction: sort.startsWith('-') ? 'desc' : 'asc',
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result.orders.map(serializeOrder),
+      pagination: {
+        limit: filters.limit,
+        nextCursor: result.nextCursor,
+        hasMore: result.nextCursor !== null,
+      },
+    });
+
+  } catch (error: any) {
+    console.error('[API] List orders error:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid query', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error.name === 'OrderQueryError') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPaymentService } from '@/services/payment.service';
+import { authenticateRequest, authErrorResponse, canAccessOrder } from '@/lib/api-auth';
+import { subscribeToOrder, sharePoller, toOrderUpdateEvent, OrderUpdateEvent } from '@/lib/order-events';
+import { isFinalStatus } from '@/lib/payment-status';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_MS = 15 * 1000;
+const POLL_INTERVAL_MS = 15 * 1000; // Server-side provider poll, one per order (no webhook needed)
+const MAX_STREAM_MS = 5 * 60 * 1000; // Then ask the client to reconnect
+
+/**
+ * GET /api/payments/[orderId]/events
+ * Server-Sent Events stream of order updates
+ * Auth: secret key or order token (scope: read); browsers pass ?token=
+ *
+ * Events:
+ * - status: OrderUpdateEvent, sent on connect and on every change
+ * - reconnect: stream hit its max lifetime, open a new one
+ * The stream closes after a final status (completed, expired, ...)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params;
+
+    const auth = await authenticateRequest(request, 'read', { orderId });
+    if (!auth.ok) {
+      return authErrorResponse(auth);
+    }
+
+    const paymentService = getPaymentService();
+    const order = await paymentService.getOrder(orderId);
+
+    if (!order || !canAccessOrder(auth.auth, order)) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream({
+      start(controller) {
+        let closed = false;
+        let lastSent = '';
+
+        const send = (event: string, data: unknown) => {
+          if (closed) return;
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        };
+
+        const close = () => {
+          if (closed) return;
+          closed = true;
+          cleanup();
+          try {
+            controller.close();
+          } catch {
+            // Client already went away
+          }
+        };
+
+        // Both the in-process bus and the change stream may report an update
+        const sendStatus = (update: OrderUpdateEvent) => {
+          const key = JSON.stringify({ ...update, updatedAt: undefined });
+          if (key === lastSent) return;
+          lastSent = key;
+
+          send('status', update);
+          if (isFinalStatus(update.status)) {
+            close();
+          }
+        };
+
+        const unsubscribe = subscribeToOrder(orderId, sendStatus);
+
+        const heartbeat = setInterval(() => {
+          if (!closed) controller.enqueue(encoder.encode(': keep-alive\n\n'));
+        }, HEARTBEAT_MS);
+
+        // Keep the order moving when webhooks are delayed or not configured;
+        // shared by every stream on this order, results arrive via the bus
+        const releasePoller = sharePoller(orderId, POLL_INTERVAL_MS, () => paymentService.pollShiftStatus(orderId));
+
+        const lifetime = setTimeout(() => {
+          send('reconnect', { reason: 'max_lifetime' });
+          close();
+        }, MAX_STREAM_MS);
+
+        cleanup = () => {
+          unsubscribe();
+          clearInterval(heartbeat);
+          releasePoller();
+          clearTimeout(lifetime);
+        };
+
+        request.signal.addEventListener('abort', close);
+
+        // Current state first, so the client never misses an update
+        sendStatus(toOrderUpdateEvent(order));
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+
+  } catch (error: any) {
+    console.error('[API] Payment events error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getPaymentService } from '@/services/payment.service';
+import { authenticateRequest, authErrorResponse, canAccessOrder } from '@/lib/api-auth';
 
 /**
  * POST /api/payments/[orderId]/poll
  * Manually poll SideShift for status update
  * Use this as fallback if webhooks aren't working
+ * Auth: secret key or order token (scope: read)
  */
 export async function POST(
   request: NextRequest,
@@ -13,7 +15,20 @@ export async function POST(
   try {
     const { orderId } = await params;
 
+    const auth = await authenticateRequest(request, 'read', { orderId });
+    if (!auth.ok) {
+      return authErrorResponse(auth);
+    }
+
     const paymentService = getPaymentService();
+    const existing = await paymentService.getOrder(orderId);
+    if (!existing || !canAccessOrder(auth.auth, existing)) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
     const order = await paymentService.pollShiftStatus(orderId);
 
     return NextResponse.json({
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getPaymentService } from '@/services/payment.service';
+import { getRefundService, serializeRefund } from '@/services/refund.service';
+import { authenticateRequest, authErrorResponse, canAccessOrder } from '@/lib/api-auth';
+
+const CreateRefundSchema = z.object({
+  reason: z.enum(['expired', 'failed', 'customer_request', 'overpaid', 'underpaid', 'duplicate']),
+  refundAmount: z.string().regex(/^\d+(\.\d+)?$/).optional(),
+  refundAddress: z.string().optional(),
+  refundMemo: z.string().max(100).optional(), // Memo/tag for refundAddress
+  refundCoin: z.string().optional(),
+  refundNetwork: z.string().optional(),
+  notes: z.string().max(1000).optional(),
+});
+
+/**
+ * POST /api/payments/[orderId]/refund
+ * Open a refund for one of the merchant's orders
+ * Auth: secret key (scope: refund). The refund shift is created by an
+ * admin (or the admin refunds API) once the merchant is ready to fund it.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params;
+
+    const auth = await authenticateRequest(request, 'refund', { orderId });
+    if (!auth.ok) {
+      return authErrorResponse(auth);
+    }
+
+    const order = await getPaymentService().getOrder(orderId);
+    if (!order || !canAccessOrder(auth.auth, order)) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = CreateRefundSchema.parse(body);
+
+    const refundService = getRefundService();
+    const refund = await refundService.createRefund({
+      ...validatedData,
+      orderId,
+      processedBy: auth.auth.type === 'api_key' ? `api_key:${auth.auth.keyId}` : 'admin',
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: serializeRefund(refund),
+    }, { status: 201 });
+
+  } catch (error: any) {
+    console.error('[API] Create order refund error:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error.name === 'RefundError') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+
+    if (error.message.includes('not found')) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
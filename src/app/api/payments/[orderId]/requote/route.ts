@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPaymentService } from '@/services/payment.service';
+import { authenticateRequest, authErrorResponse, canAccessOrder } from '@/lib/api-auth';
+import { SwapProviderError } from '@/lib/swap-provider';
+
+/**
+ * POST /api/payments/[orderId]/requote
+ * Get a fresh quote + deposit address for an expired payment
+ * The previous shift is kept in the order's shiftHistory
+ * Auth: secret key or order token (scope: create)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params;
+
+    const auth = await authenticateRequest(request, 'create', { orderId });
+    if (!auth.ok) {
+      return authErrorResponse(auth);
+    }
+
+    const paymentService = getPaymentService();
+    const existing = await paymentService.getOrder(orderId);
+    if (!existing || !canAccessOrder(auth.auth, existing)) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await paymentService.requotePayment(orderId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        orderId: result.order.orderId,
+        orderNumber: result.order.orderNumber,
+        depositAddress: result.depositAddress,
+        depositMemo: result.depositMemo,
+        depositAmount: result.depositAmount,
+        depositCoin: result.order.depositCoin,
+        depositNetwork: result.order.depositNetwork,
+        qrCodeData: result.qrCodeData,
+        expiresAt: result.expiresAt,
+        expiresInMinutes: result.expiresInMinutes,
+        status: result.order.status,
+      },
+    });
+
+  } catch (error: any) {
+    console.error('[API] Requote payment error:', error);
+
+    if (error.name === 'RequoteError') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+
+    if (error.name === 'PaymentLimitError') {
+      return NextResponse.json(
+        { success: false, error: error.message, details: { code: error.code, ...error.limits } },
+        { status: 400 }
+      );
+    }
+
+    if (error.message.includes('not found')) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    // Swap provider down or throttling us: fail fast, tell the client to retry
+    if (error instanceof SwapProviderError && error.retryable) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Payment provider is temporarily unavailable, please try again shortly',
+          details: error.category,
+        },
+        {
+          status: 503,
+          headers: { 'Retry-After': String(Math.ceil((error.retryAfterMs || 30000) / 1000)) },
+        }
+      );
+    }
+
+    if (error instanceof SwapProviderError) {
+      return NextResponse.json(
+        { success: false, error: 'Payment provider error', details: error.message },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
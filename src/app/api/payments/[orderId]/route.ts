@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getPaymentService } from '@/services/payment.service';
+import { getMerchantService } from '@/services/merchant.service';
+import { authenticateRequest, authErrorResponse, canAccessOrder } from '@/lib/api-auth';
 
 /**
  * GET /api/payments/[orderId]
  * Get payment order status
+ * Auth: secret key or order token (scope: read)
  */
 export async function GET(
   request: NextRequest,
@@ -12,28 +15,52 @@ export async function GET(
   try {
     const { orderId } = await params;
 
+    const auth = await authenticateRequest(request, 'read', { orderId });
+    if (!auth.ok) {
+      return authErrorResponse(auth);
+    }
+
     const paymentService = getPaymentService();
     const order = await paymentService.getOrder(orderId);
 
-    if (!order) {
+    // Other merchants' orders look exactly like missing ones
+    if (!order || !canAccessOrder(auth.auth, order)) {
       return NextResponse.json(
         { success: false, error: 'Order not found' },
         { status: 404 }
       );
     }
 
+    // Checkout branding (settlement details stay private)
+    const merchant = await getMerchantService().getMerchant(order.merchantId);
+
     // Don't expose sensitive data
     return NextResponse.json({
       success: true,
       data: {
         orderId: order.orderId,
         orderNumber: order.orderNumber,
+        merchant: merchant ? {
+          name: merchant.branding?.displayName || merchant.name,
+          logoUrl: merchant.branding?.logoUrl,
+          primaryColor: merchant.branding?.primaryColor,
+          supportEmail: merchant.branding?.supportEmail,
+        } : undefined,
         status: order.status,
+        paymentMode: order.paymentMode,
         depositAddress: order.depositAddress,
+        depositMemo: order.depositMemo,
         depositAmount: order.depositAmount,
+        depositMin: order.depositMin,
+        depositMax: order.depositMax,
+        receivedAmount: order.receivedAmount,
+        shortfallAmount: order.shortfallAmount,
+        excessAmount: order.excessAmount,
         depositCoin: order.depositCoin,
         depositNetwork: order.depositNetwork,
         depositTxHash: order.depositTxHash,
+        settleCoin: order.settleCoin,
+        settleAmount: order.settleAmount,
         totalUSD: order.totalUSD,
         items: order.items,
         expiresAt: order.quoteExpiresAt,
@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const mocks = vi.hoisted(() => ({
+  begin: vi.fn(),
+  keepAlive: vi.fn(),
+  complete: vi.fn(),
+  release: vi.fn(),
+  createPayment: vi.fn(),
+}));
+
+vi.mock('@/services/api-key.service', () => ({ getApiKeyService: vi.fn() }));
+vi.mock('@/services/idempotency.service', () => ({
+  getIdempotencyService: () => ({
+    begin: mocks.begin,
+    keepAlive: mocks.keepAlive,
+    complete: mocks.complete,
+    release: mocks.release,
+  }),
+}));
+vi.mock('@/services/payment.service', () => ({
+  getPaymentService: () => ({ createPayment: mocks.createPayment }),
+}));
+
+import { POST } from '@/app/api/payments/create/route';
+import { verifyCheckoutToken, ORDER_TOKEN_TTL_SECONDS } from '@/lib/api-auth';
+
+const BODY = {
+  mode: 'fixed',
+  items: [{ productId: 'p1', quantity: 1 }],
+  customerEmail: 'buyer@example.com',
+  depositCoin: 'btc',
+  depositNetwork: 'bitcoin',
+};
+
+function createRequest(idempotencyKey?: string) {
+  return new NextRequest('http://localhost/api/payments/create', {
+    method: 'POST',
+    headers: {
+      authorization: 'Bearer admin-key',
+      'content-type': 'application/json',
+      ...(idempotencyKey ? { 'idempotency-key': idempotencyKey } : {}),
+    },
+    body: JSON.stringify(BODY),
+  });
+}
+
+const LEASE = { scope: 'default:payments.create', key: 'key-1', owner: 'owner-1' };
+
+const createdOrder = {
+  order: {
+    orderId: 'ord_1',
+    orderNumber: 'ORD-1',
+    merchantId: 'default',
+    paymentMode: 'fixed',
+    depositCoin: 'btc',
+    depositNetwork: 'bitcoin',
+    items: [],
+    totalUSD: 100,
+    status: 'pending',
+  },
+  depositAddress: 'bc1qdeposit',
+  depositAmount: '0.001',
+  qrCodeData: 'bitcoin:bc1qdeposit?amount=0.001',
+  expiresAt: new Date(),
+  expiresInMinutes: 15,
+};
+
+describe('POST /api/payments/create idempotency', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.stubEnv('ADMIN_API_KEY', 'admin-key');
+    vi.stubEnv('CHECKOUT_TOKEN_SECRET', 'checkout-secret');
+    mocks.keepAlive.mockReturnValue(vi.fn());
+    mocks.release.mockResolvedValue(undefined);
+    mocks.createPayment.mockResolvedValue(createdOrder);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('stores the response without the order token and renews the lease until done', async () => {
+    const stopKeepAlive = vi.fn();
+    mocks.keepAlive.mockReturnValue(stopKeepAlive);
+    mocks.begin.mockResolvedValue({ state: 'new', lease: LEASE });
+
+    const response = await POST(createRequest('key-1'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(verifyCheckoutToken(body.data.token)).toMatchObject({ orderId: 'ord_1', scopes: ['read', 'create'] });
+
+    expect(mocks.keepAlive).toHaveBeenCalledWith(LEASE);
+    const [lease, status, stored] = mocks.complete.mock.calls[0];
+    expect(lease).toBe(LEASE);
+    expect(status).toBe(200);
+    expect(stored.data.orderId).toBe('ord_1');
+    expect(stored.data.token).toBeUndefined();
+    expect(stopKeepAlive).toHaveBeenCalled();
+  });
+
+  it('issues a fresh order token on a replay after the first one expired', async () => {
+    vi.useFakeTimers();
+    mocks.begin.mockResolvedValue({ state: 'new', lease: LEASE });
+    const first = await (await POST(createRequest('key-1'))).json();
+    const stored = mocks.complete.mock.calls[0][2];
+
+    vi.advanceTimersByTime((ORDER_TOKEN_TTL_SECONDS + 60) * 1000);
+    expect(verifyCheckoutToken(first.data.token)).toBeNull();
+
+    mocks.begin.mockResolvedValue({ state: 'replay', responseStatus: 200, responseBody: stored });
+    const response = await POST(createRequest('key-1'));
+    const replay = await response.json();
+
+    expect(response.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(mocks.createPayment).toHaveBeenCalledTimes(1);
+    expect(replay.data.orderId).toBe('ord_1');
+    expect(verifyCheckoutToken(replay.data.token)).toMatchObject({ orderId: 'ord_1', merchantId: 'default' });
+  });
+
+  it('releases the key and stops renewing when creation fails', async () => {
+    const stopKeepAlive = vi.fn();
+    mocks.keepAlive.mockReturnValue(stopKeepAlive);
+    mocks.begin.mockResolvedValue({ state: 'new', lease: LEASE });
+    mocks.createPayment.mockRejectedValue(new Error('boom'));
+
+    const response = await POST(createRequest('key-1'));
+
+    expect(response.status).toBe(500);
+    expect(mocks.release).toHaveBeenCalledWith(LEASE);
+    expect(stopKeepAlive).toHaveBeenCalled();
+    expect(mocks.complete).not.toHaveBeenCalled();
+  });
+
+  it('refuses before creating a shift when order tokens cannot be issued', async () => {
+    vi.stubEnv('CHECKOUT_TOKEN_SECRET', '');
+    mocks.begin.mockResolvedValue({ state: 'new', lease: LEASE });
+
+    const response = await POST(createRequest('key-1'));
+
+    expect(response.status).toBe(500);
+    expect(mocks.begin).not.toHaveBeenCalled();
+    expect(mocks.createPayment).not.toHaveBeenCalled();
+    expect(mocks.complete).not.toHaveBeenCalled();
+  });
+});
@@ -1,32 +1,99 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getPaymentService } from '@/services/payment.service';
+import { getIdempotencyService, IdempotencyLease } from '@/services/idempotency.service';
+import {
+  authenticateRequest,
+  authErrorResponse,
+  checkoutTokensConfigured,
+  createCheckoutToken,
+  ORDER_TOKEN_TTL_SECONDS,
+} from '@/lib/api-auth';
+import { SwapProviderError } from '@/lib/swap-provider';
 
 const CreatePaymentSchema = z.object({
+  merchantId: z.string().optional(), // Admin only; keys/tokens use their own merchant
+  // Product IDs + quantities only: names, prices and the total come from the catalog
   items: z.array(z.object({
     productId: z.string(),
-    name: z.string(),
-    quantity: z.number().positive(),
-    priceUSD: z.number().positive(),
-  })),
-  totalUSD: z.number().positive(),
+    quantity: z.number().int().positive().max(100),
+  })).default([]),
+  // 'open' = variable-rate shift, customer sends any amount (donations, tips)
+  mode: z.enum(['fixed', 'open']).default('fixed'),
   customerEmail: z.string().email(),
   customerWallet: z.string().optional(),
+  customerWalletMemo: z.string().max(100).optional(), // Memo/tag for customerWallet
   depositCoin: z.string(),
   depositNetwork: z.string(),
-});
+}).refine(
+  data => data.mode === 'open' || data.items.length > 0,
+  { message: 'Fixed-amount payments require items', path: ['items'] }
+);
 
 /**
  * POST /api/payments/create
- * Create a new payment order with SideShift
+ * Create a new payment order through the configured swap provider
+ * Auth: secret key or checkout session token (scope: create)
+ * Returns an order token for the hosted payment page
+ * 
+ * Send an Idempotency-Key header to make retries safe: a replay with the
+ * same body returns the original response instead of a second shift.
+ * The order token isn't stored with it: each replay gets a fresh one, since
+ * the key outlives the token (24h vs ORDER_TOKEN_TTL_SECONDS).
+ * Without CHECKOUT_TOKEN_SECRET no token can be issued, so the request is
+ * refused before a shift is created.
  */
 export async function POST(request: NextRequest) {
+  const idempotencyService = getIdempotencyService();
+  let idempotency: IdempotencyLease | null = null;
+  let stopKeepAlive: (() => void) | null = null;
+
   try {
+    const auth = await authenticateRequest(request, 'create');
+    if (!auth.ok) {
+      return authErrorResponse(auth);
+    }
+
     const body = await request.json();
     
     // Validate input
     const validatedData = CreatePaymentSchema.parse(body);
 
+    // Orders always belong to the caller's merchant
+    if (auth.auth.type !== 'admin') {
+      if (validatedData.merchantId && validatedData.merchantId !== auth.auth.merchantId) {
+        return authErrorResponse({ status: 403, error: 'Credential is not valid for this merchant' });
+      }
+      validatedData.merchantId = auth.auth.merchantId;
+    }
+
+    // Check before creating a shift: failing after it would release the
+    // idempotency key and a retry would create a second shift
+    if (!checkoutTokensConfigured()) {
+      console.error('[API] Create payment: CHECKOUT_TOKEN_SECRET not configured');
+      return NextResponse.json(
+        { success: false, error: 'Checkout tokens are not configured' },
+        { status: 500 }
+      );
+    }
+
+    // Replays return the stored response (no second quote/shift)
+    const idempotencyKey = request.headers.get('idempotency-key');
+    if (idempotencyKey !== null) {
+      const scope = `${validatedData.merchantId || 'default'}:payments.create`;
+      const claim = await idempotencyService.begin(scope, idempotencyKey, validatedData);
+
+      if (claim.state === 'replay') {
+        return NextResponse.json(withOrderToken(claim.responseBody), {
+          status: claim.responseStatus,
+          headers: { 'Idempotent-Replayed': 'true' },
+        });
+      }
+
+      idempotency = claim.lease;
+      stopKeepAlive = idempotencyService.keepAlive(claim.lease);
+    }
+
     // Get IP and user agent for fraud detection
     const ipAddress = request.headers.get('x-forwarded-for') || 
                      request.headers.get('x-real-ip') || 
@@ -41,25 +108,55 @@ export async function POST(request: NextRequest) {
       userAgent,
     });
 
-    return NextResponse.json({
+    const responseBody = {
       success: true,
       data: {
         orderId: result.order.orderId,
         orderNumber: result.order.orderNumber,
+        merchantId: result.order.merchantId,
         depositAddress: result.depositAddress,
+        depositMemo: result.depositMemo,
         depositAmount: result.depositAmount,
+        depositMin: result.depositMin,
+        depositMax: result.depositMax,
+        paymentMode: result.order.paymentMode,
         depositCoin: result.order.depositCoin,
         depositNetwork: result.order.depositNetwork,
         qrCodeData: result.qrCodeData,
         expiresAt: result.expiresAt,
         expiresInMinutes: result.expiresInMinutes,
+        items: result.order.items,
+        totalUSD: result.order.totalUSD,
         status: result.order.status,
       },
-    });
+    };
+
+    // Minted before the result is committed, so nothing can fail after it
+    const response = withOrderToken(responseBody);
+
+    if (idempotency) {
+      // Stored as JSON so replays match what the client got (bar the token)
+      await idempotencyService.complete(idempotency, 200, JSON.parse(JSON.stringify(responseBody)));
+    }
+
+    return NextResponse.json(response);
 
   } catch (error: any) {
     console.error('[API] Create payment error:', error);
 
+    // Failed requests don't consume the key, so the client can retry
+    if (idempotency) {
+      await idempotencyService.release(idempotency)
+        .catch(err => console.error('[API] Idempotency release error:', err));
+    }
+
+    if (error.name === 'IdempotencyError') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
     if (error.name === 'ZodError') {
       return NextResponse.json(
         { success: false, error: 'Invalid request data', details: error.errors },
@@ -67,7 +164,43 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (error.name === 'SideShiftAPIError') {
+    if (error.name === 'CatalogError' || error.name === 'CoinCatalogError') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error.name === 'PaymentLimitError') {
+      return NextResponse.json(
+        { success: false, error: error.message, details: { code: error.code, ...error.limits } },
+        { status: 400 }
+      );
+    }
+
+    if (error.name === 'MerchantError') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    // Swap provider down or throttling us: fail fast, tell the client to retry
+    if (error instanceof SwapProviderError && error.retryable) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Payment provider is temporarily unavailable, please try again shortly',
+          details: error.category,
+        },
+        {
+          status: 503,
+          headers: { 'Retry-After': String(Math.ceil((error.retryAfterMs || 30000) / 1000)) },
+        }
+      );
+    }
+
+    if (error instanceof SwapProviderError) {
       return NextResponse.json(
         { success: false, error: 'Payment provider error', details: error.message },
         { status: 502 }
@@ -78,5 +211,30 @@ export async function POST(request: NextRequest) {
       { success: false, error: 'Internal server error' },
       { status: 500 }
     );
+  } finally {
+    stopKeepAlive?.();
   }
 }
+
+/**
+ * Add an order-bound token (read/poll/re-quote this order from the browser)
+ * to a successful create response
+ */
+function withOrderToken(responseBody: any) {
+  if (!responseBody?.success || !responseBody.data?.orderId) {
+    return responseBody;
+  }
+
+  return {
+    ...responseBody,
+    data: {
+      ...responseBody.data,
+      token: createCheckoutToken({
+        merchantId: responseBody.data.merchantId,
+        orderId: responseBody.data.orderId,
+        scopes: ['read', 'create'],
+        ttlSeconds: ORDER_TOKEN_TTL_SECONDS,
+      }).token,
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/api-auth';
+import { getCatalogService, serializeProduct } from '@/services/catalog.service';
+import { DEFAULT_MERCHANT_ID } from '@/services/merchant.service';
+
+/**
+ * GET /api/products
+ * Active products of the caller's merchant (for building a cart)
+ * Auth: secret key or checkout session token (scope: create)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, 'create');
+    if (!auth.ok) {
+      return authErrorResponse(auth);
+    }
+
+    const merchantId = auth.auth.type === 'admin'
+      ? request.nextUrl.searchParams.get('merchantId') || DEFAULT_MERCHANT_ID
+      : auth.auth.merchantId;
+
+    const catalogService = getCatalogService();
+    const products = await catalogService.listProducts(merchantId);
+
+    return NextResponse.json({
+      success: true,
+      data: products.map(serializeProduct),
+    });
+
+  } catch (error: any) {
+    console.error('[API] List products error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
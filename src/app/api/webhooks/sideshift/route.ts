@@ -2,8 +2,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import { nanoid } from 'nanoid';
 import { connectDB } from '@/lib/mongodb';
 import { WebhookEvent } from '@/models/WebhookEvent';
-import { getPaymentService, PaymentStatus } from '@/services/payment.service';
-import { PaymentOrder } from '@/models/PaymentOrder';
+import { getWebhookService } from '@/services/webhook.service';
+import { getRequestIP, sanitizeWebhookHeaders, verifyWebhookRequest } from '@/lib/webhook-security';
+import { TokenBucket } from '@/lib/resilience';
+
+// Rejected attempts are unauthenticated: cap how many get stored (per
+// process) and let them expire early, so nobody can fill the collection
+const REJECTED_LOG_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const rejectedLogBucket = new TokenBucket(20, 1 / 3); // Burst of 20, then 20/minute
 
 /**
  * POST /api/webhooks/sideshift
@@ -12,7 +18,15 @@ import { PaymentOrder } from '@/models/PaymentOrder';
  * Receives real-time updates about shift status
  * 
  * CRITICAL: Set this URL in SideShift dashboard
- * URL: https://yourdomain.com/api/webhooks/sideshift
+ * URL: https://yourdomain.com/api/webhooks/sideshift?secret=WEBHOOK_SECRET
+ * (every request also needs x-webhook-timestamp inside the tolerance window)
+ * 
+ * Every request is authenticated (see lib/webhook-security.ts) and the
+ * reported status is re-checked against getShiftStatus before it is applied.
+ * Rejected attempts are logged to WebhookEvent with the reason (rate-capped,
+ * kept 7 days).
+ * Events that fail to process are retried by /api/cron/webhooks and end up
+ * in the dead-letter queue (see /api/admin/webhooks) after too many attempts.
  * 
  * Webhook events:
  * - shift.created: Shift created
@@ -27,98 +41,76 @@ export async function POST(request: NextRequest) {
   try {
     await connectDB();
 
-    // Get webhook payload
-    const body = await request.json();
-    const headers = Object.fromEntries(request.headers);
-    const sourceIP = request.headers.get('x-forwarded-for') || 
-                    request.headers.get('x-real-ip') || 
-                    'unknown';
+    // Read raw body first: the signature is computed over the exact bytes
+    const rawBody = await request.text();
+    const headers = sanitizeWebhookHeaders(request.headers); // Stored: no secrets
+    const sourceIP = getRequestIP(request.headers);
+
+    let body: any;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      body = null;
+    }
+
+    // Verify authenticity before trusting anything in the payload
+    const verification = verifyWebhookRequest(request.headers, rawBody, request.url);
+
+    if (!verification.ok) {
+      console.warn(`[Webhook] Rejected from ${sourceIP}: ${verification.reason}`);
+      await logRejectedWebhook(body, rawBody, headers, sourceIP, verification.reason);
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
 
     // Extract shift info
-    const { id: shiftId, status, depositHash, settleHash } = body;
+    const shiftId = body?.id;
+    const status = body?.status;
 
     if (!shiftId) {
       console.error('[Webhook] No shiftId in payload');
+      await logRejectedWebhook(body, rawBody, headers, sourceIP, 'Invalid payload: missing shift id');
       return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
     }
 
     console.log(`[Webhook] Received: shiftId=${shiftId}, status=${status}`);
 
-    // Log webhook event
+    // Log webhook event (the unique nonce index rejects replays)
     const eventId = nanoid();
-    await WebhookEvent.create({
-      eventId,
-      eventType: `shift.${status}`,
-      shiftId,
-      payload: body,
-      headers,
-      processed: false,
-      receivedAt: new Date(),
-      sourceIP,
-    });
+    try {
+      await WebhookEvent.create({
+        eventId,
+        eventType: `shift.${status}`,
+        shiftId,
+        payload: body,
+        headers,
+        verified: true,
+        verificationMethod: verification.method,
+        nonce: verification.nonce,
+        processed: false,
+        receivedAt: new Date(),
+        sourceIP,
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        console.warn(`[Webhook] Replay rejected: shiftId=${shiftId}`);
+        await logRejectedWebhook(body, rawBody, headers, sourceIP, 'Replayed nonce');
+        return NextResponse.json({ error: 'Duplicate webhook' }, { status: 409 });
+      }
+      throw error;
+    }
 
-    // Find the order
-    const order = await PaymentOrder.findOne({ shiftId });
-
-    if (!order) {
-      console.error(`[Webhook] Order not found for shiftId: ${shiftId}`);
-      
-      // Mark webhook as processed even if order not found
-      // (might be a test webhook or old order)
-      await WebhookEvent.findOneAndUpdate(
-        { eventId },
-        { 
-          processed: true, 
-          processedAt: new Date(),
-          processingError: 'Order not found'
-        }
-      );
-      
+    // Apply to the order (failures are recorded on the event and retried)
+    const webhookService = getWebhookService();
+    const result = await webhookService.processEvent(eventId);
+
+    if (result.outcome === 'failed' || result.outcome === 'order_not_found') {
+      // Return 200: our retry worker owns redelivery from here
       return NextResponse.json({ 
         success: false, 
-        error: 'Order not found' 
-      }, { status: 404 });
-    }
-
-    // Map SideShift status to our status
-    const statusMap: Record<string, PaymentStatus> = {
-      'waiting': 'pending',
-      'pending': 'detecting',
-      'processing': 'processing',
-      'settling': 'settling',
-      'settled': 'completed',
-      'refund': 'failed',
-      'refunded': 'refunded',
-      'expired': 'expired',
-    };
-
-    const newStatus = statusMap[status];
-
-    if (!newStatus) {
-      console.warn(`[Webhook] Unknown status: ${status}`);
-      return NextResponse.json({ success: true });
+        error: 'Processing error, retry scheduled' 
+      }, { status: 200 });
     }
 
-    // Update order status
-    const paymentService = getPaymentService();
-    await paymentService.updateOrderStatus(order.orderId, newStatus, {
-      depositTxHash: depositHash,
-      settleTxHash: settleHash,
-      note: `Webhook: ${status}`,
-    });
-
-    // Mark webhook as processed
-    await WebhookEvent.findOneAndUpdate(
-      { eventId },
-      { 
-        processed: true, 
-        processedAt: new Date(),
-        orderId: order.orderId,
-      }
-    );
-
-    console.log(`[Webhook] Processed: ${order.orderId} -> ${newStatus}`);
-
     return NextResponse.json({ success: true });
 
   } catch (error: any) {
@@ -133,6 +125,43 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Record a rejected webhook attempt for the audit trail
+ * Over the rate cap, attempts are only written to the server log
+ */
+async function logRejectedWebhook(
+  body: any,
+  rawBody: string,
+  headers: Record<string, string>,
+  sourceIP: string,
+  reason: string
+): Promise<void> {
+  if (!(await rejectedLogBucket.take(0))) {
+    console.warn(`[Webhook] Rejected-attempt log rate exceeded, not stored (${sourceIP}: ${reason})`);
+    return;
+  }
+
+  try {
+    await WebhookEvent.create({
+      eventId: nanoid(),
+      eventType: body?.status ? `shift.${body.status}` : 'unknown',
+      shiftId: typeof body?.id === 'string' ? body.id : undefined,
+      payload: body ?? { raw: rawBody.slice(0, 4096) },
+      headers,
+      verified: false,
+      rejected: true,
+      rejectionReason: reason,
+      processed: true,
+      processedAt: new Date(),
+      receivedAt: new Date(),
+      sourceIP,
+      expiresAt: new Date(Date.now() + REJECTED_LOG_TTL_MS),
+    });
+  } catch (error) {
+    console.error('[Webhook] Failed to log rejected webhook:', error);
+  }
+}
+
 /**
  * GET /api/webhooks/sideshift
  * Health check endpoint
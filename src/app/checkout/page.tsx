@@ -1,44 +1,119 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { toast } from 'sonner';
-import { Loader2, ChevronDown } from 'lucide-react';
-
-// Demo product (replace with your actual cart/products)
-const DEMO_PRODUCT = {
-  items: [
-    {
-      productId: 'prod_123',
-      name: 'Premium Digital Product',
-      quantity: 1,
-      priceUSD: 49.99,
-    },
-  ],
-  totalUSD: 49.99,
-};
-
-// Popular crypto options
-// NOTE: Network names must match SideShift API exactly
-// Common networks: 'ethereum', 'arbitrum', 'optimism', 'polygon', 'base', 'bitcoin', 'bsc'
-const CRYPTO_OPTIONS = [
-  { coin: 'btc', name: 'Bitcoin', networks: ['bitcoin'] },
-  { coin: 'eth', name: 'Ethereum', networks: ['ethereum', 'arbitrum', 'optimism', 'base'] },
-  { coin: 'usdc', name: 'USD Coin', networks: ['ethereum', 'arbitrum', 'optimism', 'polygon', 'base'] },
-  { coin: 'usdt', name: 'Tether', networks: ['ethereum', 'arbitrum', 'optimism', 'polygon'] },
-  { coin: 'sol', name: 'Solana', networks: ['solana'] },
-  { coin: 'bnb', name: 'BNB', networks: ['bsc'] },
-];
+import { Loader2, ChevronDown, Minus, Plus } from 'lucide-react';
+import { getNetworkName } from '@/lib/utils';
+
+interface Product {
+  productId: string;
+  name: string;
+  description?: string;
+  priceUSD: number;
+}
+
+// From /api/crypto/supported (SideShift's coin list, filtered for the merchant)
+interface CoinOption {
+  coin: string;
+  name: string;
+  networks: string[];
+  networksWithMemo: string[];
+  featured: boolean;
+}
 
 export default function CheckoutPage() {
   const router = useRouter();
   const [email, setEmail] = useState('');
-  const [selectedCoin, setSelectedCoin] = useState('eth');
-  const [selectedNetwork, setSelectedNetwork] = useState('ethereum');
+  const [coins, setCoins] = useState<CoinOption[]>([]);
+  const [selectedCoin, setSelectedCoin] = useState('');
+  const [selectedNetwork, setSelectedNetwork] = useState('');
   const [refundWallet, setRefundWallet] = useState('');
+  const [refundMemo, setRefundMemo] = useState('');
   const [isCreating, setIsCreating] = useState(false);
+  const [token, setToken] = useState<string | null>(null);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [loadingProducts, setLoadingProducts] = useState(true);
+
+  // One Idempotency-Key per distinct request: double clicks and retries of
+  // the same cart reuse it, changing the cart/details starts a new one
+  const idempotencyRef = useRef<{ key: string; body: string } | null>(null);
+
+  const selectedCoinData = coins.find(c => c.coin === selectedCoin);
+  const needsMemo = !!selectedCoinData?.networksWithMemo.includes(selectedNetwork);
+  const featuredCoins = coins.filter(c => c.featured);
+  const otherCoins = coins.filter(c => !c.featured);
+
+  const selectCoin = (coin: CoinOption) => {
+    setSelectedCoin(coin.coin);
+    setSelectedNetwork(coin.networks[0]);
+  };
+
+  // Prices shown here are for display only; the server re-prices the cart
+  const cartItems = products.filter(p => (quantities[p.productId] || 0) > 0);
+  const displayTotal = cartItems.reduce(
+    (sum, p) => sum + Math.round(p.priceUSD * 100) * quantities[p.productId],
+    0
+  ) / 100;
+
+  // Checkout token (merchant's session link, else a public demo session) + catalog
+  useEffect(() => {
+    const loadCatalog = async () => {
+      try {
+        let checkoutToken = new URLSearchParams(window.location.search).get('token');
+        if (!checkoutToken) {
+          const sessionResponse = await fetch('/api/checkout/session', { method: 'POST' });
+          const session = await sessionResponse.json();
+          if (!session.success) {
+            throw new Error('Checkout session missing or expired');
+          }
+          checkoutToken = session.data.token as string;
+        }
+        setToken(checkoutToken);
+
+        const response = await fetch('/api/products', {
+          headers: { Authorization: `Bearer ${checkoutToken}` },
+        });
+        const data = await response.json();
+        if (!data.success) {
+          throw new Error(data.error || 'Failed to load products');
+        }
 
-  const selectedCoinData = CRYPTO_OPTIONS.find(c => c.coin === selectedCoin);
+        setProducts(data.data);
+        if (data.data.length > 0) {
+          setQuantities({ [data.data[0].productId]: 1 });
+        }
+
+        const coinsResponse = await fetch('/api/crypto/supported', {
+          headers: { Authorization: `Bearer ${checkoutToken}` },
+        });
+        const coinsData = await coinsResponse.json();
+        if (!coinsData.success) {
+          throw new Error(coinsData.error || 'Failed to load payment options');
+        }
+
+        setCoins(coinsData.data);
+        if (coinsData.data.length > 0) {
+          selectCoin(coinsData.data[0]);
+        }
+      } catch (error: any) {
+        console.error('Catalog error:', error);
+        toast.error(error.message || 'Failed to load products');
+      } finally {
+        setLoadingProducts(false);
+      }
+    };
+
+    loadCatalog();
+  }, []);
+
+  const changeQuantity = (productId: string, delta: number) => {
+    setQuantities(prev => ({
+      ...prev,
+      [productId]: Math.min(100, Math.max(0, (prev[productId] || 0) + delta)),
+    }));
+  };
 
   const handleCreatePayment = async () => {
     // Validation
@@ -47,19 +122,40 @@ export default function CheckoutPage() {
       return;
     }
 
+    if (!token || cartItems.length === 0) {
+      toast.error('Your cart is empty');
+      return;
+    }
+
+    if (!selectedCoin || !selectedNetwork) {
+      toast.error('Please choose a coin to pay with');
+      return;
+    }
+
     setIsCreating(true);
 
     try {
+      const body = JSON.stringify({
+        items: cartItems.map(p => ({ productId: p.productId, quantity: quantities[p.productId] })),
+        customerEmail: email,
+        customerWallet: refundWallet || undefined,
+        customerWalletMemo: (needsMemo && refundWallet && refundMemo) || undefined,
+        depositCoin: selectedCoin,
+        depositNetwork: selectedNetwork,
+      });
+
+      if (idempotencyRef.current?.body !== body) {
+        idempotencyRef.current = { key: crypto.randomUUID(), body };
+      }
+
       const response = await fetch('/api/payments/create', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          ...DEMO_PRODUCT,
-          customerEmail: email,
-          customerWallet: refundWallet || undefined,
-          depositCoin: selectedCoin,
-          depositNetwork: selectedNetwork,
-        }),
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+          'Idempotency-Key': idempotencyRef.current.key,
+        },
+        body,
       });
 
       const data = await response.json();
@@ -69,7 +165,7 @@ export default function CheckoutPage() {
       }
 
       // Redirect to payment page
-      router.push(`/payment/${data.data.orderId}`);
+      router.push(`/payment/${data.data.orderId}?token=${encodeURIComponent(data.data.token)}`);
       toast.success('Payment created! Follow instructions to complete.');
 
     } catch (error: any) {
@@ -92,19 +188,48 @@ export default function CheckoutPage() {
         {/* Order Summary */}
         <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
           <h2 className="text-xl font-bold mb-4">Order Summary</h2>
-          {DEMO_PRODUCT.items.map((item) => (
-            <div key={item.productId} className="flex justify-between items-center mb-2">
+          {loadingProducts && (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+            </div>
+          )}
+          {!loadingProducts && products.length === 0 && (
+            <div className="text-sm text-slate-600">No products available.</div>
+          )}
+          {products.map((product) => (
+            <div key={product.productId} className="flex justify-between items-center mb-2">
               <div>
-                <div className="font-medium">{item.name}</div>
-                <div className="text-sm text-slate-600">Qty: {item.quantity}</div>
+                <div className="font-medium">{product.name}</div>
+                {product.description && (
+                  <div className="text-sm text-slate-600">{product.description}</div>
+                )}
+                <div className="flex items-center gap-2 mt-1">
+                  <button
+                    onClick={() => changeQuantity(product.productId, -1)}
+                    className="p-1 border rounded hover:bg-slate-100"
+                    aria-label={`Remove one ${product.name}`}
+                  >
+                    <Minus className="w-3 h-3" />
+                  </button>
+                  <span className="text-sm text-slate-600 w-6 text-center">
+                    {quantities[product.productId] || 0}
+                  </span>
+                  <button
+                    onClick={() => changeQuantity(product.productId, 1)}
+                    className="p-1 border rounded hover:bg-slate-100"
+                    aria-label={`Add one ${product.name}`}
+                  >
+                    <Plus className="w-3 h-3" />
+                  </button>
+                </div>
               </div>
-              <div className="font-bold">${item.priceUSD}</div>
+              <div className="font-bold">${product.priceUSD}</div>
             </div>
           ))}
           <div className="border-t pt-4 mt-4">
             <div className="flex justify-between items-center text-xl font-bold">
               <span>Total</span>
-              <span>${DEMO_PRODUCT.totalUSD} USD</span>
+              <span>${displayTotal.toFixed(2)} USD</span>
             </div>
           </div>
         </div>
@@ -137,13 +262,10 @@ export default function CheckoutPage() {
               Pay With *
             </label>
             <div className="grid grid-cols-2 gap-3">
-              {CRYPTO_OPTIONS.map((crypto) => (
+              {featuredCoins.map((crypto) => (
                 <button
                   key={crypto.coin}
-                  onClick={() => {
-                    setSelectedCoin(crypto.coin);
-                    setSelectedNetwork(crypto.networks[0]);
-                  }}
+                  onClick={() => selectCoin(crypto)}
                   className={`p-4 border-2 rounded-lg text-left transition-all ${
                     selectedCoin === crypto.coin
                       ? 'border-blue-600 bg-blue-50'
@@ -155,6 +277,26 @@ export default function CheckoutPage() {
                 </button>
               ))}
             </div>
+            {otherCoins.length > 0 && (
+              <div className="relative mt-3">
+                <select
+                  value={otherCoins.some(c => c.coin === selectedCoin) ? selectedCoin : ''}
+                  onChange={(e) => {
+                    const coin = otherCoins.find(c => c.coin === e.target.value);
+                    if (coin) selectCoin(coin);
+                  }}
+                  className="w-full px-4 py-3 border rounded-lg appearance-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="" disabled>More coins ({otherCoins.length})</option>
+                  {otherCoins.map((crypto) => (
+                    <option key={crypto.coin} value={crypto.coin}>
+                      {crypto.coin.toUpperCase()} - {crypto.name}
+                    </option>
+                  ))}
+                </select>
+                <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400 pointer-events-none" />
+              </div>
+            )}
           </div>
 
           {/* Network Selection */}
@@ -171,7 +313,7 @@ export default function CheckoutPage() {
                 >
                   {selectedCoinData.networks.map((network) => (
                     <option key={network} value={network}>
-                      {network.charAt(0).toUpperCase() + network.slice(1)}
+                      {getNetworkName(network)}
                     </option>
                   ))}
                 </select>
@@ -189,18 +331,33 @@ export default function CheckoutPage() {
               type="text"
               value={refundWallet}
               onChange={(e) => setRefundWallet(e.target.value)}
-              placeholder={`Your ${selectedCoin.toUpperCase()} wallet address`}
+              placeholder={`Your ${(selectedCoin || 'refund').toUpperCase()} wallet address`}
               className="w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
             />
             <p className="text-xs text-slate-500 mt-1">
               For automatic refunds if payment fails
             </p>
+            {needsMemo && refundWallet && (
+              <>
+                <input
+                  type="text"
+                  value={refundMemo}
+                  onChange={(e) => setRefundMemo(e.target.value)}
+                  placeholder="Memo / destination tag for the refund address"
+                  maxLength={100}
+                  className="w-full mt-3 px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+                />
+                <p className="text-xs text-slate-500 mt-1">
+                  Refunding to an exchange? Enter its memo/tag, or the refund may be lost
+                </p>
+              </>
+            )}
           </div>
 
           {/* Submit Button */}
           <button
             onClick={handleCreatePayment}
-            disabled={isCreating}
+            disabled={isCreating || cartItems.length === 0}
             className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white py-4 px-8 rounded-xl font-semibold hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
           >
             {isCreating ? (
@@ -1,20 +1,37 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { useParams } from 'next/navigation';
+import { useParams, useSearchParams } from 'next/navigation';
 import { QRCodeSVG } from 'qrcode.react';
-import { Copy, Check, Clock, Loader2, CheckCircle2, XCircle, AlertCircle } from 'lucide-react';
+import { Copy, Check, Clock, Loader2, CheckCircle2, XCircle, AlertCircle, RefreshCw } from 'lucide-react';
 import { toast } from 'sonner';
+import { isFinalStatus } from '@/lib/payment-status';
+import { getWalletDeepLink } from '@/lib/utils';
 
 interface PaymentData {
   orderId: string;
   orderNumber: string;
+  merchant?: {
+    name: string;
+    logoUrl?: string;
+    primaryColor?: string;
+    supportEmail?: string;
+  };
   status: string;
+  paymentMode: 'fixed' | 'open';
   depositAddress: string;
+  depositMemo?: string; // Memo/destination tag: must be sent with the deposit
   depositAmount: string;
+  depositMin?: string;
+  depositMax?: string;
+  receivedAmount?: string;
+  shortfallAmount?: string;
+  excessAmount?: string;
   depositCoin: string;
   depositNetwork: string;
   depositTxHash?: string;
+  settleCoin: string;
+  settleAmount?: string;
   totalUSD: number;
   items: Array<{
     name: string;
@@ -35,26 +52,32 @@ export default function PaymentPage() {
   const params = useParams();
   const orderId = params.orderId as string;
 
+  // Order token from checkout (never a secret key)
+  const token = useSearchParams().get('token');
+  const authHeaders: Record<string, string> = token ? { Authorization: `Bearer ${token}` } : {};
+
   const [payment, setPayment] = useState<PaymentData | null>(null);
   const [loading, setLoading] = useState(true);
   const [copied, setCopied] = useState(false);
   const [timeLeft, setTimeLeft] = useState<string>('');
+  const [requoting, setRequoting] = useState(false);
+  const [streamVersion, setStreamVersion] = useState(0); // Bumped to reconnect after a re-quote
 
-  // Fetch payment data
-  const fetchPayment = async () => {
+  // Fetch payment data (returns it so callers don't read stale state)
+  const fetchPayment = async (options: { poll?: boolean } = {}): Promise<PaymentData | null> => {
     try {
-      const response = await fetch(`/api/payments/${orderId}`);
+      const response = await fetch(`/api/payments/${orderId}`, { headers: authHeaders });
       const data = await response.json();
 
       if (data.success) {
         setPayment(data.data);
         
-        // Auto-poll for status updates if not completed
-        if (!['completed', 'expired', 'failed', 'refunded'].includes(data.data.status)) {
-          // Poll SideShift for updates
-          fetch(`/api/payments/${orderId}/poll`, { method: 'POST' })
+        // Polling fallback: ask the server to check SideShift
+        if (options.poll && !isFinalStatus(data.data.status)) {
+          fetch(`/api/payments/${orderId}/poll`, { method: 'POST', headers: authHeaders })
             .catch(err => console.error('Poll error:', err));
         }
+        return data.data;
       } else {
         toast.error('Payment not found');
       }
@@ -64,22 +87,69 @@ export default function PaymentPage() {
     } finally {
       setLoading(false);
     }
+    return null;
   };
 
+  // Live updates: SSE stream, polling every 10 seconds only if it drops
   useEffect(() => {
-    fetchPayment();
-    
-    // Poll every 10 seconds for updates
-    const interval = setInterval(() => {
-      if (!payment || ['completed', 'expired', 'failed', 'refunded'].includes(payment.status)) {
-        clearInterval(interval);
-        return;
+    let source: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let stopped = false;
+
+    const startPolling = () => {
+      if (pollTimer || stopped) return;
+      pollTimer = setInterval(async () => {
+        const latest = await fetchPayment({ poll: true });
+        if (latest && isFinalStatus(latest.status) && pollTimer) {
+          clearInterval(pollTimer);
+          pollTimer = null;
+        }
+      }, 10000);
+    };
+
+    const connect = () => {
+      if (stopped) return;
+
+      const query = token ? `?token=${encodeURIComponent(token)}` : '';
+      source = new EventSource(`/api/payments/${orderId}/events${query}`);
+
+      // Status events carry the changed fields; refetch for the full order
+      source.addEventListener('status', (event) => {
+        const update = JSON.parse((event as MessageEvent).data);
+        fetchPayment();
+        if (isFinalStatus(update.status)) {
+          stopped = true;
+          source?.close();
+        }
+      });
+
+      // Server closed the stream after its max lifetime
+      source.addEventListener('reconnect', () => {
+        source?.close();
+        connect();
+      });
+
+      source.onerror = () => {
+        source?.close();
+        if (!stopped) {
+          console.warn('Event stream dropped, falling back to polling');
+          startPolling();
+        }
+      };
+    };
+
+    fetchPayment().then(initial => {
+      if (initial && !isFinalStatus(initial.status)) {
+        connect();
       }
-      fetchPayment();
-    }, 10000);
+    });
 
-    return () => clearInterval(interval);
-  }, [orderId]);
+    return () => {
+      stopped = true;
+      source?.close();
+      if (pollTimer) clearInterval(pollTimer);
+    };
+  }, [orderId, streamVersion]);
 
   // Countdown timer
   useEffect(() => {
@@ -106,6 +176,28 @@ export default function PaymentPage() {
     return () => clearInterval(interval);
   }, [payment?.expiresAt]);
 
+  // Request a fresh quote for an expired payment
+  const handleRequote = async () => {
+    setRequoting(true);
+
+    try {
+      const response = await fetch(`/api/payments/${orderId}/requote`, { method: 'POST', headers: authHeaders });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to get a new quote');
+      }
+
+      toast.success('New quote ready! Send the updated amount.');
+      setStreamVersion(v => v + 1);
+    } catch (error: any) {
+      console.error('Requote error:', error);
+      toast.error(error.message || 'Failed to get a new quote');
+    } finally {
+      setRequoting(false);
+    }
+  };
+
   const copyToClipboard = (text: string, label: string) => {
     navigator.clipboard.writeText(text);
     setCopied(true);
@@ -149,7 +241,7 @@ export default function PaymentPage() {
         label: 'Payment Expired',
         color: 'text-red-600 bg-red-50',
         icon: XCircle,
-        description: 'This payment request has expired. Please create a new one.'
+        description: 'This quote has expired. Get a new quote to continue paying for this order.'
       },
       failed: {
         label: 'Payment Failed',
@@ -163,6 +255,18 @@ export default function PaymentPage() {
         icon: AlertCircle,
         description: 'Your payment has been refunded.'
       },
+      underpaid: {
+        label: 'Insufficient Payment',
+        color: 'text-orange-600 bg-orange-50',
+        icon: AlertCircle,
+        description: 'We received less than the required amount.'
+      },
+      overpaid: {
+        label: 'Overpayment Received',
+        color: 'text-blue-600 bg-blue-50',
+        icon: AlertCircle,
+        description: 'We received more than the required amount. Your order is still being processed.'
+      },
     };
 
     return statusMap[status] || statusMap.pending;
@@ -193,27 +297,95 @@ export default function PaymentPage() {
 
   const statusInfo = getStatusInfo(payment.status);
   const StatusIcon = statusInfo.icon;
+  const isOpen = payment.paymentMode === 'open';
+  const pendingDescription = isOpen
+    ? 'Send any amount within the limits below to the address below'
+    : statusInfo.description;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 py-12">
       <div className="container mx-auto px-4 max-w-4xl">
+        {/* Merchant Branding */}
+        {payment.merchant && (
+          <div className="flex items-center gap-3 mb-6">
+            {payment.merchant.logoUrl && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={payment.merchant.logoUrl} alt={payment.merchant.name} className="h-10 w-10 rounded-lg object-contain" />
+            )}
+            <div
+              className="text-xl font-bold"
+              style={payment.merchant.primaryColor ? { color: payment.merchant.primaryColor } : undefined}
+            >
+              {payment.merchant.name}
+            </div>
+          </div>
+        )}
+
         {/* Status Header */}
         <div className={`rounded-2xl p-6 mb-6 ${statusInfo.color}`}>
           <div className="flex items-center gap-4">
             <StatusIcon className={`w-12 h-12 ${statusInfo.icon === Loader2 ? 'animate-spin' : ''}`} />
             <div className="flex-1">
               <div className="text-2xl font-bold">{statusInfo.label}</div>
-              <div className="text-sm opacity-80 mt-1">{statusInfo.description}</div>
+              <div className="text-sm opacity-80 mt-1">
+                {payment.status === 'pending' ? pendingDescription : statusInfo.description}
+              </div>
             </div>
-            {payment.status === 'pending' && (
+            {payment.status === 'pending' && timeLeft !== 'Expired' && (
               <div className="text-right">
                 <div className="text-sm opacity-60">Expires in</div>
                 <div className="text-3xl font-bold font-mono">{timeLeft}</div>
               </div>
             )}
+            {!isOpen && (payment.status === 'expired' || (payment.status === 'pending' && timeLeft === 'Expired')) && (
+              <button
+                onClick={handleRequote}
+                disabled={requoting}
+                className="bg-white text-slate-900 py-3 px-5 rounded-xl font-semibold shadow hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                <RefreshCw className={`w-5 h-5 ${requoting ? 'animate-spin' : ''}`} />
+                {requoting ? 'Getting Quote...' : 'Get New Quote'}
+              </button>
+            )}
           </div>
         </div>
 
+        {/* Amount Mismatch: next steps */}
+        {payment.status === 'underpaid' && (
+          <div className="bg-white rounded-2xl shadow-lg p-6 mb-6 border-2 border-orange-200">
+            <div className="text-lg font-bold mb-2">What happens next?</div>
+            <div className="text-sm text-slate-700 space-y-2">
+              <p>
+                Received <strong>{payment.receivedAmount} {payment.depositCoin.toUpperCase()}</strong> of{' '}
+                <strong>{payment.depositAmount} {payment.depositCoin.toUpperCase()}</strong>{' '}
+                (short by <strong>{payment.shortfallAmount} {payment.depositCoin.toUpperCase()}</strong>).
+              </p>
+              <p>
+                Your order can&apos;t be completed with a partial payment. Please don&apos;t send the
+                difference to this address. Contact support with order #{payment.orderNumber} and your
+                refund wallet to get the received amount back.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {payment.excessAmount && ['overpaid', 'completed'].includes(payment.status) && (
+          <div className="bg-white rounded-2xl shadow-lg p-6 mb-6 border-2 border-blue-200">
+            <div className="text-lg font-bold mb-2">You sent more than required</div>
+            <div className="text-sm text-slate-700 space-y-2">
+              <p>
+                Received <strong>{payment.receivedAmount} {payment.depositCoin.toUpperCase()}</strong>,{' '}
+                <strong>{payment.excessAmount} {payment.depositCoin.toUpperCase()}</strong> more than the
+                quoted amount.
+              </p>
+              <p>
+                Your order will be fulfilled as normal. Contact support with order #{payment.orderNumber}{' '}
+                to have the excess refunded.
+              </p>
+            </div>
+          </div>
+        )}
+
         <div className="grid md:grid-cols-2 gap-6">
           {/* Left Column: Payment Instructions */}
           <div className="space-y-6">
@@ -224,7 +396,12 @@ export default function PaymentPage() {
                   <div className="text-lg font-bold mb-2">Scan to Pay</div>
                   <div className="bg-white p-4 inline-block rounded-xl border-4 border-slate-100">
                     <QRCodeSVG 
-                      value={`${payment.depositCoin}:${payment.depositAddress}?amount=${payment.depositAmount}`}
+                      value={getWalletDeepLink(
+                        payment.depositCoin,
+                        payment.depositAddress,
+                        isOpen ? undefined : payment.depositAmount,
+                        payment.depositMemo
+                      )}
                       size={200}
                       level="M"
                     />
@@ -238,7 +415,15 @@ export default function PaymentPage() {
               <div className="text-lg font-bold mb-4">Payment Details</div>
               
               <div className="space-y-4">
-                {/* Amount */}
+                {/* Amount (open payments: accepted range instead) */}
+                {isOpen ? (
+                  <div>
+                    <div className="text-sm text-slate-600 mb-1">Send Any Amount</div>
+                    <div className="bg-slate-50 p-3 rounded-lg font-mono font-bold text-lg">
+                      {payment.depositMin} – {payment.depositMax} {payment.depositCoin.toUpperCase()}
+                    </div>
+                  </div>
+                ) : (
                 <div>
                   <div className="text-sm text-slate-600 mb-1">Send Exactly</div>
                   <div className="flex items-center gap-2 bg-slate-50 p-3 rounded-lg">
@@ -253,6 +438,7 @@ export default function PaymentPage() {
                     </button>
                   </div>
                 </div>
+                )}
 
                 {/* Address */}
                 <div>
@@ -272,6 +458,29 @@ export default function PaymentPage() {
                   </div>
                 </div>
 
+                {/* Memo / destination tag (funds sent without it are lost) */}
+                {payment.depositMemo && (
+                  <div>
+                    <div className="text-sm font-semibold text-red-700 mb-1">
+                      Memo / Destination Tag (required)
+                    </div>
+                    <div className="flex items-center gap-2 bg-red-50 border-2 border-red-300 p-3 rounded-lg">
+                      <code className="flex-1 font-mono font-bold text-lg break-all">
+                        {payment.depositMemo}
+                      </code>
+                      <button
+                        onClick={() => copyToClipboard(payment.depositMemo!, 'Memo')}
+                        className="p-2 hover:bg-red-100 rounded flex-shrink-0"
+                      >
+                        {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                      </button>
+                    </div>
+                    <p className="text-xs text-red-700 mt-1">
+                      Enter this memo in your wallet or exchange. Deposits without it cannot be credited.
+                    </p>
+                  </div>
+                )}
+
                 {/* Transaction Hash */}
                 {payment.depositTxHash && (
                   <div>
@@ -286,8 +495,17 @@ export default function PaymentPage() {
               {/* Warning */}
               {payment.status === 'pending' && (
                 <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
-                  <strong>⚠️ Important:</strong> Send the exact amount to avoid delays. 
-                  Double-check the network before sending!
+                  {isOpen ? (
+                    <>
+                      <strong>⚠️ Important:</strong> Amounts outside the limits above are refunded. 
+                      Double-check the network before sending!
+                    </>
+                  ) : (
+                    <>
+                      <strong>⚠️ Important:</strong> Send the exact amount to avoid delays. 
+                      Double-check the network before sending!
+                    </>
+                  )}
                 </div>
               )}
             </div>
@@ -300,6 +518,9 @@ export default function PaymentPage() {
               <div className="text-lg font-bold mb-4">Order Summary</div>
               <div className="text-sm text-slate-600 mb-4">
                 Order #{payment.orderNumber}
+                {payment.merchant?.supportEmail && (
+                  <> · Support: <a href={`mailto:${payment.merchant.supportEmail}`} className="underline">{payment.merchant.supportEmail}</a></>
+                )}
               </div>
               
               {payment.items.map((item, i) => (
@@ -315,7 +536,13 @@ export default function PaymentPage() {
               <div className="border-t pt-3 mt-3">
                 <div className="flex justify-between items-center text-lg font-bold">
                   <span>Total</span>
-                  <span>${payment.totalUSD} USD</span>
+                  {!isOpen ? (
+                    <span>${payment.totalUSD} USD</span>
+                  ) : payment.settleAmount ? (
+                    <span>{payment.settleAmount} {payment.settleCoin.toUpperCase()}</span>
+                  ) : (
+                    <span>Pay what you want</span>
+                  )}
                 </div>
               </div>
             </div>
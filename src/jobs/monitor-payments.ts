@@ -1,12 +1,19 @@
 import { connectDB } from '@/lib/mongodb';
-import { PaymentOrder } from '@/models/PaymentOrder';
+import { PaymentOrder, IPaymentOrder } from '@/models/PaymentOrder';
 import { getPaymentService } from '@/services/payment.service';
+import { getRefundService } from '@/services/refund.service';
+import { getNotificationService } from '@/services/notification.service';
+import { IN_PROGRESS_STATUSES } from '@/lib/payment-status';
+import { SwapProviderError } from '@/lib/swap-provider';
 
 /**
  * BACKGROUND JOB: Monitor and handle expired/abandoned payments
  * 
  * Run this as a cron job or serverless function every 5 minutes
  * 
+ * Each order is handled on its own: an error (SideShift, DB) is logged and
+ * counted, and the run carries on with the next order and step.
+ * 
  * Vercel Cron: https://vercel.com/docs/cron-jobs
  * AWS EventBridge, Google Cloud Scheduler, etc.
  */
@@ -17,6 +24,7 @@ export async function monitorPayments() {
   console.log('[Monitor] Starting payment monitor...');
   
   const now = new Date();
+  let errors = 0;
 
   // 1. Handle expired quotes (no deposit received)
   const expiredPending = await PaymentOrder.find({
@@ -28,11 +36,14 @@ export async function monitorPayments() {
   console.log(`[Monitor] Found ${expiredPending.length} expired pending payments`);
 
   for (const order of expiredPending) {
-    const paymentService = getPaymentService();
-    await paymentService.updateOrderStatus(order.orderId, 'expired', {
-      note: 'Quote expired without deposit',
-    });
-    console.log(`[Monitor] Marked ${order.orderId} as expired`);
+    try {
+      if (await expireUnpaidOrder(order, 'Quote expired without deposit')) {
+        console.log(`[Monitor] Marked ${order.orderId} as expired`);
+      }
+    } catch (error) {
+      errors++;
+      console.error(`[Monitor] Failed to expire ${order.orderId}:`, error);
+    }
   }
 
   // 2. Send expiry reminders (2 minutes before expiry)
@@ -48,37 +59,53 @@ export async function monitorPayments() {
   console.log(`[Monitor] Found ${expiringSoon.length} payments expiring soon`);
 
   for (const order of expiringSoon) {
-    // TODO: Send email/notification to customer
-    console.log(`[Monitor] Reminder: ${order.orderId} expires in 2 minutes`);
-    
-    // Mark reminder as sent
-    order.expiryReminderSent = true;
-    await order.save();
+    try {
+      // Deduped per quote, so a re-run or a concurrent monitor won't resend
+      const sent = await getNotificationService().send(order, 'payment_expiring');
+      if (!sent) {
+        continue; // Failed (next run retries) or sent by someone else
+      }
+      console.log(`[Monitor] Reminder: ${order.orderId} expires in 2 minutes`);
+
+      // Mark reminder as sent (atomic, so a concurrent status update isn't overwritten)
+      await PaymentOrder.updateOne(
+        { orderId: order.orderId },
+        { $set: { expiryReminderSent: true } }
+      );
+    } catch (error) {
+      errors++;
+      console.error(`[Monitor] Failed to remind ${order.orderId}:`, error);
+    }
   }
 
-  // 3. Clean up very old abandoned orders (24 hours old)
+  // 3. Clean up very old abandoned orders (24 hours since the last quote)
+  // quotedAt (not createdAt) so re-quoted orders get a fresh window.
+  // Open-amount (variable) shifts stay open until their own expiresAt.
   const abandonedThreshold = new Date(now.getTime() - 24 * 60 * 60 * 1000);
   
   const abandonedOrders = await PaymentOrder.find({
     status: 'pending',
-    createdAt: { $lt: abandonedThreshold },
+    paymentMode: { $ne: 'open' },
+    quotedAt: { $lt: abandonedThreshold },
     depositTxHash: { $exists: false },
   });
 
   console.log(`[Monitor] Found ${abandonedOrders.length} abandoned orders`);
 
   for (const order of abandonedOrders) {
-    const paymentService = getPaymentService();
-    await paymentService.updateOrderStatus(order.orderId, 'expired', {
-      note: 'Abandoned - 24 hours without deposit',
-    });
+    try {
+      await expireUnpaidOrder(order, 'Abandoned - 24 hours without deposit');
+    } catch (error) {
+      errors++;
+      console.error(`[Monitor] Failed to expire abandoned ${order.orderId}:`, error);
+    }
   }
 
   // 4. Poll stuck payments (processing for >1 hour)
   const stuckThreshold = new Date(now.getTime() - 60 * 60 * 1000);
   
   const stuckPayments = await PaymentOrder.find({
-    status: { $in: ['detecting', 'processing', 'settling'] },
+    status: { $in: IN_PROGRESS_STATUSES },
     updatedAt: { $lt: stuckThreshold },
   });
 
@@ -92,20 +119,64 @@ export async function monitorPayments() {
       await paymentService.pollShiftStatus(order.orderId);
       console.log(`[Monitor] Polled ${order.orderId}`);
     } catch (error) {
+      errors++;
       console.error(`[Monitor] Failed to poll ${order.orderId}:`, error);
     }
   }
 
-  console.log('[Monitor] Payment monitor completed');
+  // 5. Track in-flight refund shifts (errors per refund are handled inside)
+  let refundsSynced = 0;
+  try {
+    refundsSynced = await getRefundService().syncProcessingRefunds();
+    console.log(`[Monitor] Synced ${refundsSynced} processing refunds`);
+  } catch (error) {
+    errors++;
+    console.error('[Monitor] Failed to sync refunds:', error);
+  }
+
+  console.log(`[Monitor] Payment monitor completed${errors ? ` with ${errors} errors` : ''}`);
   
   return {
     expiredPending: expiredPending.length,
     expiringSoon: expiringSoon.length,
     abandonedOrders: abandonedOrders.length,
     stuckPayments: stuckPayments.length,
+    refundsSynced,
+    errors,
   };
 }
 
+/**
+ * Expire a pending order, unless its shift turns out to have a deposit
+ * The shift is polled first: a deposit sent just before the quote expired
+ * may not have been reported yet, and the poll applies it instead
+ * Returns true if the order was expired
+ */
+async function expireUnpaidOrder(order: IPaymentOrder, note: string): Promise<boolean> {
+  const paymentService = getPaymentService();
+
+  if (order.shiftId) {
+    try {
+      const polled = await paymentService.pollShiftStatus(order.orderId);
+      if (polled.status !== 'pending') {
+        return polled.status === 'expired';
+      }
+    } catch (error) {
+      // Unknown to the provider: nothing can arrive on it any more
+      if (!(error instanceof SwapProviderError && error.statusCode === 404)) {
+        throw error; // Provider unreachable: try again next run
+      }
+    }
+  }
+
+  const updated = await paymentService.updateOrderStatus(order.orderId, 'expired', {
+    note,
+    source: 'monitor',
+    shiftId: order.shiftId, // Skip if re-quoted meanwhile
+  });
+  return updated.status === 'expired';
+}
+
 /**
  * Run monitor as API endpoint (for Vercel Cron)
  * 
@@ -0,0 +1,26 @@
+import { getReconciliationService } from '@/services/reconciliation.service';
+
+/**
+ * BACKGROUND JOB: Reconcile recent orders with SideShift
+ *
+ * Compares orders created in the last RECONCILIATION_LOOKBACK_HOURS with
+ * their shifts (status, amounts, hashes) and affiliate totals with
+ * getAffiliateStats, and stores the findings in a ReconciliationReport.
+ * Skips the run if another one is still in progress.
+ *
+ * Run hourly via /api/cron/reconcile
+ */
+export async function reconcileOrders() {
+  console.log('[Reconcile] Starting reconciliation...');
+
+  const reconciliationService = getReconciliationService();
+  const report = await reconciliationService.startReport('cron');
+  const result = await reconciliationService.runReport(report.reportId);
+
+  return {
+    reportId: report.reportId,
+    status: result?.status,
+    ordersChecked: result?.ordersChecked || 0,
+    discrepancyCount: result?.discrepancyCount || 0,
+  };
+}
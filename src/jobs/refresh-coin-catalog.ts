@@ -0,0 +1,22 @@
+import { getCoinCatalogService } from '@/services/coin-catalog.service';
+
+/**
+ * BACKGROUND JOB: Coin catalog refresh
+ *
+ * Checkout requests already refresh a stale catalog after responding; this
+ * keeps it fresh on quiet deployments (and fills an empty cache) so the
+ * next customer never waits on SideShift's /coins.
+ *
+ * Run every 15 minutes via /api/cron/coins
+ */
+export async function refreshCoinCatalog() {
+  console.log('[CoinCatalog] Starting catalog refresh...');
+
+  const coinCatalog = getCoinCatalogService();
+  const before = await coinCatalog.getSnapshot();
+  const refreshed = before.stale ? await coinCatalog.refreshIfStale() : false;
+
+  console.log(`[CoinCatalog] ${refreshed ? 'Refreshed' : 'Still fresh'} (${before.coins.length} coins before)`);
+
+  return { refreshed, stale: before.stale, fetchedAt: before.fetchedAt, coins: before.coins.length };
+}
@@ -0,0 +1,33 @@
+import { getWebhookService } from '@/services/webhook.service';
+import { getMerchantWebhookService } from '@/services/merchant-webhook.service';
+
+/**
+ * BACKGROUND JOB: Retry failed webhooks (inbound and outbound)
+ * 
+ * Inbound: picks up unprocessed/errored SideShift events whose backoff has
+ * elapsed and reprocesses them. Events exceeding WEBHOOK_MAX_ATTEMPTS are
+ * moved to the dead-letter queue and only replayed manually.
+ * 
+ * Outbound: re-attempts pending merchant webhook deliveries.
+ * 
+ * Run every few minutes via /api/cron/webhooks
+ */
+export async function retryWebhooks() {
+  console.log('[WebhookRetry] Starting webhook retry worker...');
+
+  const webhookService = getWebhookService();
+  const inbound = await webhookService.retryDueEvents();
+
+  console.log(
+    `[WebhookRetry] Inbound: attempted ${inbound.attempted}, succeeded ${inbound.succeeded}, failed ${inbound.failed}`
+  );
+
+  const merchantWebhookService = getMerchantWebhookService();
+  const outbound = await merchantWebhookService.retryDueDeliveries();
+
+  console.log(
+    `[WebhookRetry] Outbound: attempted ${outbound.attempted}, succeeded ${outbound.succeeded}, failed ${outbound.failed}`
+  );
+
+  return { inbound, outbound };
+}
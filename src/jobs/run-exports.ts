@@ -0,0 +1,20 @@
+import { getExportService } from '@/services/export.service';
+
+/**
+ * BACKGROUND JOB: Accounting export jobs
+ *
+ * Jobs normally run right after they are created; this picks up any that
+ * were left queued (or whose worker died mid-run) and deletes exports past
+ * their retention window (EXPORT_RETENTION_HOURS).
+ *
+ * Run every few minutes via /api/cron/exports
+ */
+export async function runExports() {
+  console.log('[Exports] Starting export worker...');
+
+  const result = await getExportService().runPendingJobs();
+
+  console.log(`[Exports] Ran ${result.ran} jobs, deleted ${result.deleted} expired exports`);
+
+  return result;
+}
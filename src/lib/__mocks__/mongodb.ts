@@ -0,0 +1,4 @@
+import { vi } from 'vitest';
+
+// Tests never connect: models are mocked per test file (vi.mock('@/lib/mongodb'))
+export const connectDB = vi.fn();
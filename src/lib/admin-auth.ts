@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+
+/**
+ * ADMIN AUTH
+ * - API: Authorization: Bearer <ADMIN_API_KEY>
+ * - Dashboard (/admin): signed session cookie, issued by POST /api/admin/session
+ *   in exchange for ADMIN_API_KEY or a merchant secret key:
+ *   - admin sessions are signed with ADMIN_API_KEY, so rotating it signs
+ *     every admin out
+ *   - merchant sessions carry the merchant and key ID, signed with
+ *     CHECKOUT_TOKEN_SECRET; authenticateDashboardRequest (api-auth) re-checks
+ *     the key on every request, so revoking it signs the merchant out
+ *
+ * Only an admin session opens the admin routes (/api/admin/*,
+ * isAdminSessionRequest); the dashboard's order and refund routes take either
+ * kind. The payments API takes the bearer key alone (isAdminApiRequest), so a
+ * dashboard login is not a payments credential.
+ */
+
+export const ADMIN_SESSION_COOKIE = 'admin_session';
+export const ADMIN_SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+export type DashboardSession =
+  | { type: 'admin' }
+  | { type: 'merchant'; merchantId: string; keyId: string };
+
+interface DashboardSessionPayload {
+  exp: number; // Unix seconds
+  merchantId?: string; // Merchant sessions only
+  keyId?: string;
+}
+
+/**
+ * Check that a request carries the admin API key (Authorization header only)
+ */
+export function isAdminApiRequest(request: Request): boolean {
+  const adminKey = process.env.ADMIN_API_KEY;
+  const authHeader = request.headers.get('authorization') || '';
+  return !!adminKey && !!authHeader && safeEqual(authHeader, `Bearer ${adminKey}`);
+}
+
+/**
+ * Admin routes: the admin API key, or (without an Authorization header)
+ * a valid dashboard session
+ */
+export function isAdminSessionRequest(request: Request): boolean {
+  if (!process.env.ADMIN_API_KEY) {
+    return false;
+  }
+
+  if (request.headers.get('authorization')) {
+    return isAdminApiRequest(request);
+  }
+
+  return readDashboardSession(request)?.type === 'admin';
+}
+
+/**
+ * The dashboard session cookie on a request (any kind), or null
+ */
+export function readDashboardSession(request: Request): DashboardSession | null {
+  return verifyDashboardSession(readCookie(request, ADMIN_SESSION_COOKIE));
+}
+
+/**
+ * Check a submitted admin key (dashboard login)
+ */
+export function isAdminKey(key: string): boolean {
+  const adminKey = process.env.ADMIN_API_KEY;
+  return !!adminKey && safeEqual(key, adminKey);
+}
+
+/**
+ * Issue a session cookie value: <base64url(payload)>.<HMAC-SHA256(secret, payload)>
+ * Without a merchant it's an admin session
+ */
+export function createDashboardSession(
+  merchant?: { merchantId: string; keyId: string }
+): { value: string; expiresAt: Date } {
+  const exp = Math.floor(Date.now() / 1000) + ADMIN_SESSION_TTL_SECONDS;
+  const payload: DashboardSessionPayload = { exp, ...merchant };
+  const secret = sessionSecret(payload);
+  if (!secret) {
+    throw new Error(`${merchant ? 'CHECKOUT_TOKEN_SECRET' : 'ADMIN_API_KEY'} not configured`);
+  }
+
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return { value: `${encoded}.${signSession(secret, encoded)}`, expiresAt: new Date(exp * 1000) };
+}
+
+/**
+ * Verify a session cookie value (unsigned, forged or expired = null)
+ */
+export function verifyDashboardSession(value: string | undefined): DashboardSession | null {
+  const [encoded, signature] = (value || '').split('.');
+  if (!encoded || !signature) {
+    return null;
+  }
+
+  let payload: DashboardSessionPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  const secret = sessionSecret(payload);
+  if (!secret || !safeEqual(signature, signSession(secret, encoded)) || !(payload.exp * 1000 > Date.now())) {
+    return null;
+  }
+
+  return payload.merchantId && payload.keyId
+    ? { type: 'merchant', merchantId: payload.merchantId, keyId: payload.keyId }
+    : { type: 'admin' };
+}
+
+function sessionSecret(payload: DashboardSessionPayload): string | undefined {
+  return payload.merchantId ? process.env.CHECKOUT_TOKEN_SECRET : process.env.ADMIN_API_KEY;
+}
+
+function signSession(secret: string, encoded: string): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`dashboard-session:${encoded}`)
+    .digest('base64url');
+}
+
+function readCookie(request: Request, name: string): string | undefined {
+  const header = request.headers.get('cookie') || '';
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(rest.join('='));
+    }
+  }
+  return undefined;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const provided = Buffer.from(a);
+  const wanted = Buffer.from(b);
+  return provided.length === wanted.length && crypto.timingSafeEqual(provided, wanted);
+}
@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  authenticate: vi.fn(),
+  getActiveKey: vi.fn(),
+}));
+
+vi.mock('@/services/api-key.service', () => ({
+  getApiKeyService: () => ({ authenticate: mocks.authenticate, getActiveKey: mocks.getActiveKey }),
+}));
+
+import {
+  authenticateRequest,
+  authenticateDashboardRequest,
+  canAccessOrder,
+  createCheckoutToken,
+  verifyCheckoutToken,
+} from '@/lib/api-auth';
+import { createDashboardSession, isAdminSessionRequest, ADMIN_SESSION_COOKIE } from '@/lib/admin-auth';
+
+const URL_BASE = 'https://pay.example.com/api/payments/ord_1';
+
+function request(options: { bearer?: string; token?: string; cookie?: string } = {}) {
+  const url = options.token ? `${URL_BASE}?token=${encodeURIComponent(options.token)}` : URL_BASE;
+  const headers: Record<string, string> = {};
+  if (options.bearer) headers.authorization = `Bearer ${options.bearer}`;
+  if (options.cookie) headers.cookie = options.cookie;
+  return new Request(url, { headers });
+}
+
+describe('checkout tokens', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.stubEnv('CHECKOUT_TOKEN_SECRET', 'checkout-secret');
+    vi.stubEnv('ADMIN_API_KEY', 'admin-key');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('round-trips merchant, order and scopes', () => {
+    const { token } = createCheckoutToken({ merchantId: 'shop', orderId: 'ord_1', scopes: ['read'] });
+
+    expect(token.startsWith('ct_')).toBe(true);
+    expect(verifyCheckoutToken(token)).toMatchObject({ merchantId: 'shop', orderId: 'ord_1', scopes: ['read'] });
+  });
+
+  it('rejects tampered, foreign and expired tokens', () => {
+    vi.useFakeTimers();
+    const { token } = createCheckoutToken({ merchantId: 'shop', scopes: ['create'], ttlSeconds: 60 });
+
+    const [encoded, signature] = token.slice(3).split('.');
+    const widened = Buffer.from(JSON.stringify({
+      ...JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')),
+      scopes: ['create', 'refund'],
+    })).toString('base64url');
+    expect(verifyCheckoutToken(`ct_${widened}.${signature}`)).toBeNull();
+
+    vi.stubEnv('CHECKOUT_TOKEN_SECRET', 'other-secret');
+    expect(verifyCheckoutToken(token)).toBeNull();
+    vi.stubEnv('CHECKOUT_TOKEN_SECRET', 'checkout-secret');
+
+    vi.advanceTimersByTime(61 * 1000);
+    expect(verifyCheckoutToken(token)).toBeNull();
+  });
+
+  it('enforces the token scope', async () => {
+    const { token } = createCheckoutToken({ merchantId: 'shop', orderId: 'ord_1', scopes: ['read', 'create'] });
+
+    await expect(authenticateRequest(request({ bearer: token }), 'read', { orderId: 'ord_1' }))
+      .resolves.toMatchObject({ ok: true, auth: { type: 'checkout_token', merchantId: 'shop', orderId: 'ord_1' } });
+    await expect(authenticateRequest(request({ bearer: token }), 'refund', { orderId: 'ord_1' }))
+      .resolves.toMatchObject({ ok: false, status: 403 });
+  });
+
+  it('binds order tokens to their order', async () => {
+    const { token } = createCheckoutToken({ merchantId: 'shop', orderId: 'ord_1', scopes: ['read'] });
+
+    await expect(authenticateRequest(request({ token }), 'read', { orderId: 'ord_2' }))
+      .resolves.toEqual({ ok: false, status: 403, error: 'Token is not valid for this order' });
+
+    const auth = await authenticateRequest(request({ token }), 'read', { orderId: 'ord_1' });
+    expect(auth.ok && canAccessOrder(auth.auth, { orderId: 'ord_1', merchantId: 'shop' })).toBe(true);
+    expect(auth.ok && canAccessOrder(auth.auth, { orderId: 'ord_2', merchantId: 'shop' })).toBe(false);
+  });
+
+  it('accepts checkout tokens but never secret keys in the query string', async () => {
+    await expect(authenticateRequest(request({ token: 'sk_live_secret' }), 'read'))
+      .resolves.toMatchObject({ ok: false, status: 401 });
+    expect(mocks.authenticate).not.toHaveBeenCalled();
+  });
+});
+
+describe('secret keys and admin credentials', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.stubEnv('CHECKOUT_TOKEN_SECRET', 'checkout-secret');
+    vi.stubEnv('ADMIN_API_KEY', 'admin-key');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('enforces the API key scope', async () => {
+    mocks.authenticate.mockResolvedValue({ merchantId: 'shop', keyId: 'key_1', scopes: ['read'] });
+
+    await expect(authenticateRequest(request({ bearer: 'sk_test' }), 'read'))
+      .resolves.toMatchObject({ ok: true, auth: { type: 'api_key', merchantId: 'shop' } });
+    await expect(authenticateRequest(request({ bearer: 'sk_test' }), 'create'))
+      .resolves.toMatchObject({ ok: false, status: 403 });
+  });
+
+  it('scopes merchant credentials to their own orders', () => {
+    const auth = { type: 'api_key' as const, merchantId: 'shop', keyId: 'key_1', scopes: ['read' as const] };
+
+    expect(canAccessOrder(auth, { orderId: 'ord_1', merchantId: 'shop' })).toBe(true);
+    expect(canAccessOrder(auth, { orderId: 'ord_2', merchantId: 'other' })).toBe(false);
+  });
+
+  it('takes the admin key as a bearer header only', async () => {
+    await expect(authenticateRequest(request({ bearer: 'admin-key' }), 'refund'))
+      .resolves.toEqual({ ok: true, auth: { type: 'admin' } });
+    await expect(authenticateRequest(request({ token: 'admin-key' }), 'read'))
+      .resolves.toMatchObject({ ok: false, status: 401 });
+  });
+
+  it('does not accept a dashboard session on the payments API', async () => {
+    const cookie = `${ADMIN_SESSION_COOKIE}=${createDashboardSession().value}`;
+
+    expect(isAdminSessionRequest(request({ cookie }))).toBe(true);
+    await expect(authenticateRequest(request({ cookie }), 'read'))
+      .resolves.toMatchObject({ ok: false, status: 401 });
+  });
+});
+
+describe('dashboard sessions', () => {
+  const merchantCookie = () =>
+    `${ADMIN_SESSION_COOKIE}=${createDashboardSession({ merchantId: 'shop', keyId: 'key_1' }).value}`;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.stubEnv('CHECKOUT_TOKEN_SECRET', 'checkout-secret');
+    vi.stubEnv('ADMIN_API_KEY', 'admin-key');
+    mocks.getActiveKey.mockResolvedValue({ merchantId: 'shop', keyId: 'key_1', scopes: ['read', 'refund'] });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('scopes a merchant session to its own orders and key scopes', async () => {
+    const auth = await authenticateDashboardRequest(request({ cookie: merchantCookie() }), 'read');
+
+    expect(auth).toMatchObject({ ok: true, auth: { type: 'api_key', merchantId: 'shop', keyId: 'key_1' } });
+    expect(auth.ok && canAccessOrder(auth.auth, { orderId: 'ord_2', merchantId: 'other' })).toBe(false);
+    await expect(authenticateDashboardRequest(request({ cookie: merchantCookie() }), 'create'))
+      .resolves.toMatchObject({ ok: false, status: 403 });
+  });
+
+  it('signs a merchant out once the key is revoked', async () => {
+    const cookie = merchantCookie();
+    mocks.getActiveKey.mockResolvedValue(null);
+
+    await expect(authenticateDashboardRequest(request({ cookie }), 'read'))
+      .resolves.toEqual({ ok: false, status: 401, error: 'Session expired, sign in again' });
+  });
+
+  it('does not open the admin routes to a merchant session', async () => {
+    const cookie = merchantCookie();
+
+    expect(isAdminSessionRequest(request({ cookie }))).toBe(false);
+    expect(isAdminSessionRequest(request({ cookie: `${ADMIN_SESSION_COOKIE}=${createDashboardSession().value}` }))).toBe(true);
+  });
+
+  it('rejects a merchant session re-pointed at another merchant', async () => {
+    const [encoded, signature] = createDashboardSession({ merchantId: 'shop', keyId: 'key_1' }).value.split('.');
+    const forged = Buffer.from(JSON.stringify({
+      ...JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')),
+      merchantId: 'other',
+    })).toString('base64url');
+
+    await expect(authenticateDashboardRequest(request({ cookie: `${ADMIN_SESSION_COOKIE}=${forged}.${signature}` }), 'read'))
+      .resolves.toMatchObject({ ok: false, status: 401 });
+  });
+
+  it('keeps checkout tokens out of the dashboard', async () => {
+    const { token } = createCheckoutToken({ merchantId: 'shop', scopes: ['read'] });
+
+    await expect(authenticateDashboardRequest(request({ bearer: token }), 'read'))
+      .resolves.toMatchObject({ ok: false, status: 403 });
+  });
+});
@@ -0,0 +1,231 @@
+import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+import type { ApiKeyScope } from '@/models/ApiKey';
+import { isAdminApiRequest, readDashboardSession } from '@/lib/admin-auth';
+import { getApiKeyService } from '@/services/api-key.service';
+
+/**
+ * PAYMENTS API AUTH
+ * Accepted credentials (Authorization: Bearer <credential>):
+ * - Merchant secret key (sk_...): server-to-server, scoped to its merchant
+ * - Checkout token (ct_...): short-lived, signed, safe to hand to a browser.
+ *   Session tokens can create one payment; order tokens can only read/poll/
+ *   re-quote their own order. Also accepted as ?token= for hosted pages.
+ * - ADMIN_API_KEY: everything, all merchants (header only, not the dashboard session)
+ */
+
+export type ApiAuth =
+  | { type: 'admin' }
+  | { type: 'api_key'; merchantId: string; keyId: string; scopes: ApiKeyScope[] }
+  | { type: 'checkout_token'; merchantId: string; orderId?: string; scopes: ApiKeyScope[] };
+
+export type ApiAuthResult =
+  | { ok: true; auth: ApiAuth }
+  | { ok: false; status: 401 | 403; error: string };
+
+export interface CheckoutTokenPayload {
+  merchantId: string;
+  orderId?: string; // Bound to one order
+  scopes: ApiKeyScope[];
+  exp: number; // Unix seconds
+}
+
+const CHECKOUT_TOKEN_PREFIX = 'ct_';
+const DEFAULT_CHECKOUT_SESSION_TTL_SECONDS = 30 * 60;
+export const ORDER_TOKEN_TTL_SECONDS = 6 * 60 * 60;
+
+/**
+ * Authenticate a payments API request and check it carries `scope`
+ * Pass orderId for order routes so order-bound tokens are checked against it
+ */
+export async function authenticateRequest(
+  request: Request,
+  scope: ApiKeyScope,
+  options: { orderId?: string } = {}
+): Promise<ApiAuthResult> {
+  // Bearer key only: a dashboard session cookie is not a payments API credential
+  if (isAdminApiRequest(request)) {
+    return { ok: true, auth: { type: 'admin' } };
+  }
+
+  const authHeader = request.headers.get('authorization') || '';
+  const bearer = authHeader.startsWith('Bearer ') ? authHeader.slice(7).trim() : '';
+  const queryToken = new URL(request.url).searchParams.get('token') || '';
+
+  // Checkout tokens may come from the query string, secret keys never
+  const credential = bearer || (queryToken.startsWith(CHECKOUT_TOKEN_PREFIX) ? queryToken : '');
+
+  if (!credential) {
+    return { ok: false, status: 401, error: 'Missing API key' };
+  }
+
+  if (credential.startsWith(CHECKOUT_TOKEN_PREFIX)) {
+    const payload = verifyCheckoutToken(credential);
+    if (!payload) {
+      return { ok: false, status: 401, error: 'Invalid or expired checkout token' };
+    }
+    if (!payload.scopes.includes(scope)) {
+      return { ok: false, status: 403, error: `Token lacks the "${scope}" scope` };
+    }
+    if (payload.orderId && payload.orderId !== options.orderId) {
+      return { ok: false, status: 403, error: 'Token is not valid for this order' };
+    }
+
+    return {
+      ok: true,
+      auth: {
+        type: 'checkout_token',
+        merchantId: payload.merchantId,
+        orderId: payload.orderId,
+        scopes: payload.scopes,
+      },
+    };
+  }
+
+  const apiKey = await getApiKeyService().authenticate(credential);
+  if (!apiKey) {
+    return { ok: false, status: 401, error: 'Invalid API key' };
+  }
+  if (!apiKey.scopes.includes(scope)) {
+    return { ok: false, status: 403, error: `API key lacks the "${scope}" scope` };
+  }
+
+  return {
+    ok: true,
+    auth: {
+      type: 'api_key',
+      merchantId: apiKey.merchantId,
+      keyId: apiKey.keyId,
+      scopes: apiKey.scopes,
+    },
+  };
+}
+
+/**
+ * Authenticate a dashboard request (the /admin order and refund routes)
+ * - Authorization header: as authenticateRequest, minus checkout tokens
+ * - otherwise the dashboard session: admin, or a merchant whose key is
+ *   re-checked here (revoked or expired = signed out) and must carry `scope`
+ * Merchants come back as api_key auth, so canAccessOrder scopes them
+ */
+export async function authenticateDashboardRequest(
+  request: Request,
+  scope: ApiKeyScope
+): Promise<ApiAuthResult> {
+  if (request.headers.get('authorization')) {
+    const result = await authenticateRequest(request, scope);
+    if (result.ok && result.auth.type === 'checkout_token') {
+      return { ok: false, status: 403, error: 'Checkout tokens cannot use the dashboard' };
+    }
+    return result;
+  }
+
+  const session = readDashboardSession(request);
+  if (!session) {
+    return { ok: false, status: 401, error: 'Unauthorized' };
+  }
+  if (session.type === 'admin') {
+    return { ok: true, auth: { type: 'admin' } };
+  }
+
+  const apiKey = await getApiKeyService().getActiveKey(session.keyId);
+  if (!apiKey || apiKey.merchantId !== session.merchantId) {
+    return { ok: false, status: 401, error: 'Session expired, sign in again' };
+  }
+  if (!apiKey.scopes.includes(scope)) {
+    return { ok: false, status: 403, error: `API key lacks the "${scope}" scope` };
+  }
+
+  return {
+    ok: true,
+    auth: { type: 'api_key', merchantId: apiKey.merchantId, keyId: apiKey.keyId, scopes: apiKey.scopes },
+  };
+}
+
+/**
+ * Whether the caller may act on an order of `merchantId`
+ */
+export function canAccessOrder(auth: ApiAuth, order: { orderId: string; merchantId: string }): boolean {
+  if (auth.type === 'admin') return true;
+  if (auth.type === 'checkout_token' && auth.orderId) return auth.orderId === order.orderId;
+  return auth.merchantId === order.merchantId;
+}
+
+/**
+ * Standard JSON error for a failed authenticateRequest()
+ */
+export function authErrorResponse(result: { status: number; error: string }) {
+  return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+}
+
+/**
+ * Whether checkout tokens can be signed (CHECKOUT_TOKEN_SECRET is set)
+ */
+export function checkoutTokensConfigured(): boolean {
+  return !!process.env.CHECKOUT_TOKEN_SECRET;
+}
+
+/**
+ * Sign a checkout token
+ * Format: ct_<base64url(payload)>.<base64url(HMAC-SHA256(secret, payload))>
+ */
+export function createCheckoutToken(params: {
+  merchantId: string;
+  orderId?: string;
+  scopes: ApiKeyScope[];
+  ttlSeconds?: number;
+}): { token: string; expiresAt: Date } {
+  const ttlSeconds = params.ttlSeconds ?? parseInt(
+    process.env.CHECKOUT_SESSION_TTL_SECONDS || String(DEFAULT_CHECKOUT_SESSION_TTL_SECONDS),
+    10
+  );
+  const exp = Math.floor(Date.now() / 1000) + ttlSeconds;
+
+  const payload: CheckoutTokenPayload = {
+    merchantId: params.merchantId,
+    ...(params.orderId ? { orderId: params.orderId } : {}),
+    scopes: params.scopes,
+    exp,
+  };
+
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const token = `${CHECKOUT_TOKEN_PREFIX}${encoded}.${signCheckoutToken(encoded)}`;
+
+  return { token, expiresAt: new Date(exp * 1000) };
+}
+
+/**
+ * Verify a checkout token, or null if forged/expired/malformed
+ */
+export function verifyCheckoutToken(token: string): CheckoutTokenPayload | null {
+  if (!token.startsWith(CHECKOUT_TOKEN_PREFIX) || !process.env.CHECKOUT_TOKEN_SECRET) {
+    return null;
+  }
+
+  const [encoded, signature] = token.slice(CHECKOUT_TOKEN_PREFIX.length).split('.');
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(signCheckoutToken(encoded));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as CheckoutTokenPayload;
+    if (!payload.merchantId || !Array.isArray(payload.scopes) || payload.exp * 1000 <= Date.now()) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+function signCheckoutToken(encoded: string): string {
+  const secret = process.env.CHECKOUT_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('CHECKOUT_TOKEN_SECRET not configured');
+  }
+  return crypto.createHmac('sha256', secret).update(encoded).digest('base64url');
+}
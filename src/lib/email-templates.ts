@@ -0,0 +1,160 @@
+import type { IPaymentOrder } from '@/models/PaymentOrder';
+
+/**
+ * CUSTOMER EMAIL TEMPLATES
+ * One template per notification type; each renders a subject, plain text
+ * and a minimal inline-styled HTML version
+ */
+
+export const NOTIFICATION_TYPES = [
+  'payment_created',
+  'payment_expiring',
+  'payment_detected',
+  'payment_completed',
+  'payment_expired',
+  'payment_failed',
+  'payment_refunded',
+] as const;
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export interface EmailTemplateContext {
+  order: IPaymentOrder;
+  merchantName: string;
+  paymentUrl: string;
+  supportEmail?: string;
+}
+
+interface TemplateContent {
+  subject: string;
+  heading: string;
+  lines: string[];
+  cta?: string; // Button label linking to the payment page
+}
+
+const TEMPLATES: Record<NotificationType, (ctx: EmailTemplateContext) => TemplateContent> = {
+  payment_created: ({ order, merchantName }) => ({
+    subject: `Complete your payment for order ${order.orderNumber}`,
+    heading: 'Your payment is ready',
+    lines: [
+      order.paymentMode === 'open'
+        ? `Send ${order.depositCoin.toUpperCase()} (${order.depositNetwork}) to the address below to pay ${merchantName}.`
+        : `Send exactly ${order.depositAmount} ${order.depositCoin.toUpperCase()} (${order.depositNetwork}) to complete your ${formatUSD(order.totalUSD)} order with ${merchantName}.`,
+      `Deposit address: ${order.depositAddress}`,
+      ...(order.depositMemo ? [`Memo / destination tag (required, deposits without it are lost): ${order.depositMemo}`] : []),
+      ...(order.quoteExpiresAt ? [`This quote expires at ${order.quoteExpiresAt.toUTCString()}.`] : []),
+    ],
+    cta: 'Open payment page',
+  }),
+
+  payment_expiring: ({ order }) => ({
+    subject: `Your payment for order ${order.orderNumber} expires soon`,
+    heading: 'Your quote is about to expire',
+    lines: [
+      `We haven't received your ${order.depositCoin.toUpperCase()} deposit yet.`,
+      ...(order.quoteExpiresAt ? [`The quote expires at ${order.quoteExpiresAt.toUTCString()}.`] : []),
+      'If you already sent it, no action is needed.',
+    ],
+    cta: 'Finish paying',
+  }),
+
+  payment_detected: ({ order }) => ({
+    subject: `Payment received for order ${order.orderNumber}`,
+    heading: 'We see your payment',
+    lines: [
+      `Your ${order.depositCoin.toUpperCase()} deposit was detected and is being confirmed.`,
+      ...(order.depositTxHash ? [`Transaction: ${order.depositTxHash}`] : []),
+      "We'll email you again once it's complete.",
+    ],
+    cta: 'Track payment',
+  }),
+
+  payment_completed: ({ order, merchantName }) => ({
+    subject: `Order ${order.orderNumber} confirmed`,
+    heading: 'Payment complete',
+    lines: [
+      `Thank you! Your payment to ${merchantName} is confirmed.`,
+      ...order.items.map(item => `${item.quantity} x ${item.name}: ${formatUSD(item.priceUSD * item.quantity)}`),
+      ...(order.totalUSD > 0 ? [`Total: ${formatUSD(order.totalUSD)}`] : []),
+    ],
+    cta: 'View receipt',
+  }),
+
+  payment_expired: ({ order }) => ({
+    subject: `Your payment for order ${order.orderNumber} expired`,
+    heading: 'Payment expired',
+    lines: [
+      'The quote expired before we received your deposit.',
+      'You can get a new quote for the same order from the payment page.',
+    ],
+    cta: 'Get a new quote',
+  }),
+
+  payment_failed: ({ order, supportEmail }) => ({
+    subject: `There was a problem with order ${order.orderNumber}`,
+    heading: 'Payment failed',
+    lines: [
+      'Your payment could not be processed.',
+      supportEmail
+        ? `Contact ${supportEmail} with order #${order.orderNumber} and we'll help sort it out.`
+        : `Contact support with order #${order.orderNumber} and we'll help sort it out.`,
+    ],
+    cta: 'View payment',
+  }),
+
+  payment_refunded: ({ order }) => ({
+    subject: `Refund for order ${order.orderNumber}`,
+    heading: 'Your payment was refunded',
+    lines: [
+      'Your refund has been sent.',
+      ...(order.customerWallet ? [`Refund wallet: ${order.customerWallet}`] : []),
+    ],
+    cta: 'View details',
+  }),
+};
+
+/**
+ * Render a notification email
+ */
+export function renderEmail(
+  type: NotificationType,
+  ctx: EmailTemplateContext
+): { subject: string; text: string; html: string } {
+  const content = TEMPLATES[type](ctx);
+
+  const text = [
+    content.heading,
+    '',
+    ...content.lines,
+    '',
+    ...(content.cta ? [`${content.cta}: ${ctx.paymentUrl}`, ''] : []),
+    `Order #${ctx.order.orderNumber} - ${ctx.merchantName}`,
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="font-family: -apple-system, Segoe UI, Roboto, sans-serif; color: #0f172a; background: #f8fafc; padding: 24px;">
+    <div style="max-width: 520px; margin: 0 auto; background: #ffffff; border-radius: 12px; padding: 24px;">
+      <h1 style="font-size: 20px; margin: 0 0 16px;">${escapeHtml(content.heading)}</h1>
+      ${content.lines.map(line => `<p style="margin: 0 0 8px; word-break: break-all;">${escapeHtml(line)}</p>`).join('\n      ')}
+      ${content.cta ? `<p style="margin: 24px 0;"><a href="${escapeHtml(ctx.paymentUrl)}" style="background: #2563eb; color: #ffffff; padding: 12px 20px; border-radius: 8px; text-decoration: none;">${escapeHtml(content.cta)}</a></p>` : ''}
+      <p style="font-size: 12px; color: #64748b; margin-top: 24px;">Order #${escapeHtml(ctx.order.orderNumber)} - ${escapeHtml(ctx.merchantName)}</p>
+    </div>
+  </body>
+</html>`;
+
+  return { subject: content.subject, text, html };
+}
+
+function formatUSD(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
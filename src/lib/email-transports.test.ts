@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getEmailTransport } from '@/lib/email-transports';
+
+const message = {
+  from: 'Shop <payments@example.com>',
+  to: 'buyer@example.com',
+  subject: 'Payment received',
+  text: 'Track your order: https://pay.example.com/payment/ord_1?token=ct_eyJtIjoiZGVmYXVsdCJ9.c2lnbmF0dXJl',
+  html: '',
+};
+
+describe('console transport', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('redacts order tokens from the logged body', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await getEmailTransport().send(message);
+
+    const [output] = log.mock.calls[0];
+    expect(output).toContain('https://pay.example.com/payment/ord_1?token=ct_[redacted]');
+    expect(output).not.toContain('c2lnbmF0dXJl');
+  });
+
+  it('logs only recipient and subject in production', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await getEmailTransport().send(message);
+
+    const [output] = log.mock.calls[0];
+    expect(output).toContain('buyer@example.com');
+    expect(output).not.toContain('pay.example.com');
+  });
+});
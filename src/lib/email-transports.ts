@@ -0,0 +1,132 @@
+import fs from 'fs/promises';
+import path from 'path';
+import axios from 'axios';
+import nodemailer from 'nodemailer';
+
+/**
+ * EMAIL TRANSPORTS
+ * Pluggable delivery for customer notifications, picked by EMAIL_TRANSPORT:
+ * - smtp: any SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE)
+ * - http: JSON email API, Resend-compatible by default
+ *         (EMAIL_HTTP_URL, EMAIL_HTTP_API_KEY)
+ * - file: writes each message to EMAIL_OUTBOX_DIR (default .outbox) for development
+ * - console: logs the message (default), with order tokens redacted; in
+ *   production only recipient and subject, since logs outlive the links
+ */
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<{ messageId?: string }>;
+}
+
+const HTTP_TIMEOUT_MS = 10000;
+const SMTP_TIMEOUT_MS = 10000;
+
+// Checkout tokens (ct_<payload>.<signature>) in the hosted page links
+const CHECKOUT_TOKEN_PATTERN = /ct_[\w-]+\.[\w-]+/g;
+
+class SmtpTransport implements EmailTransport {
+  name = 'smtp';
+  // Nodemailer waits minutes by default; a stuck server mustn't hold up sends
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || '587', 10),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  });
+
+  async send(message: EmailMessage) {
+    const info = await this.transporter.sendMail(message);
+    return { messageId: info.messageId };
+  }
+}
+
+class HttpTransport implements EmailTransport {
+  name = 'http';
+
+  async send(message: EmailMessage) {
+    const apiKey = process.env.EMAIL_HTTP_API_KEY;
+    if (!apiKey) {
+      throw new Error('EMAIL_HTTP_API_KEY not configured');
+    }
+
+    const response = await axios.post(
+      process.env.EMAIL_HTTP_URL || 'https://api.resend.com/emails',
+      message,
+      {
+        timeout: HTTP_TIMEOUT_MS,
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiKey}`,
+        },
+      }
+    );
+
+    return { messageId: response.data?.id };
+  }
+}
+
+class FileTransport implements EmailTransport {
+  name = 'file';
+
+  async send(message: EmailMessage) {
+    const dir = process.env.EMAIL_OUTBOX_DIR || '.outbox';
+    const messageId = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, `${messageId}.json`), JSON.stringify(message, null, 2));
+
+    return { messageId };
+  }
+}
+
+class ConsoleTransport implements EmailTransport {
+  name = 'console';
+
+  async send(message: EmailMessage) {
+    const header = `[Email] To: ${message.to} | Subject: ${message.subject}`;
+    if (process.env.NODE_ENV === 'production') {
+      console.log(`${header} (body not logged, set EMAIL_TRANSPORT to deliver it)`);
+    } else {
+      console.log(`${header}\n${message.text.replace(CHECKOUT_TOKEN_PATTERN, 'ct_[redacted]')}`);
+    }
+    return {};
+  }
+}
+
+let transport: EmailTransport | null = null;
+
+/**
+ * Configured transport (created once per process)
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    switch (process.env.EMAIL_TRANSPORT || 'console') {
+      case 'smtp':
+        transport = new SmtpTransport();
+        break;
+      case 'http':
+        transport = new HttpTransport();
+        break;
+      case 'file':
+        transport = new FileTransport();
+        break;
+      default:
+        transport = new ConsoleTransport();
+    }
+  }
+  return transport;
+}
@@ -0,0 +1,293 @@
+import crypto from 'crypto';
+import { nanoid } from 'nanoid';
+import {
+  SwapProvider,
+  SwapProviderError,
+  SwapCoin,
+  SwapCoinPermissions,
+  SwapPair,
+  SwapQuoteRequest,
+  SwapQuote,
+  SwapFixedShiftRequest,
+  SwapVariableShiftRequest,
+  SwapShift,
+  SwapShiftState,
+  SwapShiftStatus,
+} from '@/lib/swap-provider';
+
+/**
+ * MOCK SWAP PROVIDER (SWAP_PROVIDER=mock)
+ * In-process stand-in for SideShift, for running checkout end to end offline
+ *
+ * Deterministic: fixed USD prices, addresses/memos/tx hashes derived from
+ * the shift ID, and every shift walks the same timeline, one state per
+ * MOCK_SWAP_STEP_SECONDS (default 10) after it is created:
+ *   waiting -> pending (deposit detected) -> processing -> settling -> settled
+ * Shifts live in memory (one store per server process, kept across hot
+ * reloads), so restarting the server forgets them.
+ */
+
+const DEFAULT_STEP_SECONDS = 10;
+const QUOTE_TTL_MS = 15 * 60 * 1000;
+const VARIABLE_SHIFT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MIN_DEPOSIT_USD = 1;
+const MAX_DEPOSIT_USD = 20000;
+const OPEN_DEPOSIT_USD = 25; // What the "customer" sends to a variable shift
+
+// Shared with the SideShift simulator (scripts/sideshift-simulator.ts)
+export const MOCK_PRICES_USD: Record<string, number> = {
+  btc: 60000,
+  eth: 3000,
+  sol: 150,
+  bnb: 600,
+  xrp: 0.5,
+  usdc: 1,
+  usdt: 1,
+};
+
+export const MOCK_COINS: SwapCoin[] = [
+  { coin: 'BTC', name: 'Bitcoin', networks: ['bitcoin'] },
+  { coin: 'ETH', name: 'Ethereum', networks: ['ethereum', 'arbitrum', 'optimism', 'base'] },
+  { coin: 'USDC', name: 'USD Coin', networks: ['ethereum', 'arbitrum', 'optimism', 'polygon', 'base', 'solana'] },
+  { coin: 'USDT', name: 'Tether', networks: ['ethereum', 'arbitrum', 'polygon'] },
+  { coin: 'SOL', name: 'Solana', networks: ['solana'] },
+  { coin: 'BNB', name: 'BNB', networks: ['bsc'] },
+  { coin: 'XRP', name: 'XRP', networks: ['ripple'], hasMemo: true, networksWithMemo: ['ripple'] },
+];
+
+const TIMELINE: SwapShiftState[] = ['waiting', 'pending', 'processing', 'settling', 'settled'];
+
+interface MockShift extends SwapShift {
+  createdAtMs: number;
+  rate: string;
+}
+
+interface MockStore {
+  quotes: Map<string, SwapQuote>;
+  shifts: Map<string, MockShift>;
+}
+
+declare global {
+  var mockSwapStore: MockStore | undefined;
+}
+
+// Survives hot reloads in dev, one store per server process
+const store: MockStore = global.mockSwapStore || { quotes: new Map(), shifts: new Map() };
+
+if (!global.mockSwapStore) {
+  global.mockSwapStore = store;
+}
+
+export class MockSwapProvider implements SwapProvider {
+  readonly name = 'mock';
+  readonly displayName = 'Mock provider';
+  private stepMs = parseFloat(process.env.MOCK_SWAP_STEP_SECONDS || String(DEFAULT_STEP_SECONDS)) * 1000;
+
+  async getSupportedCoins(): Promise<SwapCoin[]> {
+    return MOCK_COINS.map(coin => ({ ...coin }));
+  }
+
+  async getCoinPermissions(coin: string, network: string): Promise<SwapCoinPermissions> {
+    this.price(coin, network); // Unknown coin/network -> 400, like the pair
+    return { deposit: true, settle: true };
+  }
+
+  async getPairInfo(
+    depositCoin: string,
+    depositNetwork: string,
+    settleCoin: string,
+    settleNetwork: string
+  ): Promise<SwapPair> {
+    const depositPrice = this.price(depositCoin, depositNetwork);
+    const settlePrice = this.price(settleCoin, settleNetwork);
+
+    if (depositCoin.toLowerCase() === settleCoin.toLowerCase() && depositNetwork === settleNetwork) {
+      throw new SwapProviderError('Deposit and settle coin must differ', 400);
+    }
+
+    return {
+      depositCoin: depositCoin.toUpperCase(),
+      depositNetwork,
+      settleCoin: settleCoin.toUpperCase(),
+      settleNetwork,
+      min: toAmount(MIN_DEPOSIT_USD / depositPrice),
+      max: toAmount(MAX_DEPOSIT_USD / depositPrice),
+      rate: toAmount(depositPrice / settlePrice),
+    };
+  }
+
+  async requestQuote(params: SwapQuoteRequest): Promise<SwapQuote> {
+    const pair = await this.getPairInfo(params.depositCoin, params.depositNetwork, params.settleCoin, params.settleNetwork);
+    const rate = parseFloat(pair.rate);
+
+    const depositAmount = params.depositAmount
+      ? parseFloat(params.depositAmount)
+      : parseFloat(params.settleAmount || '0') / rate;
+
+    if (!(depositAmount >= parseFloat(pair.min) && depositAmount <= parseFloat(pair.max))) {
+      throw new SwapProviderError(`Amount out of range (${pair.min} - ${pair.max} ${pair.depositCoin})`, 400);
+    }
+
+    const now = Date.now();
+    const quote: SwapQuote = {
+      id: `mockq_${nanoid(12)}`,
+      createdAt: new Date(now).toISOString(),
+      depositCoin: pair.depositCoin,
+      depositNetwork: params.depositNetwork,
+      settleCoin: pair.settleCoin,
+      settleNetwork: params.settleNetwork,
+      depositAmount: toAmount(depositAmount),
+      settleAmount: params.settleAmount || toAmount(depositAmount * rate),
+      expiresAt: new Date(now + QUOTE_TTL_MS).toISOString(),
+      rate: pair.rate,
+    };
+
+    store.quotes.set(quote.id, quote);
+    return quote;
+  }
+
+  async createFixedShift(params: SwapFixedShiftRequest): Promise<SwapShift> {
+    const quote = store.quotes.get(params.quoteId);
+    if (!quote) {
+      throw new SwapProviderError(`Quote ${params.quoteId} not found`, 404);
+    }
+    if (Date.parse(quote.expiresAt) <= Date.now()) {
+      throw new SwapProviderError('Quote has expired', 400);
+    }
+    store.quotes.delete(quote.id);
+
+    return this.openShift({
+      type: 'fixed',
+      depositCoin: quote.depositCoin,
+      depositNetwork: quote.depositNetwork,
+      settleCoin: quote.settleCoin,
+      settleNetwork: quote.settleNetwork,
+      settleAddress: params.settleAddress,
+      depositAmount: quote.depositAmount,
+      settleAmount: quote.settleAmount,
+      expiresAt: quote.expiresAt,
+      rate: quote.rate,
+    });
+  }
+
+  async createVariableShift(params: SwapVariableShiftRequest): Promise<SwapShift> {
+    const pair = await this.getPairInfo(params.depositCoin, params.depositNetwork, params.settleCoin, params.settleNetwork);
+
+    return this.openShift({
+      type: 'variable',
+      depositCoin: pair.depositCoin,
+      depositNetwork: params.depositNetwork,
+      settleCoin: pair.settleCoin,
+      settleNetwork: params.settleNetwork,
+      settleAddress: params.settleAddress,
+      depositMin: pair.min,
+      depositMax: pair.max,
+      expiresAt: new Date(Date.now() + VARIABLE_SHIFT_TTL_MS).toISOString(),
+      rate: pair.rate,
+    });
+  }
+
+  async getShiftStatus(shiftId: string): Promise<SwapShiftStatus> {
+    const shift = store.shifts.get(shiftId);
+    if (!shift) {
+      throw new SwapProviderError(`Shift ${shiftId} not found`, 404);
+    }
+
+    const step = Math.floor((Date.now() - shift.createdAtMs) / this.stepMs);
+    const status = TIMELINE[Math.min(step, TIMELINE.length - 1)];
+    const deposited = status !== 'waiting';
+
+    // Variable shifts: the customer sends OPEN_DEPOSIT_USD worth
+    const depositAmount = shift.depositAmount
+      || toAmount(OPEN_DEPOSIT_USD / this.price(shift.depositCoin, shift.depositNetwork));
+    const settleAmount = shift.settleAmount || toAmount(parseFloat(depositAmount) * parseFloat(shift.rate));
+
+    return {
+      id: shift.id,
+      status,
+      depositCoin: shift.depositCoin,
+      depositNetwork: shift.depositNetwork,
+      depositAddress: shift.depositAddress,
+      depositAmount: deposited ? depositAmount : undefined,
+      depositHash: deposited ? fakeHash(shift.id, 'deposit') : undefined,
+      settleCoin: shift.settleCoin,
+      settleNetwork: shift.settleNetwork,
+      settleAddress: shift.settleAddress,
+      settleAmount: deposited ? settleAmount : shift.settleAmount,
+      settleHash: status === 'settled' ? fakeHash(shift.id, 'settle') : undefined,
+      createdAt: shift.createdAt,
+      expiresAt: shift.expiresAt,
+    };
+  }
+
+  async getAffiliateStats(): Promise<unknown> {
+    let shiftCount = 0;
+    let volumeUsd = 0;
+
+    for (const shift of store.shifts.values()) {
+      const { status, settleAmount } = await this.getShiftStatus(shift.id);
+      if (status === 'settled') {
+        shiftCount++;
+        volumeUsd += parseFloat(settleAmount || '0') * (MOCK_PRICES_USD[shift.settleCoin.toLowerCase()] || 0);
+      }
+    }
+
+    return { shiftCount, volumeUsd };
+  }
+
+  private openShift(params: Omit<MockShift, 'id' | 'createdAt' | 'createdAtMs' | 'depositAddress' | 'status'>): SwapShift {
+    const id = `mock_${nanoid(12)}`;
+    const now = Date.now();
+
+    const shift: MockShift = {
+      ...params,
+      id,
+      createdAt: new Date(now).toISOString(),
+      createdAtMs: now,
+      depositAddress: fakeAddress(id, params.depositNetwork),
+      depositMemo: MOCK_COINS.find(coin => coin.coin === params.depositCoin)?.networksWithMemo?.includes(params.depositNetwork)
+        ? String(parseInt(fakeHash(id, 'memo').slice(2, 10), 16) % 1_000_000_000)
+        : undefined,
+      status: 'waiting',
+    };
+
+    store.shifts.set(id, shift);
+    console.log(`[MockSwap] Shift ${id}: ${shift.depositAmount || 'any'} ${shift.depositCoin} (${shift.type})`);
+
+    const { createdAtMs, rate, ...response } = shift;
+    return response;
+  }
+
+  private price(coin: string, network: string): number {
+    const known = MOCK_COINS.find(entry => entry.coin.toLowerCase() === coin.toLowerCase());
+    const price = MOCK_PRICES_USD[coin.toLowerCase()];
+
+    if (!known || !price || !known.networks.includes(network)) {
+      throw new SwapProviderError(`Invalid pair: ${coin.toUpperCase()} on ${network} is not supported`, 400);
+    }
+    return price;
+  }
+}
+
+function toAmount(value: number): string {
+  return value.toFixed(8).replace(/\.?0+$/, '');
+}
+
+function fakeHash(shiftId: string, purpose: string): string {
+  return '0x' + crypto.createHash('sha256').update(`${purpose}:${shiftId}`).digest('hex');
+}
+
+function fakeAddress(shiftId: string, network: string): string {
+  const hex = crypto.createHash('sha256').update(`address:${shiftId}`).digest('hex');
+
+  switch (network) {
+    case 'bitcoin':
+      return `bc1q${hex.slice(0, 38)}`;
+    case 'ripple':
+      return `r${hex.slice(0, 33)}`;
+    case 'solana':
+      return hex.slice(0, 44);
+    default:
+      return `0x${hex.slice(0, 40)}`;
+  }
+}
@@ -0,0 +1,118 @@
+import { EventEmitter } from 'events';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = await vi.hoisted(async () => {
+  const { modelMock } = await import('@/test/mocks');
+  return { PaymentOrder: modelMock('watch') };
+});
+
+vi.mock('@/lib/mongodb');
+vi.mock('@/models/PaymentOrder', () => ({ PaymentOrder: mocks.PaymentOrder }));
+
+import { sharePoller, subscribeToOrder } from '@/lib/order-events';
+
+function fakeChangeStream() {
+  return Object.assign(new EventEmitter(), { close: vi.fn().mockResolvedValue(undefined) });
+}
+
+describe('sharePoller', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs one poll per order, however many streams share it', async () => {
+    const poll = vi.fn().mockResolvedValue(undefined);
+    const releaseA = sharePoller('ord_1', 1000, poll);
+    const releaseB = sharePoller('ord_1', 1000, poll);
+
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(poll).toHaveBeenCalledTimes(3);
+
+    releaseA();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(poll).toHaveBeenCalledTimes(4);
+
+    releaseB();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(poll).toHaveBeenCalledTimes(4);
+  });
+
+  it('waits for a slow poll before scheduling the next', async () => {
+    let finish = () => {};
+    const poll = vi.fn(() => new Promise<void>(resolve => { finish = resolve; }));
+    const release = sharePoller('ord_1', 1000, poll);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(poll).toHaveBeenCalledTimes(1);
+
+    finish();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(poll).toHaveBeenCalledTimes(2);
+
+    // Released mid-poll: that poll finishes, nothing is scheduled after it
+    release();
+    finish();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(poll).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('subscribeToOrder change stream', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('projects the watched changes down to the event fields', async () => {
+    mocks.PaymentOrder.watch.mockReturnValue(fakeChangeStream());
+    const unsubscribe = subscribeToOrder('ord_1', () => {});
+    await vi.waitFor(() => expect(mocks.PaymentOrder.watch).toHaveBeenCalled());
+
+    const [pipeline] = mocks.PaymentOrder.watch.mock.calls[0];
+    const projection = pipeline.find((stage: any) => stage.$project).$project;
+    expect(projection).toMatchObject({ 'fullDocument.orderId': 1, 'fullDocument.status': 1 });
+    expect(projection).not.toHaveProperty('fullDocument.statusHistory');
+
+    unsubscribe();
+  });
+
+  it('delivers changes and closes the stream when the last subscriber leaves', async () => {
+    const stream = fakeChangeStream();
+    mocks.PaymentOrder.watch.mockReturnValue(stream);
+    const listener = vi.fn();
+
+    const unsubscribeA = subscribeToOrder('ord_1', listener);
+    const unsubscribeB = subscribeToOrder('ord_2', () => {});
+    await vi.waitFor(() => expect(mocks.PaymentOrder.watch).toHaveBeenCalledTimes(1));
+
+    stream.emit('change', { fullDocument: { orderId: 'ord_1', status: 'detecting', updatedAt: new Date() } });
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ orderId: 'ord_1', status: 'detecting' }));
+
+    unsubscribeA();
+    unsubscribeA();
+    expect(stream.close).not.toHaveBeenCalled();
+
+    unsubscribeB();
+    expect(stream.close).toHaveBeenCalledTimes(1);
+  });
+
+  it('closes a stream whose subscribers left while it was starting', async () => {
+    const stream = fakeChangeStream();
+    mocks.PaymentOrder.watch.mockReturnValue(stream);
+
+    subscribeToOrder('ord_1', () => {})();
+
+    await vi.waitFor(() => expect(stream.close).toHaveBeenCalledTimes(1));
+
+    // The next subscriber starts a new one
+    const next = fakeChangeStream();
+    mocks.PaymentOrder.watch.mockReturnValue(next);
+    const unsubscribe = subscribeToOrder('ord_1', () => {});
+    await vi.waitFor(() => expect(mocks.PaymentOrder.watch).toHaveBeenCalledTimes(2));
+    unsubscribe();
+    expect(next.close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,254 @@
+import { EventEmitter } from 'events';
+import { PaymentOrder, IPaymentOrder, PaymentStatus } from '@/models/PaymentOrder';
+import { connectDB } from '@/lib/mongodb';
+
+/**
+ * ORDER EVENT BUS
+ * Pushes order updates to live subscribers (the SSE route)
+ *
+ * - In-process: PaymentService publishes right after it commits a change,
+ *   so subscribers on the same instance hear about it immediately
+ * - Cross-instance: a MongoDB change stream on payment orders republishes
+ *   updates made elsewhere (webhook on another instance, cron). It only
+ *   passes on changes to the fields in OrderUpdateEvent, projected down to
+ *   those, and runs only while this process has subscribers. Change
+ *   streams need a replica set; on a standalone server only the in-process
+ *   path works and the SSE route's own polling covers the rest.
+ * - Polling: sharePoller() runs one provider poll per order per process,
+ *   however many streams watch it; its updates reach them through the bus.
+ *   The next poll is scheduled when the previous one finishes, so a slow
+ *   provider never has two polls of the same order in flight.
+ *
+ * Subscribers may see the same update twice (both paths) and should dedupe.
+ */
+
+export interface OrderUpdateEvent {
+  orderId: string;
+  status: PaymentStatus;
+  depositAddress?: string;
+  depositAmount?: string;
+  depositTxHash?: string;
+  settleTxHash?: string;
+  receivedAmount?: string;
+  updatedAt: string;
+}
+
+// Order fields that make up an OrderUpdateEvent (updatedAt changes with everything)
+const EVENT_FIELDS = [
+  'status', 'depositAddress', 'depositAmount', 'depositTxHash', 'settleTxHash', 'receivedAmount',
+] as const;
+
+type ChangeStreamState = 'idle' | 'starting' | 'active' | 'unavailable';
+
+interface OrderPoller {
+  subscribers: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  stopped: boolean;
+}
+
+interface OrderEventBus {
+  emitter: EventEmitter;
+  changeStream: ChangeStreamState;
+  stream: ReturnType<typeof PaymentOrder.watch> | null;
+  subscribers: number; // subscribeToOrder() listeners, across all orders
+  pollers: Map<string, OrderPoller>;
+}
+
+declare global {
+  var orderEventBus: OrderEventBus | undefined;
+}
+
+// Survives hot reloads in dev, one bus per server process
+const bus: OrderEventBus = global.orderEventBus || {
+  emitter: new EventEmitter().setMaxListeners(0),
+  changeStream: 'idle',
+  stream: null,
+  subscribers: 0,
+  pollers: new Map(),
+};
+
+if (!global.orderEventBus) {
+  global.orderEventBus = bus;
+}
+
+// Bus from before these fields existed (hot reload in dev)
+bus.pollers ||= new Map();
+bus.stream ||= null;
+bus.subscribers ||= 0;
+
+/**
+ * Publish an order's current state to its subscribers
+ */
+export function publishOrderUpdate(order: IPaymentOrder): void {
+  const event = toOrderUpdateEvent(order);
+  bus.emitter.emit(channel(event.orderId), event);
+}
+
+/**
+ * Listen for updates to one order
+ * Returns the unsubscribe function; the last one closes the change stream
+ */
+export function subscribeToOrder(
+  orderId: string,
+  listener: (event: OrderUpdateEvent) => void
+): () => void {
+  bus.emitter.on(channel(orderId), listener);
+  bus.subscribers++;
+  void ensureChangeStream();
+
+  let unsubscribed = false;
+  return () => {
+    if (unsubscribed) return;
+    unsubscribed = true;
+
+    bus.emitter.off(channel(orderId), listener);
+    if (--bus.subscribers === 0) {
+      closeChangeStream();
+    }
+  };
+}
+
+/**
+ * Poll an order every intervalMs while anyone holds the poller: the first
+ * caller starts it, later ones share it, the last release stops it
+ * Returns the release function
+ */
+export function sharePoller(
+  orderId: string,
+  intervalMs: number,
+  poll: () => Promise<unknown>
+): () => void {
+  let poller = bus.pollers.get(orderId);
+
+  if (!poller) {
+    const created: OrderPoller = { subscribers: 0, timer: null, stopped: false };
+    const schedule = () => {
+      created.timer = setTimeout(async () => {
+        created.timer = null;
+        try {
+          await poll();
+        } catch (error: any) {
+          console.error(`[OrderEvents ${orderId}] Poll error:`, error?.message);
+        }
+        if (!created.stopped) schedule();
+      }, intervalMs);
+    };
+
+    schedule();
+    poller = created;
+    bus.pollers.set(orderId, poller);
+  }
+
+  poller.subscribers++;
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+
+    const current = bus.pollers.get(orderId);
+    if (!current || --current.subscribers > 0) return;
+    // A poll in flight finishes but doesn't schedule another
+    current.stopped = true;
+    if (current.timer) clearTimeout(current.timer);
+    bus.pollers.delete(orderId);
+  };
+}
+
+export function toOrderUpdateEvent(order: Pick<IPaymentOrder,
+  'orderId' | 'status' | 'depositAddress' | 'depositAmount' | 'depositTxHash' |
+  'settleTxHash' | 'receivedAmount' | 'updatedAt'>): OrderUpdateEvent {
+  return {
+    orderId: order.orderId,
+    status: order.status,
+    depositAddress: order.depositAddress,
+    depositAmount: order.depositAmount,
+    depositTxHash: order.depositTxHash,
+    settleTxHash: order.settleTxHash,
+    receivedAmount: order.receivedAmount,
+    updatedAt: new Date(order.updatedAt).toISOString(),
+  };
+}
+
+function channel(orderId: string): string {
+  return `order:${orderId}`;
+}
+
+/**
+ * Start the change stream once per process (if the deployment supports it)
+ */
+async function ensureChangeStream(): Promise<void> {
+  if (bus.changeStream !== 'idle') return;
+  bus.changeStream = 'starting';
+
+  try {
+    await connectDB();
+
+    const stream = PaymentOrder.watch(
+      [
+        {
+          $match: {
+            $or: [
+              { operationType: 'replace' },
+              ...EVENT_FIELDS.map(field => ({
+                operationType: 'update',
+                [`updateDescription.updatedFields.${field}`]: { $exists: true },
+              })),
+            ],
+          },
+        },
+        // The looked-up document is trimmed server-side to what subscribers get
+        {
+          $project: {
+            operationType: 1,
+            'fullDocument.orderId': 1,
+            'fullDocument.updatedAt': 1,
+            ...Object.fromEntries(EVENT_FIELDS.map(field => [`fullDocument.${field}`, 1])),
+          },
+        },
+      ],
+      { fullDocument: 'updateLookup' }
+    );
+
+    stream.on('change', (change: any) => {
+      const order = change.fullDocument;
+      if (!order?.orderId) return;
+      bus.emitter.emit(channel(order.orderId), toOrderUpdateEvent(order));
+    });
+
+    stream.on('error', (error: any) => {
+      // Standalone servers reject $changeStream: don't try again
+      const unsupported = /replica set|\$changeStream/i.test(error?.message || '');
+      console.warn(`[OrderEvents] Change stream ${unsupported ? 'unavailable' : 'error'}: ${error?.message}`);
+      if (bus.stream === stream) {
+        bus.stream = null;
+        bus.changeStream = unsupported ? 'unavailable' : 'idle';
+      }
+      stream.close().catch(() => {});
+    });
+
+    bus.stream = stream;
+    bus.changeStream = 'active';
+
+    // Everyone unsubscribed while it was starting
+    if (bus.subscribers === 0) {
+      closeChangeStream();
+    }
+  } catch (error: any) {
+    console.warn(`[OrderEvents] Change stream unavailable: ${error?.message}`);
+    bus.changeStream = 'unavailable';
+  }
+}
+
+/**
+ * Stop watching until the next subscriber (a stream still starting closes
+ * itself once it's up)
+ */
+function closeChangeStream(): void {
+  const stream = bus.stream;
+  if (!stream) return;
+
+  bus.stream = null;
+  bus.changeStream = 'idle';
+  stream.close().catch(error => console.warn(`[OrderEvents] Change stream close failed: ${error?.message}`));
+}
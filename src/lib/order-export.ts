@@ -0,0 +1,110 @@
+import type { IPaymentOrder } from '@/models/PaymentOrder';
+
+/**
+ * ACCOUNTING EXPORT FORMATS
+ * One row per completed order:
+ * - csv: every accounting field, one column each
+ * - jsonl: the same fields as JSON, one object per line
+ * - bookkeeping: Date, Amount, Payee, Description, Reference: the generic
+ *   bank-statement CSV layout Xero and QuickBooks Online import (Amount is
+ *   the quoted USD value; map the columns when importing)
+ */
+
+export const EXPORT_FORMATS = ['csv', 'jsonl', 'bookkeeping'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export type ExportOrder = Pick<IPaymentOrder,
+  'orderId' | 'orderNumber' | 'merchantId' | 'paymentMode' | 'customerEmail' | 'totalUSD' |
+  'exchangeRate' | 'depositCoin' | 'depositNetwork' | 'depositAmount' | 'receivedAmount' |
+  'settleCoin' | 'settleNetwork' | 'settleAmount' | 'depositTxHash' | 'settleTxHash' |
+  'shiftId' | 'createdAt' | 'quotedAt' | 'completedAt'>;
+
+interface FormatDefinition {
+  contentType: string;
+  extension: string;
+  header?: string;
+  row(order: ExportOrder): string;
+}
+
+const ACCOUNTING_COLUMNS: Array<[string, (order: ExportOrder) => string | number | undefined]> = [
+  ['order_id', order => order.orderId],
+  ['order_number', order => order.orderNumber],
+  ['merchant_id', order => order.merchantId],
+  ['payment_mode', order => order.paymentMode],
+  ['customer_email', order => order.customerEmail],
+  ['quoted_usd', order => order.totalUSD],
+  ['exchange_rate', order => order.exchangeRate],
+  ['deposit_coin', order => order.depositCoin],
+  ['deposit_network', order => order.depositNetwork],
+  ['deposit_amount', order => order.receivedAmount || order.depositAmount],
+  ['settle_coin', order => order.settleCoin],
+  ['settle_network', order => order.settleNetwork],
+  ['settle_amount', order => order.settleAmount],
+  ['deposit_tx_hash', order => order.depositTxHash],
+  ['settle_tx_hash', order => order.settleTxHash],
+  ['shift_id', order => order.shiftId],
+  ['created_at', order => toISO(order.createdAt)],
+  ['quoted_at', order => toISO(order.quotedAt)],
+  ['completed_at', order => toISO(order.completedAt)],
+];
+
+const FORMATS: Record<ExportFormat, FormatDefinition> = {
+  csv: {
+    contentType: 'text/csv; charset=utf-8',
+    extension: 'csv',
+    header: csvLine(ACCOUNTING_COLUMNS.map(([name]) => name)),
+    row: order => csvLine(ACCOUNTING_COLUMNS.map(([, value]) => value(order))),
+  },
+
+  jsonl: {
+    contentType: 'application/x-ndjson; charset=utf-8',
+    extension: 'jsonl',
+    row: order => JSON.stringify(Object.fromEntries(
+      ACCOUNTING_COLUMNS.map(([name, value]) => [name, value(order) ?? null])
+    )) + '\n',
+  },
+
+  bookkeeping: {
+    contentType: 'text/csv; charset=utf-8',
+    extension: 'csv',
+    header: csvLine(['Date', 'Amount', 'Payee', 'Description', 'Reference']),
+    row: order => csvLine([
+      toISO(order.completedAt)?.slice(0, 10),
+      order.totalUSD.toFixed(2),
+      order.customerEmail,
+      `Crypto payment ${order.receivedAmount || order.depositAmount || ''} ${order.depositCoin.toUpperCase()} ` +
+        `settled ${order.settleAmount || ''} ${order.settleCoin.toUpperCase()} (${order.settleNetwork})`,
+      order.orderNumber,
+    ]),
+  },
+};
+
+export function getExportFormat(format: ExportFormat): FormatDefinition {
+  return FORMATS[format];
+}
+
+/**
+ * Download file name, e.g. orders-2024-01-01-to-2024-02-01.csv
+ */
+export function exportFileName(format: ExportFormat, from: Date, to: Date): string {
+  const suffix = format === 'bookkeeping' ? '-bookkeeping' : '';
+  return `orders-${from.toISOString().slice(0, 10)}-to-${to.toISOString().slice(0, 10)}${suffix}.${FORMATS[format].extension}`;
+}
+
+function toISO(date?: Date): string | undefined {
+  return date ? new Date(date).toISOString() : undefined;
+}
+
+function csvLine(values: Array<string | number | undefined>): string {
+  return values.map(csvField).join(',') + '\r\n';
+}
+
+function csvField(value: string | number | undefined): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'number') return String(value);
+
+  // Spreadsheets run cells starting with these as formulas
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
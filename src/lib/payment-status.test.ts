@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { PaymentStatus } from '@/models/PaymentOrder';
+import { STATUS_TRANSITIONS, canTransition, mapShiftStatus, isFinalStatus } from '@/lib/payment-status';
+
+const ALL_STATUSES = Object.keys(STATUS_TRANSITIONS) as PaymentStatus[];
+
+describe('STATUS_TRANSITIONS', () => {
+  it('moves an order forward through the shift lifecycle', () => {
+    expect(canTransition('pending', 'detecting')).toBe(true);
+    expect(canTransition('detecting', 'processing')).toBe(true);
+    expect(canTransition('processing', 'settling')).toBe(true);
+    expect(canTransition('settling', 'completed')).toBe(true);
+  });
+
+  it('rejects stale updates that would move an order backwards', () => {
+    expect(canTransition('settling', 'processing')).toBe(false);
+    expect(canTransition('completed', 'processing')).toBe(false);
+    expect(canTransition('detecting', 'pending')).toBe(false);
+  });
+
+  it('only revives an expired order for a late deposit, never back to pending', () => {
+    expect(canTransition('expired', 'pending')).toBe(false);
+    expect(canTransition('expired', 'detecting')).toBe(true);
+    expect(canTransition('expired', 'completed')).toBe(true);
+  });
+
+  it('keeps underpaid orders from completing', () => {
+    expect(canTransition('underpaid', 'completed')).toBe(false);
+    expect(canTransition('underpaid', 'refunded')).toBe(true);
+  });
+
+  it('lets every status except refunded be refunded, and nothing leave refunded', () => {
+    for (const status of ALL_STATUSES.filter(status => status !== 'refunded')) {
+      expect(canTransition(status, 'refunded')).toBe(true);
+    }
+    for (const status of ALL_STATUSES) {
+      expect(canTransition('refunded', status)).toBe(false);
+    }
+  });
+
+  it('never lists a self-transition', () => {
+    for (const status of ALL_STATUSES) {
+      expect(canTransition(status, status)).toBe(false);
+    }
+  });
+});
+
+describe('mapShiftStatus', () => {
+  it('maps SideShift statuses and leaves unknown ones undefined', () => {
+    expect(mapShiftStatus('waiting')).toBe('pending');
+    expect(mapShiftStatus('settled')).toBe('completed');
+    expect(mapShiftStatus('refund')).toBe('failed');
+    expect(mapShiftStatus('something-new')).toBeUndefined();
+  });
+});
+
+describe('isFinalStatus', () => {
+  it('treats completed, expired, failed and refunded as final', () => {
+    expect(ALL_STATUSES.filter(isFinalStatus).sort()).toEqual(['completed', 'expired', 'failed', 'refunded']);
+  });
+});
@@ -0,0 +1,76 @@
+import type { PaymentStatus } from '@/models/PaymentOrder';
+
+/**
+ * PAYMENT STATUS STATE MACHINE
+ * Single source of truth for status mapping and allowed transitions,
+ * shared by the webhook handler, polling and the payment monitor
+ */
+
+/**
+ * Who asked for a status change (recorded on rejected transitions)
+ */
+export type StatusUpdateSource = 'webhook' | 'poll' | 'monitor' | 'refund' | 'admin';
+
+/**
+ * SideShift shift status -> our PaymentStatus
+ */
+export const SIDESHIFT_STATUS_MAP: Record<string, PaymentStatus> = {
+  'waiting': 'pending',
+  'pending': 'detecting',
+  'processing': 'processing',
+  'settling': 'settling',
+  'settled': 'completed',
+  'refund': 'failed',
+  'refunded': 'refunded',
+  'expired': 'expired',
+};
+
+/**
+ * Map a SideShift status, or undefined if we don't know it
+ */
+export function mapShiftStatus(shiftStatus: string): PaymentStatus | undefined {
+  return SIDESHIFT_STATUS_MAP[shiftStatus];
+}
+
+/**
+ * Allowed transitions: from -> [to]
+ * Statuses only move forward; a late or out-of-order update
+ * (e.g. a poll returning `waiting` after `settling`) is rejected.
+ * 
+ * expired -> pending is deliberately missing: only an explicit re-quote
+ * (PaymentService.requotePayment) may revive an expired order, never a
+ * stale poll or webhook for the old shift. A deposit SideShift reports late
+ * for the order's current shift (sent just before the quote expired) may
+ * still move it on from expired, so the order follows the shift.
+ */
+export const STATUS_TRANSITIONS: Record<PaymentStatus, readonly PaymentStatus[]> = {
+  pending: ['detecting', 'processing', 'settling', 'completed', 'underpaid', 'overpaid', 'expired', 'failed', 'refunded'],
+  detecting: ['processing', 'settling', 'completed', 'underpaid', 'overpaid', 'failed', 'refunded'],
+  processing: ['settling', 'completed', 'underpaid', 'overpaid', 'failed', 'refunded'],
+  settling: ['completed', 'underpaid', 'failed', 'refunded'],
+  overpaid: ['processing', 'settling', 'completed', 'failed', 'refunded'],
+  underpaid: ['failed', 'refunded'],
+  completed: ['refunded'],
+  expired: ['detecting', 'processing', 'settling', 'completed', 'underpaid', 'overpaid', 'failed', 'refunded'],
+  failed: ['refunded'],
+  refunded: [],
+};
+
+/**
+ * SideShift will not move the payment any further from these
+ * (only our own refund flow can still act on them)
+ */
+export const FINAL_STATUSES: readonly PaymentStatus[] = ['completed', 'expired', 'failed', 'refunded'];
+
+/**
+ * Payment is in flight at SideShift (used to find stuck orders)
+ */
+export const IN_PROGRESS_STATUSES: readonly PaymentStatus[] = ['detecting', 'processing', 'settling', 'overpaid'];
+
+export function canTransition(from: PaymentStatus, to: PaymentStatus): boolean {
+  return STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function isFinalStatus(status: string): boolean {
+  return (FINAL_STATUSES as readonly string[]).includes(status);
+}
@@ -0,0 +1,137 @@
+/**
+ * RESILIENCE PRIMITIVES
+ * Small, dependency-free building blocks for outbound API clients:
+ * - backoffDelay: exponential backoff with full jitter
+ * - parseRetryAfter: Retry-After header (seconds or HTTP date) to ms
+ * - TokenBucket: client-side rate limiting
+ * - CircuitBreaker: stop calling a dependency that keeps failing
+ *
+ * State is per process (each server instance limits/trips on its own).
+ */
+
+/**
+ * Delay before retry `attempt` (1-based): random in [0, min(max, base * 2^(attempt-1))]
+ */
+export function backoffDelay(attempt: number, baseMs: number, maxMs: number): number {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Retry-After header in ms, or undefined if missing/unparseable
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Token bucket: `capacity` requests in a burst, refilled at `refillPerSecond`
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private capacity: number, private refillPerSecond: number) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * Take a token, waiting for one if needed
+   * Returns false (without taking) if that would mean waiting over maxWaitMs
+   */
+  async take(maxWaitMs: number): Promise<boolean> {
+    this.refill();
+
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return true;
+    }
+
+    const waitMs = ((1 - this.tokens) / this.refillPerSecond) * 1000;
+    if (waitMs > maxWaitMs) {
+      return false;
+    }
+
+    // Reserve the token now so concurrent callers queue behind us
+    this.tokens -= 1;
+    await new Promise(resolve => setTimeout(resolve, waitMs));
+    return true;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Circuit breaker
+ * - closed: requests flow; `failureThreshold` consecutive failures open it
+ * - open: requests fail fast for `cooldownMs`
+ * - half_open: one trial request; success closes, failure re-opens
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private failureThreshold: number, private cooldownMs: number) {}
+
+  /**
+   * Whether a request may go out now (claims the half-open trial if so)
+   */
+  allowRequest(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.cooldownMs) {
+      this.state = 'half_open';
+      this.trialInFlight = false;
+    }
+
+    if (this.state === 'closed') return true;
+
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * ms until an open circuit lets a trial request through (0 if not open)
+   */
+  retryAfterMs(): number {
+    return this.state === 'open' ? Math.max(0, this.cooldownMs - (Date.now() - this.openedAt)) : 0;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+}
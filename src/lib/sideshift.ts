@@ -1,5 +1,13 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
 import { z } from 'zod';
+import {
+  backoffDelay,
+  parseRetryAfter,
+  TokenBucket,
+  CircuitBreaker,
+  CircuitState,
+} from '@/lib/resilience';
+import { SwapProvider, SwapProviderError, SwapErrorCategory } from '@/lib/swap-provider';
 
 // Zod schemas for type safety and validation
 export const SupportedCoinSchema = z.object({
@@ -7,6 +15,27 @@ export const SupportedCoinSchema = z.object({
   networks: z.array(z.string()),
   name: z.string(),
   hasMemo: z.boolean().optional(),
+  networksWithMemo: z.array(z.string()).optional(),
+  // true = every network, array = those networks
+  depositOffline: z.union([z.boolean(), z.array(z.string())]).optional(),
+  settleOffline: z.union([z.boolean(), z.array(z.string())]).optional(),
+});
+
+// Missing flags are treated as allowed; the pair check still applies
+export const CoinPermissionsSchema = z.object({
+  deposit: z.boolean().default(true),
+  settle: z.boolean().default(true),
+});
+
+// Limits are in deposit coin units; rate is settle coin per deposit coin
+export const PairInfoSchema = z.object({
+  depositCoin: z.string(),
+  depositNetwork: z.string(),
+  settleCoin: z.string(),
+  settleNetwork: z.string(),
+  min: z.string(),
+  max: z.string(),
+  rate: z.string(),
 });
 
 export const QuoteRequestSchema = z.object({
@@ -37,6 +66,21 @@ export const FixedShiftRequestSchema = z.object({
   settleAddress: z.string(),
   affiliateId: z.string(),
   refundAddress: z.string().optional(),
+  refundMemo: z.string().optional(),
+  settleMemo: z.string().optional(),
+  commissionRate: z.number().optional(),
+});
+
+export const VariableShiftRequestSchema = z.object({
+  settleAddress: z.string(),
+  affiliateId: z.string(),
+  depositCoin: z.string(),
+  depositNetwork: z.string(),
+  settleCoin: z.string(),
+  settleNetwork: z.string(),
+  refundAddress: z.string().optional(),
+  refundMemo: z.string().optional(),
+  settleMemo: z.string().optional(),
   commissionRate: z.number().optional(),
 });
 
@@ -46,6 +90,7 @@ export const ShiftResponseSchema = z.object({
   depositCoin: z.string(),
   depositNetwork: z.string(),
   depositAddress: z.string(),
+  depositMemo: z.string().optional(), // Required with the address on memo networks
   depositMin: z.string().optional(),
   depositMax: z.string().optional(),
   settleCoin: z.string(),
@@ -85,20 +130,51 @@ export const ShiftStatusSchema = z.object({
 });
 
 export type SupportedCoin = z.infer<typeof SupportedCoinSchema>;
+export type CoinPermissions = z.infer<typeof CoinPermissionsSchema>;
+export type PairInfo = z.infer<typeof PairInfoSchema>;
 export type QuoteRequest = z.infer<typeof QuoteRequestSchema>;
 export type QuoteResponse = z.infer<typeof QuoteResponseSchema>;
 export type FixedShiftRequest = z.infer<typeof FixedShiftRequestSchema>;
+export type VariableShiftRequest = z.infer<typeof VariableShiftRequestSchema>;
 export type ShiftResponse = z.infer<typeof ShiftResponseSchema>;
 export type ShiftStatus = z.infer<typeof ShiftStatusSchema>;
 
+const DEFAULT_API_URL = 'https://sideshift.ai/api/v2';
+
+// Resilience defaults (override via env, see .env.example)
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_MAX_RETRIES = 3; // GETs (and 429s) are retried up to this many times
+const RETRY_BASE_MS = 250;
+const RETRY_MAX_DELAY_MS = 5000;
+const MAX_RETRY_AFTER_MS = 10000; // A longer Retry-After fails instead of holding the request
+const DEFAULT_RATE_LIMIT_PER_SECOND = 5;
+const DEFAULT_RATE_LIMIT_BURST = 10;
+const RATE_LIMIT_MAX_WAIT_MS = 2000;
+const DEFAULT_CIRCUIT_THRESHOLD = 5;
+const DEFAULT_CIRCUIT_COOLDOWN_SECONDS = 30;
+
 /**
  * SideShift API Client
- * Production-ready with retry logic, error handling, and rate limiting
+ *
+ * Resilience (per server process):
+ * - Timeout per attempt (SIDESHIFT_TIMEOUT_MS)
+ * - GETs are retried on retryable errors (timeouts, network errors, 5xx, 429)
+ *   with jittered exponential backoff; POSTs only on 429, which SideShift
+ *   rejects before doing anything. 429 Retry-After is honored.
+ * - Token bucket rate limit (SIDESHIFT_RATE_LIMIT_PER_SECOND / _BURST)
+ * - Circuit breaker: after SIDESHIFT_CIRCUIT_THRESHOLD consecutive
+ *   outage-type failures every call fails fast with category `circuit_open`
+ *   for SIDESHIFT_CIRCUIT_COOLDOWN_SECONDS, then one trial call is let through
  */
-export class SideShiftClient {
+export class SideShiftClient implements SwapProvider {
+  readonly name = 'sideshift';
+  readonly displayName = 'SideShift';
   private client: AxiosInstance;
   private secret: string;
   private affiliateId: string;
+  private maxRetries: number;
+  private rateLimiter: TokenBucket;
+  private circuit: CircuitBreaker;
 
   constructor(secret?: string, affiliateId?: string) {
     this.secret = secret || process.env.SIDESHIFT_SECRET || '';
@@ -108,9 +184,19 @@ export class SideShiftClient {
       throw new Error('SideShift secret is required');
     }
 
+    this.maxRetries = envInt('SIDESHIFT_MAX_RETRIES', DEFAULT_MAX_RETRIES);
+    this.rateLimiter = new TokenBucket(
+      envInt('SIDESHIFT_RATE_LIMIT_BURST', DEFAULT_RATE_LIMIT_BURST),
+      envInt('SIDESHIFT_RATE_LIMIT_PER_SECOND', DEFAULT_RATE_LIMIT_PER_SECOND)
+    );
+    this.circuit = new CircuitBreaker(
+      envInt('SIDESHIFT_CIRCUIT_THRESHOLD', DEFAULT_CIRCUIT_THRESHOLD),
+      envInt('SIDESHIFT_CIRCUIT_COOLDOWN_SECONDS', DEFAULT_CIRCUIT_COOLDOWN_SECONDS) * 1000
+    );
+
     this.client = axios.create({
-      baseURL: 'https://sideshift.ai/api/v2',
-      timeout: 30000,
+      baseURL: process.env.SIDESHIFT_API_URL || DEFAULT_API_URL, // e.g. the local simulator
+      timeout: envInt('SIDESHIFT_TIMEOUT_MS', DEFAULT_TIMEOUT_MS),
       headers: {
         'Content-Type': 'application/json',
         'x-sideshift-secret': this.secret,
@@ -125,36 +211,121 @@ export class SideShiftClient {
           // API returned error response
           const errorData = error.response.data;
           throw new SideShiftAPIError(
-            errorData.error?.message || 'SideShift API error',
+            errorData?.error?.message || 'SideShift API error',
             error.response.status,
-            errorData
+            errorData,
+            undefined,
+            parseRetryAfter(error.response.headers?.['retry-after'])
           );
+        } else if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+          throw new SideShiftAPIError('SideShift API timed out', 0, undefined, 'timeout');
         } else if (error.request) {
           // Request made but no response
-          throw new SideShiftAPIError('No response from SideShift API', 0);
+          throw new SideShiftAPIError('No response from SideShift API', 0, undefined, 'network');
         } else {
           // Something else happened
-          throw new SideShiftAPIError(error.message, 0);
+          throw new SideShiftAPIError(error.message, 0, undefined, 'unknown');
         }
       }
     );
   }
 
+  /**
+   * Current circuit breaker state (for health checks)
+   */
+  getCircuitState(): CircuitState {
+    return this.circuit.getState();
+  }
+
+  /**
+   * Send a request through the rate limiter, circuit breaker and retry loop
+   */
+  private async request<T = any>(config: AxiosRequestConfig & { method: 'get' | 'post' }): Promise<AxiosResponse<T>> {
+    const idempotent = config.method === 'get';
+
+    for (let attempt = 1; ; attempt++) {
+      if (!(await this.rateLimiter.take(RATE_LIMIT_MAX_WAIT_MS))) {
+        throw new SideShiftAPIError('SideShift client rate limit exceeded', 429, undefined, 'rate_limited');
+      }
+
+      if (!this.circuit.allowRequest()) {
+        throw new SideShiftAPIError(
+          'SideShift is temporarily unavailable',
+          503,
+          undefined,
+          'circuit_open',
+          this.circuit.retryAfterMs()
+        );
+      }
+
+      try {
+        const response = await this.client.request<T>(config);
+        this.circuit.recordSuccess();
+        return response;
+      } catch (error: any) {
+        const apiError = error instanceof SideShiftAPIError
+          ? error
+          : new SideShiftAPIError(error.message, 0, undefined, 'unknown');
+
+        // Only outages count against the circuit; a 4xx means SideShift is up
+        if (isOutage(apiError.category)) {
+          this.circuit.recordFailure();
+        } else {
+          this.circuit.recordSuccess();
+        }
+
+        const canRetry = apiError.retryable &&
+          attempt <= this.maxRetries &&
+          (idempotent || apiError.category === 'rate_limited');
+        if (!canRetry) {
+          throw apiError;
+        }
+
+        const backoff = backoffDelay(attempt, RETRY_BASE_MS, RETRY_MAX_DELAY_MS);
+        const delay = Math.max(backoff, apiError.retryAfterMs ?? 0);
+        if (delay > MAX_RETRY_AFTER_MS) {
+          throw apiError;
+        }
+
+        console.warn(
+          `[SideShift] ${config.method.toUpperCase()} ${config.url} failed (${apiError.category}: ${apiError.message}), ` +
+          `retry ${attempt}/${this.maxRetries} in ${delay}ms`
+        );
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
   /**
    * Get list of supported coins and networks
    */
   async getSupportedCoins(): Promise<SupportedCoin[]> {
-    const response = await this.client.get('/coins');
+    const response = await this.request({ method: 'get', url: '/coins' });
     return response.data;
   }
 
   /**
-   * Get permissions for a specific coin on a network
-   * Use this to check if a coin/network combo is available
+   * Get whether a coin on a network can be deposited / settled right now
    */
-  async getCoinPermissions(coin: string, network: string) {
-    const response = await this.client.get(`/coins/${coin}/networks/${network}/permissions`);
-    return response.data;
+  async getCoinPermissions(coin: string, network: string): Promise<CoinPermissions> {
+    const response = await this.request({ method: 'get', url: `/coins/${coin}/networks/${network}/permissions` });
+    return CoinPermissionsSchema.parse(response.data);
+  }
+
+  /**
+   * Get deposit limits and rate for a pair
+   * Fails with invalid_request/not_found if SideShift doesn't allow the pair
+   */
+  async getPairInfo(
+    depositCoin: string,
+    depositNetwork: string,
+    settleCoin: string,
+    settleNetwork: string
+  ): Promise<PairInfo> {
+    const from = `${depositCoin}-${depositNetwork}`;
+    const to = `${settleCoin}-${settleNetwork}`;
+    const response = await this.request({ method: 'get', url: `/pair/${from}/${to}` });
+    return PairInfoSchema.parse(response.data);
   }
 
   /**
@@ -173,7 +344,7 @@ export class SideShiftClient {
       throw new Error('Must specify either depositAmount or settleAmount');
     }
 
-    const response = await this.client.post('/quotes', params);
+    const response = await this.request({ method: 'post', url: '/quotes', data: params });
     return QuoteResponseSchema.parse(response.data);
   }
 
@@ -184,7 +355,19 @@ export class SideShiftClient {
   async createFixedShift(params: FixedShiftRequest): Promise<ShiftResponse> {
     FixedShiftRequestSchema.parse(params);
 
-    const response = await this.client.post('/shifts/fixed', params);
+    const response = await this.request({ method: 'post', url: '/shifts/fixed', data: params });
+    return ShiftResponseSchema.parse(response.data);
+  }
+
+  /**
+   * Create a variable-rate shift (no quote, no fixed amount)
+   * The customer may send any amount between depositMin and depositMax;
+   * the settle amount is only known once SideShift reports it
+   */
+  async createVariableShift(params: VariableShiftRequest): Promise<ShiftResponse> {
+    VariableShiftRequestSchema.parse(params);
+
+    const response = await this.request({ method: 'post', url: '/shifts/variable', data: params });
     return ShiftResponseSchema.parse(response.data);
   }
 
@@ -193,7 +376,7 @@ export class SideShiftClient {
    * Poll this to monitor payment progress
    */
   async getShiftStatus(shiftId: string): Promise<ShiftStatus> {
-    const response = await this.client.get(`/shifts/${shiftId}`);
+    const response = await this.request({ method: 'get', url: `/shifts/${shiftId}` });
     return ShiftStatusSchema.parse(response.data);
   }
 
@@ -201,7 +384,7 @@ export class SideShiftClient {
    * Get affiliate stats (for your dashboard)
    */
   async getAffiliateStats() {
-    const response = await this.client.get(`/affiliates/${this.affiliateId}/stats`);
+    const response = await this.request({ method: 'get', url: `/affiliates/${this.affiliateId}/stats` });
     return response.data;
   }
 
@@ -236,19 +419,33 @@ export class SideShiftClient {
 }
 
 /**
- * Custom error class for SideShift API errors
+ * SideShift API error (category/retryable: see SwapProviderError)
  */
-export class SideShiftAPIError extends Error {
+export class SideShiftAPIError extends SwapProviderError {
   constructor(
     message: string,
-    public statusCode: number,
-    public data?: any
+    statusCode: number,
+    data?: any,
+    category?: SwapErrorCategory,
+    retryAfterMs?: number
   ) {
-    super(message);
+    super(message, statusCode, data, category, retryAfterMs);
     this.name = 'SideShiftAPIError';
   }
 }
 
+/**
+ * Failures that suggest SideShift itself is down (trip the circuit breaker)
+ */
+function isOutage(category: SwapErrorCategory): boolean {
+  return category === 'unavailable' || category === 'timeout' || category === 'network';
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return isNaN(value) ? fallback : value;
+}
+
 // Singleton instance
 let sideShiftClient: SideShiftClient | null = null;
 
@@ -0,0 +1,208 @@
+/**
+ * SWAP PROVIDER
+ * What the payment flow needs from a swap service (SideShift today), so
+ * services don't depend on one provider's client or schemas:
+ * - coins: what can be deposited, on which networks
+ * - pair: whether a pair is allowed (permissions) and its deposit limits
+ * - quote + fixed shift, variable shift: a deposit address for an order
+ * - shift status: polled until the shift settles
+ *
+ * Implementations: SideShiftClient (lib/sideshift.ts) and MockSwapProvider
+ * (lib/mock-swap-provider.ts); see getSwapProvider in lib/swap-providers.ts.
+ * Amounts are decimal strings in coin units, timestamps ISO strings.
+ */
+
+export interface SwapCoin {
+  coin: string;
+  name: string;
+  networks: string[];
+  hasMemo?: boolean;
+  networksWithMemo?: string[];
+  // true = every network, array = those networks
+  depositOffline?: boolean | string[];
+  settleOffline?: boolean | string[];
+}
+
+// Whether a coin on a network can currently be deposited / settled
+export interface SwapCoinPermissions {
+  deposit: boolean;
+  settle: boolean;
+}
+
+// Limits are in deposit coin units; rate is settle coin per deposit coin
+export interface SwapPair {
+  depositCoin: string;
+  depositNetwork: string;
+  settleCoin: string;
+  settleNetwork: string;
+  min: string;
+  max: string;
+  rate: string;
+}
+
+export interface SwapQuoteRequest {
+  depositCoin: string;
+  depositNetwork: string;
+  settleCoin: string;
+  settleNetwork: string;
+  depositAmount?: string; // Exactly one of depositAmount / settleAmount
+  settleAmount?: string;
+  affiliateId: string;
+}
+
+export interface SwapQuote {
+  id: string;
+  createdAt: string;
+  depositCoin: string;
+  depositNetwork: string;
+  settleCoin: string;
+  settleNetwork: string;
+  depositAmount: string;
+  settleAmount: string;
+  expiresAt: string;
+  rate: string;
+}
+
+export interface SwapFixedShiftRequest {
+  quoteId: string;
+  settleAddress: string;
+  affiliateId: string;
+  refundAddress?: string;
+  refundMemo?: string;
+  settleMemo?: string;
+  commissionRate?: number;
+}
+
+export interface SwapVariableShiftRequest {
+  settleAddress: string;
+  affiliateId: string;
+  depositCoin: string;
+  depositNetwork: string;
+  settleCoin: string;
+  settleNetwork: string;
+  refundAddress?: string;
+  refundMemo?: string;
+  settleMemo?: string;
+  commissionRate?: number;
+}
+
+export interface SwapShift {
+  id: string;
+  createdAt: string;
+  depositCoin: string;
+  depositNetwork: string;
+  depositAddress: string;
+  depositMemo?: string; // Required with the address on memo networks
+  depositMin?: string;
+  depositMax?: string;
+  settleCoin: string;
+  settleNetwork: string;
+  settleAddress: string;
+  depositAmount?: string;
+  settleAmount?: string;
+  expiresAt: string;
+  status: string;
+  type: 'fixed' | 'variable';
+}
+
+// Shift lifecycle, mapped to order statuses by lib/payment-status.ts
+export type SwapShiftState =
+  | 'waiting'
+  | 'pending'
+  | 'processing'
+  | 'settling'
+  | 'settled'
+  | 'refund'
+  | 'refunded'
+  | 'expired';
+
+export interface SwapShiftStatus {
+  id: string;
+  status: SwapShiftState;
+  depositCoin: string;
+  depositNetwork: string;
+  depositAddress: string;
+  depositAmount?: string;
+  depositHash?: string;
+  settleCoin: string;
+  settleNetwork: string;
+  settleAddress: string;
+  settleAmount?: string;
+  settleHash?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface SwapProvider {
+  readonly name: string; // Stored on each order (PaymentOrder.provider)
+  readonly displayName: string; // For logs and status notes
+
+  getSupportedCoins(): Promise<SwapCoin[]>;
+  getCoinPermissions(coin: string, network: string): Promise<SwapCoinPermissions>;
+  getPairInfo(depositCoin: string, depositNetwork: string, settleCoin: string, settleNetwork: string): Promise<SwapPair>;
+  requestQuote(params: SwapQuoteRequest): Promise<SwapQuote>;
+  createFixedShift(params: SwapFixedShiftRequest): Promise<SwapShift>;
+  createVariableShift(params: SwapVariableShiftRequest): Promise<SwapShift>;
+  getShiftStatus(shiftId: string): Promise<SwapShiftStatus>;
+  getAffiliateStats(): Promise<unknown>; // Provider-specific shape (reconciliation)
+}
+
+/**
+ * What went wrong, so callers can tell transient failures from permanent ones
+ * - rate_limited: 429 from the provider or our own client-side limit
+ * - unavailable: provider 5xx
+ * - timeout / network: no (timely) response
+ * - circuit_open: recent outage, failing fast without calling the provider
+ * - invalid_request: 400/422, fix the request
+ * - unauthorized: 401/403, check credentials / permissions
+ * - not_found: 404 (unknown shift, quote, coin...)
+ */
+export type SwapErrorCategory =
+  | 'rate_limited'
+  | 'unavailable'
+  | 'timeout'
+  | 'network'
+  | 'circuit_open'
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'not_found'
+  | 'unknown';
+
+const RETRYABLE_CATEGORIES: SwapErrorCategory[] = [
+  'rate_limited', 'unavailable', 'timeout', 'network', 'circuit_open',
+];
+
+/**
+ * Error from a swap provider's API (SideShiftAPIError extends it)
+ */
+export class SwapProviderError extends Error {
+  public category: SwapErrorCategory;
+
+  constructor(
+    message: string,
+    public statusCode: number,
+    public data?: any,
+    category?: SwapErrorCategory,
+    public retryAfterMs?: number // From Retry-After, or until the circuit half-opens
+  ) {
+    super(message);
+    this.name = 'SwapProviderError';
+    this.category = category || categorizeStatus(statusCode);
+  }
+
+  /**
+   * Transient: the same request may succeed later
+   */
+  get retryable(): boolean {
+    return RETRYABLE_CATEGORIES.includes(this.category);
+  }
+}
+
+function categorizeStatus(statusCode: number): SwapErrorCategory {
+  if (statusCode === 429) return 'rate_limited';
+  if (statusCode === 401 || statusCode === 403) return 'unauthorized';
+  if (statusCode === 404) return 'not_found';
+  if (statusCode >= 500) return 'unavailable';
+  if (statusCode >= 400) return 'invalid_request';
+  return 'unknown';
+}
@@ -0,0 +1,44 @@
+import { SwapProvider } from '@/lib/swap-provider';
+import { getSideShiftClient } from '@/lib/sideshift';
+import { MockSwapProvider } from '@/lib/mock-swap-provider';
+
+/**
+ * SWAP PROVIDERS
+ * New orders use the provider picked by SWAP_PROVIDER:
+ * - sideshift: SideShift API (default)
+ * - mock: in-process simulation for offline development and demos
+ *
+ * Each order stores its provider's name, and everything after creation
+ * (polling, re-quotes, refunds, reconciliation) goes back to that provider,
+ * so switching SWAP_PROVIDER never strands existing orders.
+ */
+
+export const SWAP_PROVIDER_NAMES = ['sideshift', 'mock'] as const;
+export type SwapProviderName = typeof SWAP_PROVIDER_NAMES[number];
+
+// Orders from before providers were recorded are SideShift orders
+export const LEGACY_SWAP_PROVIDER: SwapProviderName = 'sideshift';
+
+let mockProvider: MockSwapProvider | null = null;
+
+/**
+ * Provider by name (an order's `provider`), or the configured one for new orders
+ */
+export function getSwapProvider(name?: string): SwapProvider {
+  const providerName = name || process.env.SWAP_PROVIDER || 'sideshift';
+
+  switch (providerName) {
+    case 'sideshift':
+      return getSideShiftClient();
+    case 'mock':
+      if (process.env.NODE_ENV === 'production' && process.env.ALLOW_MOCK_SWAP_PROVIDER !== 'true') {
+        throw new Error('The mock swap provider is disabled in production (set ALLOW_MOCK_SWAP_PROVIDER=true to override)');
+      }
+      if (!mockProvider) {
+        mockProvider = new MockSwapProvider();
+      }
+      return mockProvider;
+    default:
+      throw new Error(`Unknown swap provider "${providerName}" (expected one of: ${SWAP_PROVIDER_NAMES.join(', ')})`);
+  }
+}
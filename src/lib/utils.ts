@@ -41,6 +41,7 @@ export function shortenAddress(address: string, chars: number = 4): string {
 export function getExplorerUrl(txHash: string, network: string): string {
   const explorers: Record<string, string> = {
     mainnet: `https://etherscan.io/tx/${txHash}`,
+    ethereum: `https://etherscan.io/tx/${txHash}`,
     arbitrum: `https://arbiscan.io/tx/${txHash}`,
     optimism: `https://optimistic.etherscan.io/tx/${txHash}`,
     polygon: `https://polygonscan.com/tx/${txHash}`,
@@ -92,6 +93,7 @@ export function formatTimestamp(date: Date | string): string {
 export function getNetworkName(network: string): string {
   const names: Record<string, string> = {
     mainnet: 'Ethereum',
+    ethereum: 'Ethereum',
     arbitrum: 'Arbitrum',
     optimism: 'Optimism',
     polygon: 'Polygon',
@@ -101,7 +103,7 @@ export function getNetworkName(network: string): string {
     solana: 'Solana',
   };
 
-  return names[network] || network;
+  return names[network] || network.charAt(0).toUpperCase() + network.slice(1);
 }
 
 /**
@@ -147,11 +149,18 @@ export function isMobile(): boolean {
 }
 
 /**
- * Generate wallet deep link
+ * Generate wallet deep link (also the QR payload)
+ * Memo networks carry the memo too: xrp:address?dt=123 (destination tag), else ?memo=X
  */
-export function getWalletDeepLink(coin: string, address: string, amount?: string): string {
-  const baseLink = `${coin}:${address}`;
-  return amount ? `${baseLink}?amount=${amount}` : baseLink;
+export function getWalletDeepLink(coin: string, address: string, amount?: string, memo?: string): string {
+  const baseLink = `${coin.toLowerCase()}:${address}`;
+  const query = new URLSearchParams();
+
+  if (amount) query.set('amount', amount);
+  if (memo) query.set(coin.toLowerCase() === 'xrp' ? 'dt' : 'memo', memo);
+
+  const queryString = query.toString();
+  return queryString ? `${baseLink}?${queryString}` : baseLink;
 }
 
 /**
@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  verifyWebhookRequest,
+  signWebhookPayload,
+  sanitizeWebhookHeaders,
+  getRequestIP,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  NONCE_HEADER,
+  SECRET_HEADER,
+} from '@/lib/webhook-security';
+
+const SECRET = 'whsec_test';
+const URL_BASE = 'https://pay.example.com/api/webhooks/sideshift';
+const BODY = JSON.stringify({ meta: { hook: true }, payload: { shiftId: 'abc', status: 'settled' } });
+
+function now(): string {
+  return String(Math.floor(Date.now() / 1000));
+}
+
+function signedHeaders(body = BODY, timestamp = now(), extra: Record<string, string> = {}): Headers {
+  return new Headers({
+    [TIMESTAMP_HEADER]: timestamp,
+    [SIGNATURE_HEADER]: signWebhookPayload(SECRET, timestamp, body),
+    'x-forwarded-for': '203.0.113.7',
+    ...extra,
+  });
+}
+
+describe('verifyWebhookRequest', () => {
+  beforeEach(() => {
+    vi.stubEnv('WEBHOOK_SECRET', SECRET);
+    vi.stubEnv('WEBHOOK_ALLOWED_IPS', '');
+    vi.stubEnv('WEBHOOK_ALLOW_QUERY_SECRET', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('accepts a valid signature', () => {
+    const result = verifyWebhookRequest(signedHeaders(), BODY, URL_BASE);
+    expect(result).toMatchObject({ ok: true, method: 'signature' });
+  });
+
+  it('rejects a signature over a different body', () => {
+    const headers = signedHeaders(BODY.replace('settled', 'refunded'));
+    expect(verifyWebhookRequest(headers, BODY, URL_BASE)).toEqual({ ok: false, reason: 'Invalid signature' });
+  });
+
+  it('rejects a signature without a timestamp', () => {
+    const headers = signedHeaders();
+    headers.delete(TIMESTAMP_HEADER);
+    expect(verifyWebhookRequest(headers, BODY, URL_BASE)).toMatchObject({ ok: false });
+  });
+
+  it('rejects a timestamp outside the tolerance window', () => {
+    vi.stubEnv('WEBHOOK_TOLERANCE_SECONDS', '300');
+    const stale = String(Math.floor(Date.now() / 1000) - 301);
+    const result = verifyWebhookRequest(signedHeaders(BODY, stale), BODY, URL_BASE);
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.reason).toMatch(/tolerance/);
+  });
+
+  it('requires a timestamp with the shared-secret header', () => {
+    const withoutTimestamp = new Headers({ [SECRET_HEADER]: SECRET });
+    expect(verifyWebhookRequest(withoutTimestamp, BODY, URL_BASE)).toMatchObject({ ok: false });
+
+    const withTimestamp = new Headers({ [SECRET_HEADER]: SECRET, [TIMESTAMP_HEADER]: now() });
+    expect(verifyWebhookRequest(withTimestamp, BODY, URL_BASE)).toMatchObject({ ok: true, method: 'shared_secret' });
+  });
+
+  it('ignores ?secret= when WEBHOOK_ALLOW_QUERY_SECRET=false', () => {
+    const url = `${URL_BASE}?secret=${SECRET}`;
+    const headers = () => new Headers({ [TIMESTAMP_HEADER]: now() });
+    expect(verifyWebhookRequest(headers(), BODY, url)).toMatchObject({ ok: true });
+
+    vi.stubEnv('WEBHOOK_ALLOW_QUERY_SECRET', 'false');
+    expect(verifyWebhookRequest(headers(), BODY, url)).toMatchObject({ ok: false });
+  });
+
+  it('requires a timestamp with ?secret= too', () => {
+    const url = `${URL_BASE}?secret=${SECRET}`;
+    expect(verifyWebhookRequest(new Headers(), BODY, url)).toEqual({ ok: false, reason: 'Missing timestamp' });
+
+    const stale = String(Math.floor(Date.now() / 1000) - 3600);
+    expect(verifyWebhookRequest(new Headers({ [TIMESTAMP_HEADER]: stale }), BODY, url)).toMatchObject({ ok: false });
+  });
+
+  it('enforces the IP allowlist on the trusted X-Forwarded-For entry', () => {
+    vi.stubEnv('WEBHOOK_ALLOWED_IPS', '203.0.113.0/24');
+    expect(verifyWebhookRequest(signedHeaders(), BODY, URL_BASE)).toMatchObject({ ok: true });
+
+    // A spoofed leftmost entry doesn't get past the allowlist
+    const spoofed = signedHeaders(BODY, now(), { 'x-forwarded-for': '203.0.113.7, 198.51.100.9' });
+    expect(verifyWebhookRequest(spoofed, BODY, URL_BASE)).toMatchObject({ ok: false });
+  });
+
+  describe('replay nonce', () => {
+    it('is the same for a re-sent request, so the unique insert rejects it', () => {
+      const timestamp = now();
+      const first = verifyWebhookRequest(signedHeaders(BODY, timestamp), BODY, URL_BASE);
+      const replay = verifyWebhookRequest(signedHeaders(BODY, timestamp), BODY, URL_BASE);
+
+      expect(first.ok && replay.ok).toBe(true);
+      expect(first.ok && first.nonce).toBe(replay.ok && replay.nonce);
+    });
+
+    it('ignores a nonce header, so a captured webhook cannot be replayed with a fresh one', () => {
+      const timestamp = now();
+      const first = verifyWebhookRequest(signedHeaders(BODY, timestamp, { [NONCE_HEADER]: 'n-1' }), BODY, URL_BASE);
+      const replay = verifyWebhookRequest(signedHeaders(BODY, timestamp, { [NONCE_HEADER]: 'n-2' }), BODY, URL_BASE);
+
+      expect(first.ok && first.nonce).not.toBe('n-1');
+      expect(first.ok && first.nonce).toBe(replay.ok && replay.nonce);
+    });
+
+    it('is derived from timestamp and body for query-secret webhooks', () => {
+      const url = `${URL_BASE}?secret=${SECRET}`;
+      const timestamp = now();
+      const headers = () => new Headers({ [TIMESTAMP_HEADER]: timestamp });
+      const first = verifyWebhookRequest(headers(), BODY, url);
+      const other = verifyWebhookRequest(headers(), BODY.replace('abc', 'def'), url);
+
+      expect(first).toEqual(verifyWebhookRequest(headers(), BODY, url));
+      expect(first.ok && first.nonce).not.toBe(other.ok && other.nonce);
+    });
+  });
+});
+
+describe('getRequestIP', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('takes TRUSTED_PROXY_HOPS entries from the right', () => {
+    const headers = new Headers({ 'x-forwarded-for': '1.1.1.1, 2.2.2.2, 3.3.3.3' });
+    expect(getRequestIP(headers)).toBe('3.3.3.3');
+
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '2');
+    expect(getRequestIP(headers)).toBe('2.2.2.2');
+  });
+});
+
+describe('sanitizeWebhookHeaders', () => {
+  it('drops credentials and keeps the rest', () => {
+    const sanitized = sanitizeWebhookHeaders(new Headers({
+      [SECRET_HEADER]: SECRET,
+      [SIGNATURE_HEADER]: 'sig',
+      authorization: 'Bearer x',
+      cookie: 'a=b',
+      'content-type': 'application/json',
+    }));
+
+    expect(sanitized).toEqual({ 'content-type': 'application/json' });
+  });
+});
@@ -0,0 +1,199 @@
+import crypto from 'crypto';
+
+/**
+ * WEBHOOK SECURITY
+ * Authenticity checks for inbound SideShift webhooks
+ *
+ * A webhook is accepted when ALL of these pass:
+ * 1. Source IP is in WEBHOOK_ALLOWED_IPS (if configured)
+ * 2. Either an HMAC signature (x-webhook-signature) or the shared secret
+ *    (x-webhook-secret header or ?secret= query param) matches WEBHOOK_SECRET
+ * 3. The timestamp (x-webhook-timestamp) is present and inside the
+ *    tolerance window, whichever method authenticated the request
+ * 4. The nonce has not been seen before (enforced by the caller on insert).
+ *    It is derived from what was authenticated (the signature, else a hash
+ *    of timestamp + body), never taken from a header: an unsigned nonce
+ *    header would let a captured webhook be replayed with a fresh one.
+ *
+ * ?secret= exists for senders that can only be given a URL (they still have
+ * to send the timestamp header). The secret ends up in proxy/access logs:
+ * prefer the headers, and set WEBHOOK_ALLOW_QUERY_SECRET=false once nothing
+ * uses the URL form.
+ */
+
+export const SIGNATURE_HEADER = 'x-webhook-signature';
+export const TIMESTAMP_HEADER = 'x-webhook-timestamp';
+export const NONCE_HEADER = 'x-webhook-nonce'; // Outbound (merchant webhooks) only, see above
+export const SECRET_HEADER = 'x-webhook-secret';
+
+// Never stored with webhook events (credentials)
+const REDACTED_HEADERS = [SIGNATURE_HEADER, SECRET_HEADER, 'authorization', 'proxy-authorization', 'cookie'];
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export type WebhookVerificationResult =
+  | { ok: true; nonce: string; method: 'signature' | 'shared_secret' }
+  | { ok: false; reason: string };
+
+/**
+ * Get the client IP from proxy headers
+ * X-Forwarded-For entries left of our own proxies are whatever the client
+ * sent, so the IP is taken TRUSTED_PROXY_HOPS entries from the right
+ * (default 1: the address our reverse proxy / platform saw)
+ */
+export function getRequestIP(headers: Headers): string {
+  const forwarded = headers.get('x-forwarded-for');
+  if (forwarded) {
+    const hops = Math.max(1, parseInt(process.env.TRUSTED_PROXY_HOPS || '1', 10) || 1);
+    const entries = forwarded.split(',').map(entry => entry.trim()).filter(Boolean);
+    return entries[Math.max(0, entries.length - hops)] || 'unknown';
+  }
+  return headers.get('x-real-ip') || 'unknown';
+}
+
+/**
+ * Headers safe to keep on a WebhookEvent (credentials removed)
+ */
+export function sanitizeWebhookHeaders(headers: Headers | Record<string, string>): Record<string, string> {
+  const entries = headers instanceof Headers ? Array.from(headers.entries()) : Object.entries(headers);
+  return Object.fromEntries(
+    entries.filter(([name]) => !REDACTED_HEADERS.includes(name.toLowerCase()))
+  );
+}
+
+/**
+ * Sign a webhook body the same way we expect SideShift (or a relay) to
+ * Signature = hex(HMAC-SHA256(secret, `${timestamp}.${rawBody}`))
+ */
+export function signWebhookPayload(secret: string, timestamp: string, rawBody: string): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${rawBody}`)
+    .digest('hex');
+}
+
+/**
+ * Verify an inbound webhook request
+ * Replay protection is completed by the caller persisting the returned nonce
+ */
+export function verifyWebhookRequest(
+  headers: Headers,
+  rawBody: string,
+  url: string
+): WebhookVerificationResult {
+  const secret = process.env.WEBHOOK_SECRET;
+  if (!secret) {
+    return { ok: false, reason: 'WEBHOOK_SECRET not configured' };
+  }
+
+  // 1. Source IP allowlist
+  const sourceIP = getRequestIP(headers);
+  const allowlist = parseAllowlist(process.env.WEBHOOK_ALLOWED_IPS);
+  if (allowlist.length > 0 && !allowlist.some(entry => ipMatches(sourceIP, entry))) {
+    return { ok: false, reason: `Source IP not allowed: ${sourceIP}` };
+  }
+
+  // 2. Timestamp window (every method: it bounds how long a replay could work)
+  const timestamp = headers.get(TIMESTAMP_HEADER);
+  if (!timestamp) {
+    return { ok: false, reason: 'Missing timestamp' };
+  }
+
+  const sentAt = parseInt(timestamp, 10);
+  if (Number.isNaN(sentAt)) {
+    return { ok: false, reason: 'Invalid timestamp' };
+  }
+
+  const tolerance = parseInt(
+    process.env.WEBHOOK_TOLERANCE_SECONDS || String(DEFAULT_TOLERANCE_SECONDS),
+    10
+  );
+  const skew = Math.abs(Math.floor(Date.now() / 1000) - sentAt);
+  if (skew > tolerance) {
+    return { ok: false, reason: `Timestamp outside tolerance window (${skew}s)` };
+  }
+
+  // 3. Signature or shared secret
+  const signature = headers.get(SIGNATURE_HEADER);
+  let method: 'signature' | 'shared_secret';
+
+  if (signature) {
+    const expected = signWebhookPayload(secret, timestamp, rawBody);
+    if (!safeEqual(signature, expected)) {
+      return { ok: false, reason: 'Invalid signature' };
+    }
+    method = 'signature';
+  } else {
+    const headerSecret = headers.get(SECRET_HEADER);
+    const querySecret = process.env.WEBHOOK_ALLOW_QUERY_SECRET === 'false'
+      ? null
+      : new URL(url).searchParams.get('secret');
+    const provided = headerSecret || querySecret;
+    if (!provided) {
+      return { ok: false, reason: 'Missing signature or shared secret' };
+    }
+    if (!safeEqual(provided, secret)) {
+      return { ok: false, reason: 'Invalid shared secret' };
+    }
+    method = 'shared_secret';
+  }
+
+  // 4. Nonce: derived from the authenticated content only
+  const nonce = signature ||
+    crypto.createHash('sha256').update(`${timestamp}.${rawBody}`).digest('hex');
+
+  return { ok: true, nonce, method };
+}
+
+/**
+ * Constant-time string comparison
+ */
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  if (bufA.length !== bufB.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(bufA, bufB);
+}
+
+function parseAllowlist(value?: string): string[] {
+  if (!value) return [];
+  return value.split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+/**
+ * Match an IP against an exact address or an IPv4 CIDR range
+ */
+function ipMatches(ip: string, entry: string): boolean {
+  const normalized = ip.replace(/^::ffff:/, '');
+
+  if (!entry.includes('/')) {
+    return normalized === entry;
+  }
+
+  const [range, bitsStr] = entry.split('/');
+  const bits = parseInt(bitsStr, 10);
+  const ipNum = ipv4ToNumber(normalized);
+  const rangeNum = ipv4ToNumber(range);
+
+  if (ipNum === null || rangeNum === null || Number.isNaN(bits)) {
+    return false;
+  }
+
+  const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+  return (ipNum & mask) === (rangeNum & mask);
+}
+
+function ipv4ToNumber(ip: string): number | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+
+  let result = 0;
+  for (const part of parts) {
+    const n = parseInt(part, 10);
+    if (Number.isNaN(n) || n < 0 || n > 255) return null;
+    result = (result << 8) + n;
+  }
+  return result >>> 0;
+}
@@ -0,0 +1,62 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * API KEY SCOPES
+ * - create: Create payments and checkout sessions
+ * - read: Read order status, poll SideShift
+ * - refund: Open refunds for the merchant's orders
+ */
+export const API_KEY_SCOPES = ['create', 'read', 'refund'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+/**
+ * MERCHANT API KEY
+ * Only a SHA-256 hash of the key is stored; the plaintext is shown once
+ */
+export interface IApiKey extends Document {
+  keyId: string;
+  merchantId: string;
+  name: string;
+
+  keyHash: string; // hex(SHA-256(key))
+  keyPrefix: string; // First characters, to recognise a key in listings
+
+  scopes: ApiKeyScope[];
+
+  lastUsedAt?: Date;
+  expiresAt?: Date; // Set on the old key during a rotation grace period
+  revokedAt?: Date;
+  rotatedTo?: string; // keyId of the replacement key
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ApiKeySchema = new Schema<IApiKey>(
+  {
+    keyId: { type: String, required: true, unique: true, index: true },
+    merchantId: { type: String, required: true, index: true },
+    name: { type: String, required: true },
+
+    keyHash: { type: String, required: true, unique: true, index: true },
+    keyPrefix: { type: String, required: true },
+
+    scopes: {
+      type: [String],
+      enum: API_KEY_SCOPES,
+      required: true,
+    },
+
+    lastUsedAt: { type: Date },
+    expiresAt: { type: Date },
+    revokedAt: { type: Date },
+    rotatedTo: { type: String },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const ApiKey: Model<IApiKey> =
+  mongoose.models.ApiKey || mongoose.model<IApiKey>('ApiKey', ApiKeySchema);
@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * COIN CATALOG
+ * Cached snapshot of the coins/networks SideShift supports (one document per
+ * source). Served until expiresAt, then refreshed in the background while
+ * the stale copy keeps serving checkouts.
+ */
+export interface CatalogCoin {
+  coin: string;
+  name: string;
+  networks: string[];             // Networks deposits are currently accepted on
+  networksWithMemo: string[];     // Networks that need a memo/tag alongside the address
+}
+
+export interface ICoinCatalog extends Document {
+  source: string;
+  coins: CatalogCoin[];
+
+  fetchedAt: Date;
+  expiresAt: Date;   // Stale after this (still served)
+
+  // Refresh lease, so only one instance calls SideShift per expiry
+  refreshingUntil?: Date;
+  lastError?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CoinCatalogSchema = new Schema<ICoinCatalog>(
+  {
+    source: { type: String, required: true, unique: true },
+
+    coins: [{
+      _id: false,
+      coin: { type: String, required: true },
+      name: { type: String, required: true },
+      networks: [{ type: String }],
+      networksWithMemo: [{ type: String }],
+    }],
+
+    fetchedAt: { type: Date, required: true },
+    expiresAt: { type: Date, required: true },
+
+    refreshingUntil: { type: Date },
+    lastError: { type: String },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const CoinCatalog: Model<ICoinCatalog> =
+  mongoose.models.CoinCatalog || mongoose.model<ICoinCatalog>('CoinCatalog', CoinCatalogSchema);
@@ -0,0 +1,78 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { EXPORT_FORMATS, ExportFormat } from '@/lib/order-export';
+
+/**
+ * EXPORT JOB
+ * On-demand accounting export of completed orders over a date range
+ * - queued: created, waiting for a worker (runs right after the request,
+ *   the exports cron picks up anything left behind)
+ * - running: a worker holds the lease and is streaming rows into GridFS
+ * - completed: file ready for download until expiresAt
+ * - failed: see error; create a new job to retry
+ */
+export type ExportJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface IExportJob extends Document {
+  jobId: string;
+  merchantId?: string; // Unset = all merchants (admin export)
+
+  format: ExportFormat;
+  from: Date; // completedAt >= from
+  to: Date; // completedAt < to
+
+  status: ExportJobStatus;
+  lockedUntil?: Date; // Worker lease, a crashed run is picked up again after this
+  attempts: number;
+
+  // Output (GridFS bucket `exports`)
+  fileId?: mongoose.Types.ObjectId;
+  fileName?: string;
+  rowCount?: number;
+  error?: string;
+
+  requestedBy?: string; // 'admin' or `api_key:<keyId>`
+  startedAt?: Date;
+  completedAt?: Date;
+  expiresAt: Date; // Job and file are deleted after this
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ExportJobSchema = new Schema<IExportJob>(
+  {
+    jobId: { type: String, required: true, unique: true, index: true },
+    merchantId: { type: String, index: true },
+
+    format: { type: String, enum: EXPORT_FORMATS, required: true },
+    from: { type: Date, required: true },
+    to: { type: Date, required: true },
+
+    status: {
+      type: String,
+      enum: ['queued', 'running', 'completed', 'failed'],
+      default: 'queued',
+      index: true,
+    },
+    lockedUntil: { type: Date },
+    attempts: { type: Number, default: 0 },
+
+    fileId: { type: Schema.Types.ObjectId },
+    fileName: { type: String },
+    rowCount: { type: Number },
+    error: { type: String },
+
+    requestedBy: { type: String },
+    startedAt: { type: Date },
+    completedAt: { type: Date },
+    expiresAt: { type: Date, required: true, index: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+ExportJobSchema.index({ merchantId: 1, createdAt: -1 });
+
+export const ExportJob: Model<IExportJob> =
+  mongoose.models.ExportJob || mongoose.model<IExportJob>('ExportJob', ExportJobSchema);
@@ -0,0 +1,59 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * IDEMPOTENCY KEY
+ * Remembers the response to a request sent with an Idempotency-Key header
+ * - processing: first request still running (replays get 409)
+ * - completed: response stored, replays get it back verbatim
+ */
+export interface IIdempotencyKey extends Document {
+  scope: string; // `${merchantId}:${operation}`, keys are unique per scope
+  key: string;
+
+  requestHash: string; // hex(SHA-256(request body)), detects key reuse
+
+  status: 'processing' | 'completed';
+  lockedUntil?: Date; // Processing lease, a crashed request frees the key after this
+  lockedBy?: string; // Lease owner: only the request holding it may renew, complete or release
+
+  responseStatus?: number;
+  responseBody?: any;
+
+  expiresAt: Date; // Retention window (TTL)
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const IdempotencyKeySchema = new Schema<IIdempotencyKey>(
+  {
+    scope: { type: String, required: true },
+    key: { type: String, required: true },
+
+    requestHash: { type: String, required: true },
+
+    status: {
+      type: String,
+      enum: ['processing', 'completed'],
+      required: true,
+    },
+    lockedUntil: { type: Date },
+    lockedBy: { type: String },
+
+    responseStatus: { type: Number },
+    responseBody: { type: Schema.Types.Mixed },
+
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+IdempotencyKeySchema.index({ scope: 1, key: 1 }, { unique: true });
+
+// TTL index: delete once the retention window has passed
+IdempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const IdempotencyKey: Model<IIdempotencyKey> =
+  mongoose.models.IdempotencyKey || mongoose.model<IIdempotencyKey>('IdempotencyKey', IdempotencyKeySchema);
@@ -0,0 +1,85 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * MERCHANT
+ * A tenant of the gateway: where its payments settle and how checkout looks
+ * The `default` merchant is created from the SETTLEMENT_* env vars so
+ * single-merchant deployments keep working without any setup.
+ */
+export interface IMerchant extends Document {
+  merchantId: string;
+  name: string;
+
+  // Settlement (where SideShift sends the funds)
+  settleCoin: string;
+  settleNetwork: string;
+  settleAddress: string;
+
+  // SideShift affiliate account (falls back to SIDESHIFT_AFFILIATE_ID)
+  affiliateId?: string;
+
+  // Deposit coins customers may pay with (empty = everything in the coin catalog)
+  acceptedCoins: Array<{
+    coin: string;
+    network: string;
+  }>;
+
+  // Deposit coins customers may never pay with (no network = every network)
+  blockedCoins: Array<{
+    coin: string;
+    network?: string;
+  }>;
+
+  // Checkout branding
+  branding: {
+    displayName?: string;
+    logoUrl?: string;
+    primaryColor?: string;
+    supportEmail?: string;
+  };
+
+  active: boolean;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MerchantSchema = new Schema<IMerchant>(
+  {
+    merchantId: { type: String, required: true, unique: true, index: true },
+    name: { type: String, required: true },
+
+    settleCoin: { type: String, required: true },
+    settleNetwork: { type: String, required: true },
+    settleAddress: { type: String, required: true },
+
+    affiliateId: { type: String },
+
+    acceptedCoins: [{
+      _id: false,
+      coin: { type: String, required: true },
+      network: { type: String, required: true },
+    }],
+
+    blockedCoins: [{
+      _id: false,
+      coin: { type: String, required: true },
+      network: { type: String },
+    }],
+
+    branding: {
+      displayName: { type: String },
+      logoUrl: { type: String },
+      primaryColor: { type: String },
+      supportEmail: { type: String },
+    },
+
+    active: { type: Boolean, default: true, index: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const Merchant: Model<IMerchant> =
+  mongoose.models.Merchant || mongoose.model<IMerchant>('Merchant', MerchantSchema);
@@ -25,10 +25,19 @@ export type PaymentStatus =
   | 'underpaid'
   | 'overpaid';
 
+/**
+ * PAYMENT MODES
+ * - fixed: Fixed-rate quote for an exact USD total (default)
+ * - open: Variable-rate shift, customer sends any amount within
+ *         depositMin/depositMax (donations, tips, pay what you want)
+ */
+export type PaymentMode = 'fixed' | 'open';
+
 export interface IPaymentOrder extends Document {
   // Order identification
   orderId: string; // Your internal order ID
   orderNumber: string; // Human-readable order number
+  merchantId: string; // Merchant the order settles to
   
   // Product/Cart details
   items: Array<{
@@ -37,26 +46,49 @@ export interface IPaymentOrder extends Document {
     quantity: number;
     priceUSD: number;
   }>;
-  totalUSD: number;
+  totalUSD: number; // Open mode: 0 until settled in a USD stablecoin
+  paymentMode: PaymentMode;
   
   // Customer info
   customerEmail: string;
   customerWallet?: string; // For refunds
+  customerWalletMemo?: string; // Memo/destination tag for the refund address
   
-  // SideShift integration
+  // Swap provider integration (SideShift unless SWAP_PROVIDER says otherwise)
+  provider: string; // Provider that created the shift; later calls go back to it
   quoteId?: string;
   shiftId?: string;
   
+  // Previous quotes/shifts replaced by a re-quote (oldest first)
+  shiftHistory: Array<{
+    quoteId?: string;
+    shiftId?: string;
+    depositAddress?: string;
+    depositMemo?: string;
+    depositAmount?: string;
+    settleAmount?: string;
+    exchangeRate?: number;
+    quoteExpiresAt?: Date;
+    replacedAt: Date;
+  }>;
+  
   // Crypto payment details
   depositCoin: string; // What customer wants to pay with (e.g., 'btc', 'eth')
   depositNetwork: string; // Network (e.g., 'mainnet', 'arbitrum')
   depositAddress?: string; // Generated address for customer
+  depositMemo?: string; // Memo/destination tag (XRP, XLM, TON...): without it the deposit is lost
   depositAmount?: string; // Exact amount customer must send
+  depositMin?: string; // Deposit limits reported by SideShift
+  depositMax?: string;
+  receivedAmount?: string; // Amount SideShift actually received
+  shortfallAmount?: string; // Set when underpaid (expected - received)
+  excessAmount?: string; // Set when overpaid (received - expected)
+  refundedAmount?: string; // Completed refunds in the deposit coin (partial/excess refunds keep the status)
   
   settleCoin: string; // What YOU receive (e.g., 'usdc')
   settleNetwork: string; // Where YOU receive it (e.g., 'arbitrum')
   settleAddress: string; // YOUR wallet address
-  settleAmount?: string; // Amount you'll receive
+  settleAmount?: string; // Amount you'll receive (final amount once settled)
   
   // Transaction tracking
   depositTxHash?: string; // Customer's deposit transaction
@@ -68,12 +100,35 @@ export interface IPaymentOrder extends Document {
     status: PaymentStatus;
     timestamp: Date;
     note?: string;
+    refundId?: string; // Set on entries created by the refund flow
+  }>;
+  
+  // Illegal transitions that were refused (see lib/payment-status.ts)
+  rejectedTransitions: Array<{
+    from: PaymentStatus;
+    to: PaymentStatus;
+    source?: string;
+    note?: string;
+    timestamp: Date;
   }>;
   
   // Quote expiration
   quoteExpiresAt?: Date;
   expiryReminderSent?: boolean;
   
+  // Customer emails (one entry per dedupe key, see notification.service.ts)
+  notifications: Array<{
+    key: string; // e.g. 'payment_completed', 'payment_expiring:<shiftId>'
+    type: string;
+    status: 'sending' | 'sent' | 'failed';
+    transport?: string;
+    to: string;
+    messageId?: string;
+    error?: string;
+    createdAt: Date;
+    sentAt?: Date;
+  }>;
+  
   // Rate info (for reconciliation)
   exchangeRate?: number;
   quotedAt?: Date;
@@ -87,12 +142,15 @@ export interface IPaymentOrder extends Document {
   createdAt: Date;
   updatedAt: Date;
   completedAt?: Date;
+  fulfilledAt?: Date; // Set once when completion handling is claimed
 }
 
 const PaymentOrderSchema = new Schema<IPaymentOrder>(
   {
     orderId: { type: String, required: true, unique: true, index: true },
-    orderNumber: { type: String, required: true },
+    orderNumber: { type: String, required: true, index: true },
+    // Orders created before multi-merchant support belong to 'default'
+    merchantId: { type: String, required: true, default: 'default', index: true },
     
     items: [{
       productId: { type: String, required: true },
@@ -100,18 +158,40 @@ const PaymentOrderSchema = new Schema<IPaymentOrder>(
       quantity: { type: Number, required: true },
       priceUSD: { type: Number, required: true },
     }],
-    totalUSD: { type: Number, required: true },
+    totalUSD: { type: Number, required: true, default: 0 },
+    paymentMode: { type: String, enum: ['fixed', 'open'], default: 'fixed' },
     
     customerEmail: { type: String, required: true, index: true },
     customerWallet: { type: String },
+    customerWalletMemo: { type: String },
     
+    provider: { type: String, default: 'sideshift' },
     quoteId: { type: String, index: true },
     shiftId: { type: String, index: true, sparse: true },
     
+    shiftHistory: [{
+      quoteId: { type: String },
+      shiftId: { type: String },
+      depositAddress: { type: String },
+      depositMemo: { type: String },
+      depositAmount: { type: String },
+      settleAmount: { type: String },
+      exchangeRate: { type: Number },
+      quoteExpiresAt: { type: Date },
+      replacedAt: { type: Date, required: true }
+    }],
+    
     depositCoin: { type: String, required: true },
     depositNetwork: { type: String, required: true },
     depositAddress: { type: String, index: true },
+    depositMemo: { type: String },
     depositAmount: { type: String },
+    depositMin: { type: String },
+    depositMax: { type: String },
+    receivedAmount: { type: String },
+    shortfallAmount: { type: String },
+    excessAmount: { type: String },
+    refundedAmount: { type: String },
     
     settleCoin: { type: String, required: true },
     settleNetwork: { type: String, required: true },
@@ -119,7 +199,7 @@ const PaymentOrderSchema = new Schema<IPaymentOrder>(
     settleAmount: { type: String },
     
     depositTxHash: { type: String, index: true },
-    settleTxHash: { type: String },
+    settleTxHash: { type: String, index: true, sparse: true },
     
     status: { 
       type: String, 
@@ -135,12 +215,33 @@ const PaymentOrderSchema = new Schema<IPaymentOrder>(
     statusHistory: [{
       status: { type: String, required: true },
       timestamp: { type: Date, default: Date.now },
-      note: { type: String }
+      note: { type: String },
+      refundId: { type: String }
+    }],
+    
+    rejectedTransitions: [{
+      from: { type: String, required: true },
+      to: { type: String, required: true },
+      source: { type: String },
+      note: { type: String },
+      timestamp: { type: Date, default: Date.now }
     }],
     
     quoteExpiresAt: { type: Date, index: true },
     expiryReminderSent: { type: Boolean, default: false },
     
+    notifications: [{
+      key: { type: String, required: true },
+      type: { type: String, required: true },
+      status: { type: String, enum: ['sending', 'sent', 'failed'], required: true },
+      transport: { type: String },
+      to: { type: String, required: true },
+      messageId: { type: String },
+      error: { type: String },
+      createdAt: { type: Date, default: Date.now },
+      sentAt: { type: Date }
+    }],
+    
     exchangeRate: { type: Number },
     quotedAt: { type: Date },
     
@@ -148,7 +249,8 @@ const PaymentOrderSchema = new Schema<IPaymentOrder>(
     userAgent: { type: String },
     affiliateId: { type: String },
     
-    completedAt: { type: Date }
+    completedAt: { type: Date },
+    fulfilledAt: { type: Date }
   },
   {
     timestamps: true,
@@ -159,6 +261,11 @@ const PaymentOrderSchema = new Schema<IPaymentOrder>(
 PaymentOrderSchema.index({ createdAt: -1 });
 PaymentOrderSchema.index({ status: 1, quoteExpiresAt: 1 }); // For expiry checker
 PaymentOrderSchema.index({ customerEmail: 1, status: 1 });
+PaymentOrderSchema.index({ merchantId: 1, createdAt: -1 });
+PaymentOrderSchema.index({ merchantId: 1, updatedAt: -1 }); // Orders API sort=updatedAt
+PaymentOrderSchema.index({ merchantId: 1, status: 1, completedAt: 1 }); // Accounting exports
+PaymentOrderSchema.index({ status: 1, completedAt: 1 }); // All-merchant exports
+PaymentOrderSchema.index({ 'shiftHistory.shiftId': 1 }, { sparse: true }); // Webhooks for replaced shifts
 
 export const PaymentOrder: Model<IPaymentOrder> = 
   mongoose.models.PaymentOrder || mongoose.model<IPaymentOrder>('PaymentOrder', PaymentOrderSchema);
@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * PRODUCT
+ * Catalog entry owned by a merchant. Prices live only here: checkout sends
+ * product IDs and quantities, and the order total is computed server-side.
+ */
+export interface IProduct extends Document {
+  productId: string;
+  merchantId: string;
+
+  name: string;
+  description?: string;
+  imageUrl?: string;
+
+  priceUSD: number; // Unit price
+
+  active: boolean; // Inactive products can't be bought (kept for old orders)
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ProductSchema = new Schema<IProduct>(
+  {
+    productId: { type: String, required: true, unique: true, index: true },
+    merchantId: { type: String, required: true, index: true },
+
+    name: { type: String, required: true },
+    description: { type: String },
+    imageUrl: { type: String },
+
+    priceUSD: { type: Number, required: true, min: 0.01 },
+
+    active: { type: Boolean, default: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+ProductSchema.index({ merchantId: 1, active: 1 });
+
+export const Product: Model<IProduct> =
+  mongoose.models.Product || mongoose.model<IProduct>('Product', ProductSchema);
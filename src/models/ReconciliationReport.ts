@@ -0,0 +1,140 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { PaymentStatus } from '@/models/PaymentOrder';
+
+/**
+ * RECONCILIATION REPORT
+ * One run of the reconciliation job: recent orders compared field by field
+ * with SideShift's view of their shifts, plus affiliate totals
+ * - running: in progress (one run at a time, enforced by a unique index)
+ * - completed: see discrepancies (empty = everything agreed)
+ * - failed: the run itself broke (see error); per-order API errors don't fail it
+ */
+export type DiscrepancyType =
+  | 'status'
+  | 'deposit_amount'
+  | 'settle_amount'
+  | 'deposit_hash'
+  | 'settle_hash'
+  | 'shift_not_found'
+  | 'affiliate_totals';
+
+export interface IReconciliationReport extends Document {
+  reportId: string;
+  trigger: 'cron' | 'admin';
+  status: 'running' | 'completed' | 'failed';
+
+  // Orders created in [windowStart, windowEnd)
+  windowStart: Date;
+  windowEnd: Date;
+
+  ordersInWindow: number; // Orders with a shift in the window
+  ordersChecked: number; // At most RECONCILIATION_MAX_ORDERS, newest first
+  ordersTruncated: boolean; // The cap left older orders in the window unchecked
+  ordersMatched: number;
+  discrepancyCount: number;
+  discrepancies: Array<{
+    type: DiscrepancyType;
+    severity: 'high' | 'low'; // high: money/final state disagrees; low: lagging update
+    orderId?: string;
+    shiftId?: string;
+    field?: string;
+    ours?: string;
+    theirs?: string;
+    orderStatus?: PaymentStatus;
+    note?: string;
+  }>;
+  truncated: boolean; // More discrepancies than were stored
+
+  // Orders SideShift couldn't be asked about (API errors)
+  orderErrors: Array<{ orderId: string; shiftId?: string; error: string }>;
+
+  // Lifetime totals for the platform affiliate ID
+  affiliateTotals?: {
+    affiliateId: string;
+    ours: { completedShifts: number; volumeUSD: number }; // volumeUSD: sum of totalUSD
+    theirs?: any; // Raw getAffiliateStats response
+    error?: string;
+  };
+
+  error?: string;
+  startedAt: Date;
+  completedAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReconciliationReportSchema = new Schema<IReconciliationReport>(
+  {
+    reportId: { type: String, required: true, unique: true, index: true },
+    trigger: { type: String, enum: ['cron', 'admin'], required: true },
+    status: {
+      type: String,
+      enum: ['running', 'completed', 'failed'],
+      default: 'running',
+      index: true,
+    },
+
+    windowStart: { type: Date, required: true },
+    windowEnd: { type: Date, required: true },
+
+    ordersInWindow: { type: Number, default: 0 },
+    ordersChecked: { type: Number, default: 0 },
+    ordersTruncated: { type: Boolean, default: false },
+    ordersMatched: { type: Number, default: 0 },
+    discrepancyCount: { type: Number, default: 0 },
+    discrepancies: [{
+      type: {
+        type: String,
+        enum: [
+          'status', 'deposit_amount', 'settle_amount', 'deposit_hash',
+          'settle_hash', 'shift_not_found', 'affiliate_totals',
+        ],
+        required: true,
+      },
+      severity: { type: String, enum: ['high', 'low'], required: true },
+      orderId: { type: String },
+      shiftId: { type: String },
+      field: { type: String },
+      ours: { type: String },
+      theirs: { type: String },
+      orderStatus: { type: String },
+      note: { type: String },
+    }],
+    truncated: { type: Boolean, default: false },
+
+    orderErrors: [{
+      orderId: { type: String, required: true },
+      shiftId: { type: String },
+      error: { type: String, required: true },
+    }],
+
+    affiliateTotals: {
+      affiliateId: { type: String },
+      ours: {
+        completedShifts: { type: Number },
+        volumeUSD: { type: Number },
+      },
+      theirs: { type: Schema.Types.Mixed },
+      error: { type: String },
+    },
+
+    error: { type: String },
+    startedAt: { type: Date, required: true },
+    completedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+ReconciliationReportSchema.index({ createdAt: -1 });
+// Only one report can be running: concurrent starts fail on insert
+ReconciliationReportSchema.index(
+  { status: 1 },
+  { unique: true, partialFilterExpression: { status: 'running' } }
+);
+
+export const ReconciliationReport: Model<IReconciliationReport> =
+  mongoose.models.ReconciliationReport ||
+  mongoose.model<IReconciliationReport>('ReconciliationReport', ReconciliationReportSchema);
@@ -4,24 +4,42 @@ import mongoose, { Schema, Document, Model } from 'mongoose';
  * REFUND REQUESTS
  * Track refund attempts for failed/expired payments
  */
+export type RefundReason = 'expired' | 'failed' | 'customer_request' | 'overpaid' | 'underpaid' | 'duplicate';
+export type RefundStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
 export interface IRefund extends Document {
+  refundId: string;
+  
   // Reference to original order
   orderId: string;
   paymentOrderId: mongoose.Types.ObjectId;
   
   // Refund details
-  refundReason: 'expired' | 'failed' | 'customer_request' | 'overpaid' | 'underpaid' | 'duplicate';
+  refundReason: RefundReason;
   refundAmount: string;
   refundCoin: string;
   refundNetwork: string;
   refundAddress: string; // Customer's wallet
+  refundMemo?: string; // Memo/destination tag for refundAddress
+  depositEquivalent?: string; // refundAmount in the order's deposit coin (at the rate when opened)
   
   // Processing status
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: RefundStatus;
   
   // SideShift refund shift
+  // The merchant funds the refund by sending refundDepositAmount of the
+  // order's settle coin to refundDepositAddress; SideShift swaps it into
+  // refundCoin and delivers it to refundAddress
+  refundQuoteId?: string;
   refundShiftId?: string;
+  refundDepositCoin?: string;
+  refundDepositNetwork?: string;
+  refundDepositAddress?: string;
+  refundDepositMemo?: string; // Send with the deposit if the settle coin uses memos
+  refundDepositAmount?: string;
+  refundShiftExpiresAt?: Date;
   refundTxHash?: string;
+  failureReason?: string;
   
   // Admin notes
   notes?: string;
@@ -34,6 +52,7 @@ export interface IRefund extends Document {
 
 const RefundSchema = new Schema<IRefund>(
   {
+    refundId: { type: String, required: true, unique: true, index: true },
     orderId: { type: String, required: true, index: true },
     paymentOrderId: { type: Schema.Types.ObjectId, ref: 'PaymentOrder', required: true },
     
@@ -46,6 +65,8 @@ const RefundSchema = new Schema<IRefund>(
     refundCoin: { type: String, required: true },
     refundNetwork: { type: String, required: true },
     refundAddress: { type: String, required: true },
+    refundMemo: { type: String },
+    depositEquivalent: { type: String },
     
     status: { 
       type: String, 
@@ -54,8 +75,16 @@ const RefundSchema = new Schema<IRefund>(
       index: true
     },
     
-    refundShiftId: { type: String },
+    refundQuoteId: { type: String },
+    refundShiftId: { type: String, index: true, sparse: true },
+    refundDepositCoin: { type: String },
+    refundDepositNetwork: { type: String },
+    refundDepositAddress: { type: String },
+    refundDepositMemo: { type: String },
+    refundDepositAmount: { type: String },
+    refundShiftExpiresAt: { type: Date },
     refundTxHash: { type: String },
+    failureReason: { type: String },
     
     notes: { type: String },
     processedBy: { type: String },
@@ -68,6 +97,12 @@ const RefundSchema = new Schema<IRefund>(
 );
 
 RefundSchema.index({ status: 1, createdAt: -1 });
+// At most one open refund per order, so concurrent requests can't both
+// open one ($in in a partial filter needs MongoDB 6.0+)
+RefundSchema.index(
+  { orderId: 1 },
+  { unique: true, partialFilterExpression: { status: { $in: ['pending', 'processing'] } } }
+);
 
 export const Refund: Model<IRefund> = 
   mongoose.models.Refund || mongoose.model<IRefund>('Refund', RefundSchema);
@@ -0,0 +1,72 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * MERCHANT WEBHOOK DELIVERY
+ * One outbound event sent to one endpoint, with every attempt recorded
+ * - pending: Not delivered yet (retry scheduled via nextAttemptAt)
+ * - succeeded: Endpoint responded 2xx
+ * - failed: Gave up after max attempts
+ */
+export interface IWebhookDelivery extends Document {
+  deliveryId: string;
+  eventId: string; // Same for all endpoints receiving this event
+  eventType: string;
+  endpointId: string;
+  orderId?: string;
+  
+  payload: any;
+  
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: Array<{
+    attemptedAt: Date;
+    responseStatus?: number;
+    responseBody?: string;
+    error?: string;
+    durationMs: number;
+  }>;
+  attemptCount: number;
+  nextAttemptAt?: Date;
+  deliveredAt?: Date;
+  
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WebhookDeliverySchema = new Schema<IWebhookDelivery>(
+  {
+    deliveryId: { type: String, required: true, unique: true, index: true },
+    eventId: { type: String, required: true, index: true },
+    eventType: { type: String, required: true },
+    endpointId: { type: String, required: true, index: true },
+    orderId: { type: String, index: true },
+    
+    payload: { type: Schema.Types.Mixed, required: true },
+    
+    status: {
+      type: String,
+      enum: ['pending', 'succeeded', 'failed'],
+      default: 'pending',
+      index: true
+    },
+    attempts: [{
+      attemptedAt: { type: Date, required: true },
+      responseStatus: { type: Number },
+      responseBody: { type: String },
+      error: { type: String },
+      durationMs: { type: Number, required: true },
+    }],
+    attemptCount: { type: Number, default: 0 },
+    nextAttemptAt: { type: Date },
+    deliveredAt: { type: Date },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// For the retry worker
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+WebhookDeliverySchema.index({ endpointId: 1, createdAt: -1 });
+
+export const WebhookDelivery: Model<IWebhookDelivery> = 
+  mongoose.models.WebhookDelivery || mongoose.model<IWebhookDelivery>('WebhookDelivery', WebhookDeliverySchema);
@@ -0,0 +1,71 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * MERCHANT WEBHOOK EVENTS
+ * Sent to merchant endpoints when an order changes state
+ * - order.created: Payment created, waiting for deposit
+ * - order.detected: Deposit seen on network
+ * - order.processing / order.settling: Swap in progress
+ * - order.completed: Payment settled, fulfill the order
+ * - order.expired / order.failed / order.refunded: Payment did not go through
+ * - order.underpaid / order.overpaid: Amount mismatch, needs attention
+ * - ping: Test delivery from the admin API
+ */
+export const MERCHANT_WEBHOOK_EVENTS = [
+  'order.created',
+  'order.detected',
+  'order.processing',
+  'order.settling',
+  'order.completed',
+  'order.expired',
+  'order.failed',
+  'order.refunded',
+  'order.underpaid',
+  'order.overpaid',
+  'ping',
+] as const;
+
+export type MerchantWebhookEventType = typeof MERCHANT_WEBHOOK_EVENTS[number];
+
+/**
+ * MERCHANT WEBHOOK ENDPOINT
+ * An HTTPS URL registered by the merchant to receive order events
+ */
+export interface IWebhookEndpoint extends Document {
+  endpointId: string;
+  merchantId?: string; // Only this merchant's orders (unset = all merchants)
+  url: string;
+  description?: string;
+  
+  // Subscribed event types ('*' = all)
+  events: string[];
+  
+  // HMAC signing secret (shared with the merchant)
+  secret: string;
+  
+  active: boolean;
+  
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WebhookEndpointSchema = new Schema<IWebhookEndpoint>(
+  {
+    endpointId: { type: String, required: true, unique: true, index: true },
+    merchantId: { type: String, index: true },
+    url: { type: String, required: true },
+    description: { type: String },
+    
+    events: { type: [String], required: true, default: ['*'] },
+    
+    secret: { type: String, required: true },
+    
+    active: { type: Boolean, default: true, index: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const WebhookEndpoint: Model<IWebhookEndpoint> = 
+  mongoose.models.WebhookEndpoint || mongoose.model<IWebhookEndpoint>('WebhookEndpoint', WebhookEndpointSchema);
@@ -18,15 +18,30 @@ export interface IWebhookEvent extends Document {
   payload: any; // Full webhook payload from SideShift
   headers: Record<string, string>;
   
+  // Authenticity checks
+  verified: boolean;
+  verificationMethod?: 'signature' | 'shared_secret';
+  nonce?: string; // Replay protection (unique)
+  rejected: boolean;
+  rejectionReason?: string;
+  verifiedStatus?: string; // Status confirmed via getShiftStatus
+  
   // Processing status
   processed: boolean;
   processedAt?: Date;
   processingError?: string;
   retryCount: number;
+  lastAttemptAt?: Date;
+  nextRetryAt?: Date; // When the retry worker may pick it up again
+  
+  // Dead-letter queue (gave up after max attempts)
+  deadLettered: boolean;
+  deadLetteredAt?: Date;
   
   // Metadata
   receivedAt: Date;
   sourceIP?: string;
+  expiresAt?: Date; // Rejected attempts only: deleted early (anyone can send them)
 }
 
 const WebhookEventSchema = new Schema<IWebhookEvent>(
@@ -40,21 +55,40 @@ const WebhookEventSchema = new Schema<IWebhookEvent>(
     payload: { type: Schema.Types.Mixed, required: true },
     headers: { type: Map, of: String },
     
+    verified: { type: Boolean, default: false },
+    verificationMethod: { type: String, enum: ['signature', 'shared_secret'] },
+    nonce: { type: String, unique: true, sparse: true },
+    rejected: { type: Boolean, default: false, index: true },
+    rejectionReason: { type: String },
+    verifiedStatus: { type: String },
+    
     processed: { type: Boolean, default: false, index: true },
     processedAt: { type: Date },
     processingError: { type: String },
     retryCount: { type: Number, default: 0 },
+    lastAttemptAt: { type: Date },
+    nextRetryAt: { type: Date },
+    
+    deadLettered: { type: Boolean, default: false, index: true },
+    deadLetteredAt: { type: Date },
     
     receivedAt: { type: Date, default: Date.now, index: true },
-    sourceIP: { type: String }
+    sourceIP: { type: String },
+    expiresAt: { type: Date }
   },
   {
     timestamps: true,
   }
 );
 
+// For the retry worker
+WebhookEventSchema.index({ processed: 1, deadLettered: 1, nextRetryAt: 1 });
+
 // TTL index: Auto-delete webhook events after 90 days
 WebhookEventSchema.index({ receivedAt: 1 }, { expireAfterSeconds: 7776000 });
 
+// TTL index: rejected attempts go sooner, at their own expiresAt
+WebhookEventSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
 export const WebhookEvent: Model<IWebhookEvent> = 
   mongoose.models.WebhookEvent || mongoose.model<IWebhookEvent>('WebhookEvent', WebhookEventSchema);
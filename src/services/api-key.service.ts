@@ -0,0 +1,219 @@
+import crypto from 'crypto';
+import { nanoid } from 'nanoid';
+import { ApiKey, IApiKey, API_KEY_SCOPES, ApiKeyScope } from '@/models/ApiKey';
+import { Merchant } from '@/models/Merchant';
+import { connectDB } from '@/lib/mongodb';
+import { DEFAULT_MERCHANT_ID } from '@/services/merchant.service';
+
+/**
+ * API KEY SERVICE
+ * Merchant-scoped secret keys for the payments API
+ *
+ * Keys look like `sk_<48 hex chars>` and are only returned on create/rotate.
+ * Lookups hash the presented key, so a database leak doesn't leak keys.
+ */
+
+export interface CreateApiKeyParams {
+  merchantId: string;
+  name: string;
+  scopes: string[];
+}
+
+const KEY_PREFIX = 'sk_';
+const DISPLAY_PREFIX_LENGTH = 10;
+const LAST_USED_RESOLUTION_MS = 60 * 1000; // Don't write lastUsedAt on every request
+
+export class ApiKeyService {
+  /**
+   * Issue a new key
+   * Returns the stored key and the plaintext (shown once)
+   */
+  async createKey(params: CreateApiKeyParams): Promise<{ apiKey: IApiKey; key: string }> {
+    await connectDB();
+
+    const scopes = this.validateScopes(params.scopes);
+
+    if (params.merchantId !== DEFAULT_MERCHANT_ID && !(await Merchant.exists({ merchantId: params.merchantId }))) {
+      throw new ApiKeyError(`Unknown merchant: ${params.merchantId}`);
+    }
+
+    const key = this.generateKey();
+    const apiKey = await ApiKey.create({
+      keyId: `key_${nanoid(16)}`,
+      merchantId: params.merchantId,
+      name: params.name,
+      keyHash: hashApiKey(key),
+      keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes,
+    });
+
+    console.log(`[ApiKey ${apiKey.keyId}] Created for merchant ${apiKey.merchantId}: ${scopes.join(', ')}`);
+
+    return { apiKey, key };
+  }
+
+  /**
+   * Look up an active key by its plaintext
+   */
+  async authenticate(key: string): Promise<IApiKey | null> {
+    if (!key.startsWith(KEY_PREFIX)) return null;
+
+    await connectDB();
+
+    const apiKey = await ApiKey.findOne({ keyHash: hashApiKey(key) });
+    if (!apiKey || !isKeyActive(apiKey)) {
+      return null;
+    }
+
+    const now = Date.now();
+    if (!apiKey.lastUsedAt || now - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await ApiKey.updateOne({ keyId: apiKey.keyId }, { $set: { lastUsedAt: new Date(now) } });
+    }
+
+    return apiKey;
+  }
+
+  async listKeys(merchantId?: string): Promise<IApiKey[]> {
+    await connectDB();
+    return ApiKey.find(merchantId ? { merchantId } : {}).sort({ createdAt: -1 });
+  }
+
+  async getKey(keyId: string): Promise<IApiKey | null> {
+    await connectDB();
+    return ApiKey.findOne({ keyId });
+  }
+
+  /**
+   * A key by ID if it's still usable (not revoked or expired)
+   */
+  async getActiveKey(keyId: string): Promise<IApiKey | null> {
+    const apiKey = await this.getKey(keyId);
+    return apiKey && isKeyActive(apiKey) ? apiKey : null;
+  }
+
+  /**
+   * Revoke a key immediately
+   */
+  async revokeKey(keyId: string): Promise<IApiKey> {
+    await connectDB();
+
+    const apiKey = await ApiKey.findOneAndUpdate(
+      { keyId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } },
+      { new: true }
+    );
+
+    if (!apiKey) {
+      const existing = await ApiKey.findOne({ keyId });
+      if (!existing) {
+        throw new Error(`API key ${keyId} not found`);
+      }
+      return existing;
+    }
+
+    console.log(`[ApiKey ${keyId}] Revoked`);
+    return apiKey;
+  }
+
+  /**
+   * Replace a key with a new one (same merchant, name and scopes)
+   * The old key keeps working for gracePeriodSeconds (0 = revoke now)
+   */
+  async rotateKey(keyId: string, gracePeriodSeconds: number = 0): Promise<{ apiKey: IApiKey; key: string }> {
+    await connectDB();
+
+    const old = await ApiKey.findOne({ keyId });
+    if (!old) {
+      throw new Error(`API key ${keyId} not found`);
+    }
+    if (!isKeyActive(old)) {
+      throw new ApiKeyError('Only active keys can be rotated');
+    }
+
+    const rotated = await this.createKey({
+      merchantId: old.merchantId,
+      name: old.name,
+      scopes: old.scopes,
+    });
+
+    const now = Date.now();
+    await ApiKey.updateOne(
+      { keyId },
+      {
+        $set: gracePeriodSeconds > 0
+          ? { expiresAt: new Date(now + gracePeriodSeconds * 1000), rotatedTo: rotated.apiKey.keyId }
+          : { revokedAt: new Date(now), rotatedTo: rotated.apiKey.keyId },
+      }
+    );
+
+    console.log(`[ApiKey ${keyId}] Rotated to ${rotated.apiKey.keyId} (grace ${gracePeriodSeconds}s)`);
+
+    return rotated;
+  }
+
+  private validateScopes(scopes: string[]): ApiKeyScope[] {
+    if (scopes.length === 0) {
+      throw new ApiKeyError('At least one scope is required');
+    }
+
+    const invalid = scopes.filter(s => !(API_KEY_SCOPES as readonly string[]).includes(s));
+    if (invalid.length > 0) {
+      throw new ApiKeyError(`Unknown scope(s): ${invalid.join(', ')}`);
+    }
+
+    return Array.from(new Set(scopes)) as ApiKeyScope[];
+  }
+
+  private generateKey(): string {
+    return `${KEY_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+  }
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function isKeyActive(apiKey: IApiKey): boolean {
+  if (apiKey.revokedAt) return false;
+  if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) return false;
+  return true;
+}
+
+/**
+ * Public view of a key (never includes the hash)
+ */
+export function serializeApiKey(apiKey: IApiKey) {
+  return {
+    keyId: apiKey.keyId,
+    merchantId: apiKey.merchantId,
+    name: apiKey.name,
+    keyPrefix: apiKey.keyPrefix,
+    scopes: apiKey.scopes,
+    active: isKeyActive(apiKey),
+    lastUsedAt: apiKey.lastUsedAt,
+    expiresAt: apiKey.expiresAt,
+    revokedAt: apiKey.revokedAt,
+    rotatedTo: apiKey.rotatedTo,
+    createdAt: apiKey.createdAt,
+  };
+}
+
+/**
+ * Invalid key request (unknown scope or merchant, inactive key)
+ */
+export class ApiKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+// Singleton instance
+let apiKeyService: ApiKeyService | null = null;
+
+export function getApiKeyService(): ApiKeyService {
+  if (!apiKeyService) {
+    apiKeyService = new ApiKeyService();
+  }
+  return apiKeyService;
+}
@@ -0,0 +1,184 @@
+import { nanoid } from 'nanoid';
+import { Product, IProduct } from '@/models/Product';
+import { connectDB } from '@/lib/mongodb';
+
+/**
+ * CATALOG SERVICE
+ * Server-side products and trusted cart pricing
+ *
+ * Clients only send { productId, quantity }; names and prices come from the
+ * merchant's catalog so a tampered request can't change what is charged.
+ */
+
+export interface CartLine {
+  productId: string;
+  quantity: number;
+}
+
+export interface PricedCart {
+  items: Array<{
+    productId: string;
+    name: string;
+    quantity: number;
+    priceUSD: number; // Unit price at the time of purchase
+  }>;
+  totalUSD: number;
+}
+
+export interface CreateProductParams {
+  merchantId: string;
+  name: string;
+  description?: string;
+  imageUrl?: string;
+  priceUSD: number;
+}
+
+export interface UpdateProductParams {
+  name?: string;
+  description?: string;
+  imageUrl?: string;
+  priceUSD?: number;
+  active?: boolean;
+}
+
+const MAX_QUANTITY = 100;
+
+export class CatalogService {
+  /**
+   * Price a cart against the merchant's active products
+   * Duplicate lines are merged; unknown/inactive products are rejected
+   */
+  async priceCart(merchantId: string, lines: CartLine[]): Promise<PricedCart> {
+    await connectDB();
+
+    if (lines.length === 0) {
+      throw new CatalogError('Cart is empty');
+    }
+
+    const quantities = new Map<string, number>();
+    for (const line of lines) {
+      if (!Number.isInteger(line.quantity) || line.quantity < 1) {
+        throw new CatalogError(`Invalid quantity for ${line.productId}`);
+      }
+      quantities.set(line.productId, (quantities.get(line.productId) || 0) + line.quantity);
+    }
+
+    const products = await Product.find({
+      merchantId,
+      productId: { $in: Array.from(quantities.keys()) },
+      active: true,
+    });
+    const byId = new Map(products.map(product => [product.productId, product]));
+
+    const missing = Array.from(quantities.keys()).filter(id => !byId.has(id));
+    if (missing.length > 0) {
+      throw new CatalogError(`Unknown or unavailable product(s): ${missing.join(', ')}`);
+    }
+
+    let totalCents = 0;
+    const items = Array.from(quantities.entries()).map(([productId, quantity]) => {
+      if (quantity > MAX_QUANTITY) {
+        throw new CatalogError(`Quantity for ${productId} exceeds ${MAX_QUANTITY}`);
+      }
+
+      const product = byId.get(productId)!;
+      totalCents += Math.round(product.priceUSD * 100) * quantity;
+
+      return {
+        productId,
+        name: product.name,
+        quantity,
+        priceUSD: product.priceUSD,
+      };
+    });
+
+    return { items, totalUSD: totalCents / 100 };
+  }
+
+  async listProducts(merchantId: string, options: { includeInactive?: boolean } = {}): Promise<IProduct[]> {
+    await connectDB();
+    return Product.find({
+      merchantId,
+      ...(options.includeInactive ? {} : { active: true }),
+    }).sort({ createdAt: 1 });
+  }
+
+  async getProduct(productId: string): Promise<IProduct | null> {
+    await connectDB();
+    return Product.findOne({ productId });
+  }
+
+  async createProduct(params: CreateProductParams): Promise<IProduct> {
+    await connectDB();
+
+    const product = await Product.create({
+      productId: `prod_${nanoid(12)}`,
+      merchantId: params.merchantId,
+      name: params.name,
+      description: params.description,
+      imageUrl: params.imageUrl,
+      priceUSD: params.priceUSD,
+      active: true,
+    });
+
+    console.log(`[Catalog] Product created: ${product.productId} (${product.name}, $${product.priceUSD})`);
+
+    return product;
+  }
+
+  /**
+   * Price changes only affect new orders (orders keep their own copy)
+   */
+  async updateProduct(productId: string, params: UpdateProductParams): Promise<IProduct> {
+    await connectDB();
+
+    const product = await Product.findOne({ productId });
+    if (!product) {
+      throw new Error(`Product ${productId} not found`);
+    }
+
+    if (params.name !== undefined) product.name = params.name;
+    if (params.description !== undefined) product.description = params.description;
+    if (params.imageUrl !== undefined) product.imageUrl = params.imageUrl;
+    if (params.priceUSD !== undefined) product.priceUSD = params.priceUSD;
+    if (params.active !== undefined) product.active = params.active;
+
+    await product.save();
+    return product;
+  }
+}
+
+/**
+ * Public view of a product
+ */
+export function serializeProduct(product: IProduct) {
+  return {
+    productId: product.productId,
+    merchantId: product.merchantId,
+    name: product.name,
+    description: product.description,
+    imageUrl: product.imageUrl,
+    priceUSD: product.priceUSD,
+    active: product.active,
+  };
+}
+
+/**
+ * Cart that can't be priced (empty, unknown product, bad quantity)
+ */
+export class CatalogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CatalogError';
+  }
+}
+
+// Singleton instance
+let catalogService: CatalogService | null = null;
+
+export function getCatalogService(): CatalogService {
+  if (!catalogService) {
+    catalogService = new CatalogService();
+  }
+  return catalogService;
+}
@@ -0,0 +1,230 @@
+import { CoinCatalog, CatalogCoin } from '@/models/CoinCatalog';
+import { IMerchant } from '@/models/Merchant';
+import { connectDB } from '@/lib/mongodb';
+import { SwapCoin } from '@/lib/swap-provider';
+import { getSwapProvider } from '@/lib/swap-providers';
+import { getMerchantService } from '@/services/merchant.service';
+
+/**
+ * COIN CATALOG SERVICE
+ * The coins/networks customers can pay with, from the swap provider's coin
+ * list (one snapshot per provider, new orders use the configured one)
+ *
+ * The list is cached in MongoDB (CoinCatalog) for COIN_CATALOG_TTL_MINUTES.
+ * Reads never wait on the provider once a snapshot exists: a stale snapshot is
+ * served as-is and refreshIfStale (after the response, and from the
+ * coin-catalog cron) fetches a new one, guarded by a lease so concurrent
+ * requests and instances refresh once. Only the very first read (empty
+ * cache) calls the provider inline.
+ *
+ * Per merchant the catalog is narrowed by acceptedCoins (allow list) and
+ * blockedCoins (deny list), see MerchantService.isCoinAccepted.
+ */
+
+const DEFAULT_TTL_MINUTES = 30;
+const REFRESH_LEASE_MS = 60 * 1000;
+const DEFAULT_FEATURED = 'btc,eth,usdc,usdt,sol,bnb';
+
+export interface CatalogSnapshot {
+  coins: CatalogCoin[];
+  fetchedAt: Date;
+  stale: boolean;
+  lastError?: string; // Last failed background refresh
+}
+
+export interface MerchantCatalogCoin extends CatalogCoin {
+  featured: boolean;
+}
+
+export class CoinCatalogService {
+  private ttlMs = parseFloat(process.env.COIN_CATALOG_TTL_MINUTES || String(DEFAULT_TTL_MINUTES)) * 60 * 1000;
+  private featured = (process.env.COIN_CATALOG_FEATURED || DEFAULT_FEATURED)
+    .split(',')
+    .map(coin => coin.trim().toLowerCase())
+    .filter(Boolean);
+
+  // In-flight fetch (dedupes concurrent refreshes within this instance)
+  private inflight: Promise<CatalogCoin[]> | null = null;
+
+  /**
+   * Current snapshot (stale or not); fetched inline only if there is none
+   */
+  async getSnapshot(): Promise<CatalogSnapshot> {
+    await connectDB();
+
+    const catalog = await CoinCatalog.findOne({ source: getSwapProvider().name }).lean();
+    if (catalog && catalog.coins.length > 0) {
+      return {
+        coins: catalog.coins,
+        fetchedAt: catalog.fetchedAt,
+        stale: catalog.expiresAt.getTime() <= Date.now(),
+        lastError: catalog.lastError,
+      };
+    }
+
+    const coins = await this.refresh();
+    return { coins, fetchedAt: new Date(), stale: false };
+  }
+
+  /**
+   * Coins a merchant's customers can pay with: featured coins first
+   * (COIN_CATALOG_FEATURED order), then the rest by name
+   */
+  async getMerchantCoins(merchant: IMerchant): Promise<MerchantCatalogCoin[]> {
+    const { coins } = await this.getSnapshot();
+    const merchantService = getMerchantService();
+
+    const available: MerchantCatalogCoin[] = [];
+    for (const coin of coins) {
+      const networks = coin.networks.filter(network => merchantService.isCoinAccepted(merchant, coin.coin, network));
+      if (networks.length === 0) continue;
+
+      available.push({
+        ...coin,
+        networks,
+        networksWithMemo: coin.networksWithMemo.filter(network => networks.includes(network)),
+        featured: this.featured.includes(coin.coin),
+      });
+    }
+
+    return available.sort((a, b) => {
+      const rankA = a.featured ? this.featured.indexOf(a.coin) : Infinity;
+      const rankB = b.featured ? this.featured.indexOf(b.coin) : Infinity;
+      return rankA !== rankB ? rankA - rankB : a.name.localeCompare(b.name);
+    });
+  }
+
+  /**
+   * One coin from the catalog (all networks, no merchant filtering)
+   */
+  async getCoin(coin: string): Promise<CatalogCoin | null> {
+    const { coins } = await this.getSnapshot();
+    return coins.find(entry => entry.coin === coin.toLowerCase()) || null;
+  }
+
+  /**
+   * Is coin/network currently accepted for deposits (by the provider and the merchant)?
+   */
+  async isAvailable(merchant: IMerchant, coin: string, network: string): Promise<boolean> {
+    const entry = await this.getCoin(coin);
+    return !!entry
+      && entry.networks.includes(network.toLowerCase())
+      && getMerchantService().isCoinAccepted(merchant, coin, network);
+  }
+
+  /**
+   * Refresh the snapshot if it has expired and nobody else is refreshing it
+   * Returns true if this call refreshed it
+   */
+  async refreshIfStale(): Promise<boolean> {
+    await connectDB();
+
+    const source = getSwapProvider().name;
+    const now = new Date();
+    const claimed = await CoinCatalog.updateOne(
+      {
+        source,
+        expiresAt: { $lte: now },
+        $or: [
+          { refreshingUntil: { $exists: false } },
+          { refreshingUntil: { $lt: now } },
+        ],
+      },
+      { $set: { refreshingUntil: new Date(now.getTime() + REFRESH_LEASE_MS) } }
+    );
+
+    if (claimed.modifiedCount === 0) {
+      return false;
+    }
+
+    try {
+      await this.refresh();
+      return true;
+    } catch (error: any) {
+      // Keep serving the stale snapshot; the lease doubles as a retry backoff
+      console.error('[CoinCatalog] Background refresh failed:', error.message);
+      await CoinCatalog.updateOne({ source }, { $set: { lastError: error.message } });
+      return false;
+    }
+  }
+
+  /**
+   * Fetch the coin list from the provider and store it (unconditionally)
+   */
+  async refresh(): Promise<CatalogCoin[]> {
+    if (!this.inflight) {
+      this.inflight = this.fetchAndStore().finally(() => {
+        this.inflight = null;
+      });
+    }
+    return this.inflight;
+  }
+
+  private async fetchAndStore(): Promise<CatalogCoin[]> {
+    await connectDB();
+
+    const provider = getSwapProvider();
+    const coins = (await provider.getSupportedCoins())
+      .map(normalizeCoin)
+      .filter(coin => coin.networks.length > 0);
+
+    if (coins.length === 0) {
+      throw new Error(`${provider.displayName} returned no coins`);
+    }
+
+    const now = new Date();
+    await CoinCatalog.updateOne(
+      { source: provider.name },
+      {
+        $set: { coins, fetchedAt: now, expiresAt: new Date(now.getTime() + this.ttlMs) },
+        $unset: { refreshingUntil: 1, lastError: 1 },
+      },
+      { upsert: true }
+    );
+
+    console.log(`[CoinCatalog] Refreshed ${provider.name}: ${coins.length} coins`);
+    return coins;
+  }
+}
+
+/**
+ * Provider coin -> catalog entry (networks that currently take deposits)
+ */
+function normalizeCoin(coin: SwapCoin): CatalogCoin {
+  const offline = coin.depositOffline === true
+    ? coin.networks
+    : Array.isArray(coin.depositOffline) ? coin.depositOffline : [];
+
+  const networks = coin.networks
+    .filter(network => !offline.includes(network))
+    .map(network => network.toLowerCase());
+
+  return {
+    coin: coin.coin.toLowerCase(),
+    name: coin.name,
+    networks,
+    networksWithMemo: (coin.networksWithMemo || [])
+      .map(network => network.toLowerCase())
+      .filter(network => networks.includes(network)),
+  };
+}
+
+/**
+ * Coin/network that the swap provider doesn't currently accept deposits on
+ */
+export class CoinCatalogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CoinCatalogError';
+  }
+}
+
+// Singleton instance
+let coinCatalogService: CoinCatalogService | null = null;
+
+export function getCoinCatalogService(): CoinCatalogService {
+  if (!coinCatalogService) {
+    coinCatalogService = new CoinCatalogService();
+  }
+  return coinCatalogService;
+}
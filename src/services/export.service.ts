@@ -0,0 +1,315 @@
+import mongoose from 'mongoose';
+import { Readable } from 'stream';
+import { nanoid } from 'nanoid';
+import { ExportJob, IExportJob } from '@/models/ExportJob';
+import { PaymentOrder } from '@/models/PaymentOrder';
+import { connectDB } from '@/lib/mongodb';
+import {
+  getExportFormat,
+  exportFileName,
+  ExportFormat,
+  ExportOrder,
+} from '@/lib/order-export';
+
+/**
+ * EXPORT SERVICE
+ * Accounting exports of completed orders (by completedAt)
+ *
+ * Orders are read through a MongoDB cursor and written out row by row, so
+ * memory stays flat however large the range is:
+ * - streamOrders: straight into an HTTP response
+ * - export jobs: into a GridFS file (bucket `exports`) for later download
+ */
+
+export interface ExportParams {
+  merchantId?: string; // Unset = all merchants
+  format: ExportFormat;
+  from: Date;
+  to: Date;
+}
+
+const EXPORT_BUCKET = 'exports';
+const JOB_LEASE_MS = 10 * 60 * 1000;
+const MAX_JOB_ATTEMPTS = 3;
+const DEFAULT_RETENTION_HOURS = 7 * 24;
+
+// Only what the formats need (keeps cursor batches small)
+const EXPORT_PROJECTION = [
+  'orderId', 'orderNumber', 'merchantId', 'paymentMode', 'customerEmail', 'totalUSD',
+  'exchangeRate', 'depositCoin', 'depositNetwork', 'depositAmount', 'receivedAmount',
+  'settleCoin', 'settleNetwork', 'settleAmount', 'depositTxHash', 'settleTxHash',
+  'shiftId', 'createdAt', 'quotedAt', 'completedAt',
+].join(' ');
+
+export class ExportService {
+  private retentionMs = parseFloat(
+    process.env.EXPORT_RETENTION_HOURS || String(DEFAULT_RETENTION_HOURS)
+  ) * 60 * 60 * 1000;
+
+  /**
+   * Export as a web stream (pulls the next rows only when the client reads)
+   */
+  streamOrders(params: ExportParams): ReadableStream<Uint8Array> {
+    const lines = this.exportLines(params);
+    const encoder = new TextEncoder();
+
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { value, done } = await lines.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(encoder.encode(value));
+          }
+        } catch (error) {
+          console.error('[Export] Stream error:', error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await lines.return(undefined);
+      },
+    });
+  }
+
+  /**
+   * Queue an export job
+   */
+  async createJob(params: ExportParams, requestedBy?: string): Promise<IExportJob> {
+    await connectDB();
+
+    return ExportJob.create({
+      jobId: `exp_${nanoid(12)}`,
+      merchantId: params.merchantId,
+      format: params.format,
+      from: params.from,
+      to: params.to,
+      status: 'queued',
+      requestedBy,
+      expiresAt: new Date(Date.now() + this.retentionMs),
+    });
+  }
+
+  /**
+   * Run a job: claim its lease, stream rows into GridFS, record the file
+   * Returns the job as it ended up (unchanged if another worker has it)
+   */
+  async runJob(jobId: string): Promise<IExportJob | null> {
+    await connectDB();
+
+    const now = new Date();
+    const job = await ExportJob.findOneAndUpdate(
+      {
+        jobId,
+        $or: [
+          { status: 'queued' },
+          { status: 'running', lockedUntil: { $lt: now } }, // Crashed worker
+        ],
+      },
+      {
+        $set: { status: 'running', lockedUntil: new Date(now.getTime() + JOB_LEASE_MS), startedAt: now },
+        $inc: { attempts: 1 },
+      },
+      { new: true }
+    );
+
+    if (!job) {
+      return ExportJob.findOne({ jobId });
+    }
+
+    const fileName = exportFileName(job.format, job.from, job.to);
+    console.log(`[Export ${jobId}] Running ${job.format} export (attempt ${job.attempts})`);
+
+    const bucket = this.getBucket();
+    const upload = bucket.openUploadStream(fileName, {
+      metadata: { jobId, contentType: getExportFormat(job.format).contentType },
+    });
+
+    try {
+      let rowCount = 0;
+      for await (const line of this.exportLines({
+        merchantId: job.merchantId,
+        format: job.format,
+        from: job.from,
+        to: job.to,
+      }, () => rowCount++)) {
+        if (!upload.write(line)) {
+          await new Promise(resolve => upload.once('drain', resolve));
+        }
+      }
+
+      await new Promise<void>((resolve, reject) => {
+        upload.once('error', reject);
+        upload.end(() => resolve());
+      });
+
+      const completed = await ExportJob.findOneAndUpdate(
+        { jobId, status: 'running' },
+        {
+          $set: {
+            status: 'completed',
+            fileId: upload.id,
+            fileName,
+            rowCount,
+            completedAt: new Date(),
+          },
+          $unset: { lockedUntil: 1, error: 1 },
+        },
+        { new: true }
+      );
+
+      console.log(`[Export ${jobId}] Completed: ${rowCount} orders`);
+      return completed;
+
+    } catch (error: any) {
+      console.error(`[Export ${jobId}] Failed:`, error.message);
+      await upload.abort().catch(() => {});
+
+      // Leave it for the cron to retry unless attempts are used up
+      const giveUp = job.attempts >= MAX_JOB_ATTEMPTS;
+      return ExportJob.findOneAndUpdate(
+        { jobId, status: 'running' },
+        giveUp
+          ? { $set: { status: 'failed', error: error.message }, $unset: { lockedUntil: 1 } }
+          : { $set: { status: 'queued', error: error.message }, $unset: { lockedUntil: 1 } },
+        { new: true }
+      );
+    }
+  }
+
+  /**
+   * Cron: run queued/abandoned jobs and delete expired ones
+   */
+  async runPendingJobs(): Promise<{ ran: number; deleted: number }> {
+    await connectDB();
+
+    const now = new Date();
+    const pending = await ExportJob.find({
+      $or: [
+        { status: 'queued' },
+        { status: 'running', lockedUntil: { $lt: now } },
+      ],
+    })
+      .sort({ createdAt: 1 })
+      .limit(5);
+
+    for (const job of pending) {
+      await this.runJob(job.jobId);
+    }
+
+    const expired = await ExportJob.find({ expiresAt: { $lt: now } }).limit(100);
+    for (const job of expired) {
+      if (job.fileId) {
+        await this.getBucket().delete(job.fileId).catch(() => {});
+      }
+      await ExportJob.deleteOne({ _id: job._id });
+    }
+
+    return { ran: pending.length, deleted: expired.length };
+  }
+
+  async getJob(jobId: string): Promise<IExportJob | null> {
+    await connectDB();
+    return ExportJob.findOne({ jobId });
+  }
+
+  async listJobs(merchantId?: string, limit: number = 50): Promise<IExportJob[]> {
+    await connectDB();
+    return ExportJob.find(merchantId ? { merchantId } : {})
+      .sort({ createdAt: -1 })
+      .limit(Math.min(limit, 200));
+  }
+
+  /**
+   * Stream a completed job's file
+   */
+  async openDownload(job: IExportJob): Promise<ReadableStream<Uint8Array>> {
+    await connectDB();
+
+    if (job.status !== 'completed' || !job.fileId) {
+      throw new ExportError(`Export ${job.jobId} is ${job.status}, not ready for download`);
+    }
+
+    const download = this.getBucket().openDownloadStream(job.fileId);
+    return Readable.toWeb(download) as ReadableStream<Uint8Array>;
+  }
+
+  /**
+   * Header (if the format has one), then one line per completed order
+   */
+  private async *exportLines(params: ExportParams, onRow?: () => void): AsyncGenerator<string> {
+    await connectDB();
+
+    const format = getExportFormat(params.format);
+    if (format.header) {
+      yield format.header;
+    }
+
+    const cursor = PaymentOrder.find({
+      ...(params.merchantId ? { merchantId: params.merchantId } : {}),
+      status: 'completed',
+      completedAt: { $gte: params.from, $lt: params.to },
+    })
+      .select(EXPORT_PROJECTION)
+      .sort({ completedAt: 1, _id: 1 })
+      .lean<ExportOrder>()
+      .cursor({ batchSize: 500 });
+
+    try {
+      for await (const order of cursor) {
+        onRow?.();
+        yield format.row(order as ExportOrder);
+      }
+    } finally {
+      await cursor.close();
+    }
+  }
+
+  private getBucket() {
+    const db = mongoose.connection.db;
+    if (!db) {
+      throw new Error('Database not connected');
+    }
+    return new mongoose.mongo.GridFSBucket(db, { bucketName: EXPORT_BUCKET });
+  }
+}
+
+/**
+ * Export request that can't be served (job not ready)
+ */
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportError';
+  }
+}
+
+export function serializeExportJob(job: IExportJob) {
+  return {
+    jobId: job.jobId,
+    merchantId: job.merchantId,
+    format: job.format,
+    from: job.from,
+    to: job.to,
+    status: job.status,
+    rowCount: job.rowCount,
+    fileName: job.fileName,
+    error: job.error,
+    attempts: job.attempts,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    expiresAt: job.expiresAt,
+  };
+}
+
+// Singleton instance
+let exportService: ExportService | null = null;
+
+export function getExportService(): ExportService {
+  if (!exportService) {
+    exportService = new ExportService();
+  }
+  return exportService;
+}
@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => {
+  // In-memory stand-in for the IdempotencyKey collection (unique scope + key)
+  const rows = new Map<string, Record<string, any>>();
+  const id = (filter: any) => `${filter.scope}|${filter.key}`;
+  const matches = (row: Record<string, any>, filter: any) =>
+    (!filter.status || row.status === filter.status) &&
+    (!filter.lockedUntil || row.lockedUntil <= filter.lockedUntil.$lte) &&
+    (!filter.lockedBy || row.lockedBy === filter.lockedBy);
+
+  return {
+    rows,
+    IdempotencyKey: {
+      create: vi.fn(async (doc: any) => {
+        if (rows.has(id(doc))) throw Object.assign(new Error('duplicate key'), { code: 11000 });
+        rows.set(id(doc), { ...doc });
+        return doc;
+      }),
+      findOne: vi.fn(async (filter: any) => rows.get(id(filter)) || null),
+      findOneAndUpdate: vi.fn(async (filter: any, update: any) => {
+        const row = rows.get(id(filter));
+        if (!row || !matches(row, filter)) return null;
+        Object.assign(row, update.$set);
+        return row;
+      }),
+      updateOne: vi.fn(async (filter: any, update: any) => {
+        const row = rows.get(id(filter));
+        if (!row || !matches(row, filter)) return { matchedCount: 0 };
+        Object.assign(row, update.$set);
+        for (const field of Object.keys(update.$unset || {})) delete row[field];
+        return { matchedCount: 1 };
+      }),
+      deleteOne: vi.fn(async (filter: any) => {
+        const row = rows.get(id(filter));
+        if (row && matches(row, filter)) rows.delete(id(filter));
+      }),
+    },
+  };
+});
+
+vi.mock('@/lib/mongodb');
+vi.mock('@/models/IdempotencyKey', () => ({ IdempotencyKey: mocks.IdempotencyKey }));
+
+import { IdempotencyService, IdempotencyError, IdempotencyLease } from '@/services/idempotency.service';
+
+const SCOPE = 'default:payments.create';
+const BODY = { depositCoin: 'btc', items: [{ productId: 'p1', quantity: 1 }] };
+
+async function claim(service: IdempotencyService, key = 'key-1'): Promise<IdempotencyLease> {
+  const result = await service.begin(SCOPE, key, BODY);
+  if (result.state !== 'new') throw new Error(`expected a new claim, got ${result.state}`);
+  return result.lease;
+}
+
+describe('IdempotencyService', () => {
+  beforeEach(() => {
+    mocks.rows.clear();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('replays the stored response for the same key and body', async () => {
+    const service = new IdempotencyService();
+
+    const lease = await claim(service);
+    await service.complete(lease, 200, { success: true, data: { orderId: 'ord_1' } });
+
+    await expect(service.begin(SCOPE, 'key-1', BODY)).resolves.toEqual({
+      state: 'replay',
+      responseStatus: 200,
+      responseBody: { success: true, data: { orderId: 'ord_1' } },
+    });
+  });
+
+  it('rejects the same key with a different body', async () => {
+    const service = new IdempotencyService();
+    await service.begin(SCOPE, 'key-1', BODY);
+
+    await expect(service.begin(SCOPE, 'key-1', { ...BODY, depositCoin: 'eth' }))
+      .rejects.toMatchObject({ name: 'IdempotencyError', statusCode: 422 });
+  });
+
+  it('rejects a retry while the first request is in flight', async () => {
+    const service = new IdempotencyService();
+    await service.begin(SCOPE, 'key-1', BODY);
+
+    await expect(service.begin(SCOPE, 'key-1', BODY)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('keeps a slow request from being taken over while it renews its lease', async () => {
+    const service = new IdempotencyService();
+    const stop = service.keepAlive(await claim(service));
+
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+    await expect(service.begin(SCOPE, 'key-1', BODY)).rejects.toBeInstanceOf(IdempotencyError);
+
+    // Its process died: the lease runs out and a retry takes over
+    stop();
+    await vi.advanceTimersByTimeAsync(2 * 60 * 1000 + 1);
+    await expect(service.begin(SCOPE, 'key-1', BODY)).resolves.toMatchObject({ state: 'new' });
+  });
+
+  it('frees the key when the request fails', async () => {
+    const service = new IdempotencyService();
+    await service.release(await claim(service));
+
+    await expect(service.begin(SCOPE, 'key-1', BODY)).resolves.toMatchObject({ state: 'new' });
+  });
+
+  it('leaves a takeover alone when the request it replaced finishes late', async () => {
+    const service = new IdempotencyService();
+    const stale = await claim(service);
+
+    // The first request stalls past its lease and a retry takes the key over
+    await vi.advanceTimersByTimeAsync(2 * 60 * 1000 + 1);
+    const current = await claim(service);
+    expect(current.owner).not.toBe(stale.owner);
+
+    const stop = service.keepAlive(stale);
+    await service.release(stale);
+    await service.complete(stale, 500, { success: false });
+    expect(mocks.rows.get(`${SCOPE}|key-1`)).toMatchObject({ status: 'processing', lockedBy: current.owner });
+
+    // The stale renewals don't keep the key locked either
+    await vi.advanceTimersByTimeAsync(2 * 60 * 1000 + 1);
+    stop();
+    expect(mocks.rows.get(`${SCOPE}|key-1`)!.lockedUntil.getTime()).toBeLessThanOrEqual(Date.now());
+
+    await service.complete(current, 200, { success: true });
+    await expect(service.begin(SCOPE, 'key-1', BODY)).resolves.toMatchObject({ state: 'replay', responseStatus: 200 });
+  });
+
+  it('rejects empty and oversized keys', async () => {
+    const service = new IdempotencyService();
+
+    await expect(service.begin(SCOPE, '', BODY)).rejects.toMatchObject({ statusCode: 400 });
+    await expect(service.begin(SCOPE, 'k'.repeat(256), BODY)).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
@@ -0,0 +1,160 @@
+import crypto from 'crypto';
+import { IdempotencyKey } from '@/models/IdempotencyKey';
+import { connectDB } from '@/lib/mongodb';
+
+/**
+ * IDEMPOTENCY SERVICE
+ * Makes retried/double-submitted requests safe
+ *
+ * 1. begin(): claim the key and get a lease. A replay of a completed request
+ *    returns its stored response; a different body under the same key is
+ *    rejected.
+ * 2. keepAlive(): renew the processing lease while the request runs, so a
+ *    slow request isn't taken over (and run twice) by its retry. Only a
+ *    request whose process died stops renewing and can be taken over.
+ * 3. complete(): store the response for replays (retention window)
+ * 4. release(): on failure, free the key so the client can retry
+ *
+ * Steps 2-4 take the lease and only act while it still owns the key: a
+ * request that lost it to a takeover can't renew, overwrite or delete the
+ * record of the request that took over.
+ */
+
+export interface IdempotencyLease {
+  scope: string;
+  key: string;
+  owner: string; // Stored as lockedBy
+}
+
+export type IdempotencyBeginResult =
+  | { state: 'new'; lease: IdempotencyLease }
+  | { state: 'replay'; responseStatus: number; responseBody: any };
+
+const DEFAULT_RETENTION_HOURS = 24;
+const PROCESSING_LEASE_MS = 2 * 60 * 1000;
+const LEASE_RENEW_MS = PROCESSING_LEASE_MS / 4;
+const MAX_KEY_LENGTH = 255;
+
+export class IdempotencyService {
+  private retentionMs = parseFloat(
+    process.env.IDEMPOTENCY_KEY_TTL_HOURS || String(DEFAULT_RETENTION_HOURS)
+  ) * 60 * 60 * 1000;
+
+  async begin(scope: string, key: string, requestBody: unknown): Promise<IdempotencyBeginResult> {
+    await connectDB();
+
+    if (!key || key.length > MAX_KEY_LENGTH) {
+      throw new IdempotencyError(`Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters`, 400);
+    }
+
+    const requestHash = hashRequest(requestBody);
+    const now = new Date();
+    const lease: IdempotencyLease = { scope, key, owner: crypto.randomUUID() };
+
+    try {
+      await IdempotencyKey.create({
+        scope,
+        key,
+        requestHash,
+        status: 'processing',
+        lockedUntil: new Date(now.getTime() + PROCESSING_LEASE_MS),
+        lockedBy: lease.owner,
+        expiresAt: new Date(now.getTime() + this.retentionMs),
+      });
+      return { state: 'new', lease };
+    } catch (error: any) {
+      if (error.code !== 11000) throw error;
+    }
+
+    const existing = await IdempotencyKey.findOne({ scope, key });
+    if (!existing) {
+      // Expired between insert and read: treat as new on the client's retry
+      throw new IdempotencyError('Idempotency key expired, please retry', 409);
+    }
+
+    if (existing.requestHash !== requestHash) {
+      throw new IdempotencyError('Idempotency-Key was already used with a different request', 422);
+    }
+
+    if (existing.status === 'completed') {
+      console.log(`[Idempotency ${scope}] Replaying response for key ${key}`);
+      return {
+        state: 'replay',
+        responseStatus: existing.responseStatus || 200,
+        responseBody: existing.responseBody,
+      };
+    }
+
+    // Still processing: take over only if the first request's lease ran out
+    const takenOver = await IdempotencyKey.findOneAndUpdate(
+      { scope, key, status: 'processing', lockedUntil: { $lte: now } },
+      { $set: { lockedUntil: new Date(now.getTime() + PROCESSING_LEASE_MS), lockedBy: lease.owner } }
+    );
+    if (takenOver) {
+      return { state: 'new', lease };
+    }
+
+    throw new IdempotencyError('A request with this Idempotency-Key is still being processed', 409);
+  }
+
+  /**
+   * Renew the lease every LEASE_RENEW_MS until the returned stop() is called
+   */
+  keepAlive(lease: IdempotencyLease): () => void {
+    const timer = setInterval(() => {
+      IdempotencyKey.updateOne(
+        leaseFilter(lease),
+        { $set: { lockedUntil: new Date(Date.now() + PROCESSING_LEASE_MS) } }
+      ).catch(error => console.error(`[Idempotency ${lease.scope}] Lease renewal failed for key ${lease.key}:`, error));
+    }, LEASE_RENEW_MS);
+    timer.unref?.();
+
+    return () => clearInterval(timer);
+  }
+
+  async complete(lease: IdempotencyLease, responseStatus: number, responseBody: any): Promise<void> {
+    const result = await IdempotencyKey.updateOne(
+      leaseFilter(lease),
+      {
+        $set: { status: 'completed', responseStatus, responseBody },
+        $unset: { lockedUntil: 1, lockedBy: 1 },
+      }
+    );
+
+    if (result.matchedCount === 0) {
+      console.warn(`[Idempotency ${lease.scope}] Lease lost for key ${lease.key}, response not stored`);
+    }
+  }
+
+  async release(lease: IdempotencyLease): Promise<void> {
+    await IdempotencyKey.deleteOne(leaseFilter(lease));
+  }
+}
+
+function leaseFilter(lease: IdempotencyLease) {
+  return { scope: lease.scope, key: lease.key, status: 'processing', lockedBy: lease.owner };
+}
+
+function hashRequest(body: unknown): string {
+  return crypto.createHash('sha256').update(JSON.stringify(body)).digest('hex');
+}
+
+/**
+ * Idempotency-Key conflict (reused with another body, or still in flight)
+ */
+export class IdempotencyError extends Error {
+  constructor(message: string, public statusCode: 400 | 409 | 422) {
+    super(message);
+    this.name = 'IdempotencyError';
+  }
+}
+
+// Singleton instance
+let idempotencyService: IdempotencyService | null = null;
+
+export function getIdempotencyService(): IdempotencyService {
+  if (!idempotencyService) {
+    idempotencyService = new IdempotencyService();
+  }
+  return idempotencyService;
+}
@@ -0,0 +1,491 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { nanoid } from 'nanoid';
+import {
+  WebhookEndpoint,
+  IWebhookEndpoint,
+  MERCHANT_WEBHOOK_EVENTS,
+  MerchantWebhookEventType,
+} from '@/models/WebhookEndpoint';
+import { WebhookDelivery, IWebhookDelivery } from '@/models/WebhookDelivery';
+import { Merchant } from '@/models/Merchant';
+import { DEFAULT_MERCHANT_ID } from '@/services/merchant.service';
+import { IPaymentOrder, PaymentStatus } from '@/models/PaymentOrder';
+import { connectDB } from '@/lib/mongodb';
+import {
+  signWebhookPayload,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  NONCE_HEADER,
+} from '@/lib/webhook-security';
+
+/**
+ * MERCHANT WEBHOOK SERVICE
+ * Signed outbound webhooks to merchant-registered endpoints
+ *
+ * Each request carries:
+ * - x-webhook-signature: hex(HMAC-SHA256(secret, `${timestamp}.${body}`))
+ * - x-webhook-timestamp: unix seconds
+ * - x-webhook-nonce: delivery ID (unique per delivery, stable across retries)
+ * - x-webhook-event: event type
+ *
+ * Status changes never wait on merchant endpoints: dispatch stores the
+ * deliveries and sends them in the background. Every attempt (background
+ * or retry worker) first claims its delivery with a lease on nextAttemptAt,
+ * so overlapping workers never POST the same delivery twice; a send that
+ * dies mid-way is picked up by the retry worker once the lease runs out.
+ */
+
+export interface CreateEndpointParams {
+  merchantId?: string;
+  url: string;
+  events?: string[];
+  description?: string;
+}
+
+export interface UpdateEndpointParams {
+  url?: string;
+  events?: string[];
+  description?: string;
+  active?: boolean;
+  rotateSecret?: boolean;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const RETRY_BASE_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 12 * 60 * 60 * 1000; // 12 hours
+const DELIVERY_TIMEOUT_MS = 10000;
+const DELIVERY_LEASE_MS = 60 * 1000; // Well past DELIVERY_TIMEOUT_MS
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+/**
+ * Order status -> merchant event type
+ */
+const STATUS_EVENTS: Partial<Record<PaymentStatus, MerchantWebhookEventType>> = {
+  pending: 'order.created',
+  detecting: 'order.detected',
+  processing: 'order.processing',
+  settling: 'order.settling',
+  completed: 'order.completed',
+  expired: 'order.expired',
+  failed: 'order.failed',
+  refunded: 'order.refunded',
+  underpaid: 'order.underpaid',
+  overpaid: 'order.overpaid',
+};
+
+export class MerchantWebhookService {
+  private maxAttempts = parseInt(
+    process.env.MERCHANT_WEBHOOK_MAX_ATTEMPTS || String(DEFAULT_MAX_ATTEMPTS),
+    10
+  );
+
+  /**
+   * Register a new endpoint
+   * Returns the endpoint including its signing secret
+   */
+  async createEndpoint(params: CreateEndpointParams): Promise<IWebhookEndpoint> {
+    await connectDB();
+
+    this.validateUrl(params.url);
+    const events = this.validateEvents(params.events || ['*']);
+
+    const { merchantId } = params;
+    if (merchantId && merchantId !== DEFAULT_MERCHANT_ID && !(await Merchant.exists({ merchantId }))) {
+      throw new WebhookEndpointValidationError(`Unknown merchant: ${merchantId}`);
+    }
+
+    const endpoint = await WebhookEndpoint.create({
+      endpointId: `we_${nanoid(16)}`,
+      merchantId: params.merchantId,
+      url: params.url,
+      description: params.description,
+      events,
+      secret: this.generateSecret(),
+      active: true,
+    });
+
+    console.log(`[MerchantWebhook] Endpoint registered: ${endpoint.endpointId} -> ${endpoint.url}`);
+
+    return endpoint;
+  }
+
+  async listEndpoints(merchantId?: string): Promise<IWebhookEndpoint[]> {
+    await connectDB();
+    return WebhookEndpoint.find(merchantId ? { merchantId } : {}).sort({ createdAt: -1 });
+  }
+
+  async getEndpoint(endpointId: string): Promise<IWebhookEndpoint | null> {
+    await connectDB();
+    return WebhookEndpoint.findOne({ endpointId });
+  }
+
+  async updateEndpoint(endpointId: string, params: UpdateEndpointParams): Promise<IWebhookEndpoint> {
+    await connectDB();
+
+    const endpoint = await WebhookEndpoint.findOne({ endpointId });
+    if (!endpoint) {
+      throw new Error(`Endpoint ${endpointId} not found`);
+    }
+
+    if (params.url !== undefined) {
+      this.validateUrl(params.url);
+      endpoint.url = params.url;
+    }
+    if (params.events !== undefined) {
+      endpoint.events = this.validateEvents(params.events);
+    }
+    if (params.description !== undefined) {
+      endpoint.description = params.description;
+    }
+    if (params.active !== undefined) {
+      endpoint.active = params.active;
+    }
+    if (params.rotateSecret) {
+      endpoint.secret = this.generateSecret();
+    }
+
+    await endpoint.save();
+    return endpoint;
+  }
+
+  async deleteEndpoint(endpointId: string): Promise<void> {
+    await connectDB();
+
+    const result = await WebhookEndpoint.deleteOne({ endpointId });
+    if (result.deletedCount === 0) {
+      throw new Error(`Endpoint ${endpointId} not found`);
+    }
+  }
+
+  async listDeliveries(endpointId: string, limit: number = 50): Promise<IWebhookDelivery[]> {
+    await connectDB();
+    return WebhookDelivery.find({ endpointId })
+      .sort({ createdAt: -1 })
+      .limit(Math.min(limit, 200));
+  }
+
+  /**
+   * Fan out an order status change to all subscribed endpoints
+   */
+  async dispatchOrderStatus(order: IPaymentOrder, status: PaymentStatus): Promise<void> {
+    const eventType = STATUS_EVENTS[status];
+    if (!eventType) return;
+
+    await this.dispatch(eventType, this.buildOrderData(order), order.orderId, order.merchantId);
+  }
+
+  /**
+   * Create one delivery per subscribed endpoint and send them in the
+   * background (returns once they are stored)
+   * Endpoints scoped to another merchant are skipped
+   * Failed attempts are picked up by retryDueDeliveries()
+   */
+  async dispatch(
+    eventType: MerchantWebhookEventType,
+    data: Record<string, any>,
+    orderId?: string,
+    merchantId?: string
+  ): Promise<void> {
+    await connectDB();
+
+    const endpoints = await WebhookEndpoint.find({
+      active: true,
+      events: { $in: [eventType, '*'] },
+      ...(merchantId ? { merchantId: { $in: [merchantId, null] } } : {}),
+    });
+
+    if (endpoints.length === 0) return;
+
+    const eventId = `evt_${nanoid(16)}`;
+    const payload = {
+      id: eventId,
+      type: eventType,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+
+    const deliveries = await WebhookDelivery.insertMany(
+      endpoints.map(endpoint => ({
+        deliveryId: `wd_${nanoid(16)}`,
+        eventId,
+        eventType,
+        endpointId: endpoint.endpointId,
+        orderId,
+        payload,
+        status: 'pending',
+        nextAttemptAt: new Date(),
+      }))
+    );
+
+    console.log(`[MerchantWebhook] ${eventType} -> ${deliveries.length} endpoint(s)`);
+
+    // Not awaited: the caller (a status update) must not wait on merchant servers
+    deliveries.forEach((delivery, i) => {
+      this.claimDelivery(delivery.deliveryId)
+        .then(claimed => claimed && this.attemptDelivery(claimed, endpoints[i]))
+        .catch(error => console.error(`[MerchantWebhook] Delivery ${delivery.deliveryId} error:`, error));
+    });
+  }
+
+  /**
+   * Send a test ping to an endpoint and return the recorded delivery
+   */
+  async sendTestPing(endpointId: string): Promise<IWebhookDelivery> {
+    await connectDB();
+
+    const endpoint = await WebhookEndpoint.findOne({ endpointId });
+    if (!endpoint) {
+      throw new Error(`Endpoint ${endpointId} not found`);
+    }
+
+    const eventId = `evt_${nanoid(16)}`;
+    const delivery = await WebhookDelivery.create({
+      deliveryId: `wd_${nanoid(16)}`,
+      eventId,
+      eventType: 'ping',
+      endpointId,
+      payload: {
+        id: eventId,
+        type: 'ping',
+        createdAt: new Date().toISOString(),
+        data: { message: 'Test webhook from CrossChain Payment Gateway' },
+      },
+      status: 'pending',
+    });
+
+    // Pings are one-shot: never retried
+    return this.attemptDelivery(delivery, endpoint, { retry: false });
+  }
+
+  /**
+   * Retry worker: re-attempt pending deliveries whose backoff has elapsed
+   */
+  async retryDueDeliveries(limit: number = 100): Promise<{ attempted: number; succeeded: number; failed: number }> {
+    await connectDB();
+
+    let attempted = 0;
+    let succeeded = 0;
+    let failed = 0;
+
+    while (attempted < limit) {
+      const delivery = await this.claimDelivery();
+      if (!delivery) break;
+
+      attempted++;
+      const endpoint = await WebhookEndpoint.findOne({ endpointId: delivery.endpointId });
+
+      if (!endpoint || !endpoint.active) {
+        delivery.status = 'failed';
+        delivery.nextAttemptAt = undefined;
+        await delivery.save();
+        failed++;
+        continue;
+      }
+
+      const result = await this.attemptDelivery(delivery, endpoint);
+      if (result.status === 'succeeded') {
+        succeeded++;
+      } else {
+        failed++;
+      }
+    }
+
+    return { attempted, succeeded, failed };
+  }
+
+  /**
+   * Claim a due delivery (a specific one, or the oldest due) by pushing
+   * nextAttemptAt out by DELIVERY_LEASE_MS; null if none is due or another
+   * worker holds it
+   */
+  private async claimDelivery(deliveryId?: string): Promise<IWebhookDelivery | null> {
+    const now = new Date();
+    return WebhookDelivery.findOneAndUpdate(
+      {
+        ...(deliveryId ? { deliveryId } : {}),
+        status: 'pending',
+        nextAttemptAt: { $lte: now },
+      },
+      { $set: { nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS) } },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    );
+  }
+
+  /**
+   * POST the payload once and record the attempt
+   */
+  private async attemptDelivery(
+    delivery: IWebhookDelivery,
+    endpoint: IWebhookEndpoint,
+    options: { retry: boolean } = { retry: true }
+  ): Promise<IWebhookDelivery> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const startedAt = Date.now();
+
+    const attempt: IWebhookDelivery['attempts'][number] = {
+      attemptedAt: new Date(),
+      durationMs: 0,
+    };
+
+    try {
+      const response = await axios.post(endpoint.url, body, {
+        timeout: DELIVERY_TIMEOUT_MS,
+        maxRedirects: 0,
+        validateStatus: () => true,
+        responseType: 'text',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'CrossChainPayment-Webhooks/1.0',
+          [SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, timestamp, body),
+          [TIMESTAMP_HEADER]: timestamp,
+          [NONCE_HEADER]: delivery.deliveryId,
+          'x-webhook-event': delivery.eventType,
+        },
+      });
+
+      attempt.responseStatus = response.status;
+      attempt.responseBody = String(response.data ?? '').slice(0, MAX_RESPONSE_BODY_LENGTH);
+    } catch (error: any) {
+      attempt.error = error.message || 'Request failed';
+    }
+
+    attempt.durationMs = Date.now() - startedAt;
+
+    const ok = attempt.responseStatus !== undefined &&
+      attempt.responseStatus >= 200 &&
+      attempt.responseStatus < 300;
+
+    delivery.attempts.push(attempt);
+    delivery.attemptCount += 1;
+
+    if (ok) {
+      delivery.status = 'succeeded';
+      delivery.deliveredAt = new Date();
+      delivery.nextAttemptAt = undefined;
+    } else if (!options.retry || delivery.attemptCount >= this.maxAttempts) {
+      delivery.status = 'failed';
+      delivery.nextAttemptAt = undefined;
+      console.error(`[MerchantWebhook] Delivery ${delivery.deliveryId} failed permanently after ${delivery.attemptCount} attempt(s)`);
+    } else {
+      delivery.nextAttemptAt = new Date(Date.now() + this.getRetryDelay(delivery.attemptCount));
+      console.warn(
+        `[MerchantWebhook] Delivery ${delivery.deliveryId} attempt ${delivery.attemptCount} failed: ` +
+        `${attempt.error || `HTTP ${attempt.responseStatus}`}`
+      );
+    }
+
+    await delivery.save();
+    return delivery;
+  }
+
+  private buildOrderData(order: IPaymentOrder): Record<string, any> {
+    return {
+      orderId: order.orderId,
+      orderNumber: order.orderNumber,
+      merchantId: order.merchantId,
+      status: order.status,
+      totalUSD: order.totalUSD,
+      customerEmail: order.customerEmail,
+      items: order.items.map(item => ({
+        productId: item.productId,
+        name: item.name,
+        quantity: item.quantity,
+        priceUSD: item.priceUSD,
+      })),
+      depositCoin: order.depositCoin,
+      depositNetwork: order.depositNetwork,
+      depositAmount: order.depositAmount,
+      depositTxHash: order.depositTxHash,
+      settleCoin: order.settleCoin,
+      settleNetwork: order.settleNetwork,
+      settleAmount: order.settleAmount,
+      settleTxHash: order.settleTxHash,
+      createdAt: order.createdAt,
+      completedAt: order.completedAt,
+    };
+  }
+
+  /**
+   * Endpoints must be HTTPS; plain HTTP is only allowed for
+   * localhost receivers outside production (integration testing)
+   */
+  private validateUrl(url: string): void {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new WebhookEndpointValidationError('Invalid endpoint URL');
+    }
+
+    if (parsed.protocol === 'https:') return;
+
+    const isLocal = ['localhost', '127.0.0.1', '[::1]'].includes(parsed.hostname);
+    if (parsed.protocol === 'http:' && isLocal && process.env.NODE_ENV !== 'production') return;
+
+    throw new WebhookEndpointValidationError('Endpoint URL must use HTTPS');
+  }
+
+  private validateEvents(events: string[]): string[] {
+    if (events.length === 0) {
+      throw new WebhookEndpointValidationError('At least one event type is required');
+    }
+
+    const invalid = events.filter(
+      e => e !== '*' && !(MERCHANT_WEBHOOK_EVENTS as readonly string[]).includes(e)
+    );
+    if (invalid.length > 0) {
+      throw new WebhookEndpointValidationError(`Unknown event type(s): ${invalid.join(', ')}`);
+    }
+
+    return Array.from(new Set(events));
+  }
+
+  private generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  }
+
+  /**
+   * Exponential backoff: base * 2^(attempt - 1), capped
+   */
+  private getRetryDelay(attempt: number): number {
+    return Math.min(RETRY_BASE_MS * Math.pow(2, attempt - 1), MAX_RETRY_DELAY_MS);
+  }
+}
+
+/**
+ * Public view of an endpoint (without the signing secret)
+ */
+export function serializeEndpoint(endpoint: IWebhookEndpoint) {
+  return {
+    endpointId: endpoint.endpointId,
+    merchantId: endpoint.merchantId,
+    url: endpoint.url,
+    description: endpoint.description,
+    events: endpoint.events,
+    active: endpoint.active,
+    createdAt: endpoint.createdAt,
+    updatedAt: endpoint.updatedAt,
+  };
+}
+
+/**
+ * Invalid endpoint configuration (bad URL, unknown event types)
+ */
+export class WebhookEndpointValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookEndpointValidationError';
+  }
+}
+
+// Singleton instance
+let merchantWebhookService: MerchantWebhookService | null = null;
+
+export function getMerchantWebhookService(): MerchantWebhookService {
+  if (!merchantWebhookService) {
+    merchantWebhookService = new MerchantWebhookService();
+  }
+  return merchantWebhookService;
+}
@@ -0,0 +1,250 @@
+import { Merchant, IMerchant } from '@/models/Merchant';
+import { connectDB } from '@/lib/mongodb';
+
+/**
+ * MERCHANT SERVICE
+ * Per-merchant settlement configuration (multi-tenant)
+ *
+ * Orders are scoped to a merchant and settle to that merchant's
+ * coin/network/address. Requests without a merchantId use the `default`
+ * merchant, which mirrors the SETTLEMENT_* env vars when they are set
+ * (the env stays the source of truth for its settlement fields).
+ */
+
+export const DEFAULT_MERCHANT_ID = 'default';
+
+export interface CreateMerchantParams {
+  merchantId: string;
+  name: string;
+  settleCoin: string;
+  settleNetwork: string;
+  settleAddress: string;
+  affiliateId?: string;
+  acceptedCoins?: Array<{ coin: string; network: string }>;
+  blockedCoins?: Array<{ coin: string; network?: string }>;
+  branding?: IMerchant['branding'];
+}
+
+export interface UpdateMerchantParams {
+  name?: string;
+  settleCoin?: string;
+  settleNetwork?: string;
+  settleAddress?: string;
+  affiliateId?: string;
+  acceptedCoins?: Array<{ coin: string; network: string }>;
+  blockedCoins?: Array<{ coin: string; network?: string }>;
+  branding?: IMerchant['branding'];
+  active?: boolean;
+}
+
+export class MerchantService {
+  /**
+   * Merchant an order should settle to
+   * No merchantId = the default (env-configured) merchant
+   */
+  async resolveMerchant(merchantId?: string): Promise<IMerchant> {
+    await connectDB();
+
+    if (!merchantId || merchantId === DEFAULT_MERCHANT_ID) {
+      return this.getDefaultMerchant();
+    }
+
+    const merchant = await Merchant.findOne({ merchantId });
+    if (!merchant) {
+      throw new MerchantError(`Merchant ${merchantId} not found`, 404);
+    }
+    if (!merchant.active) {
+      throw new MerchantError(`Merchant ${merchantId} is not active`);
+    }
+
+    return merchant;
+  }
+
+  /**
+   * The default merchant, kept in sync with SETTLEMENT_* when configured
+   */
+  async getDefaultMerchant(): Promise<IMerchant> {
+    await connectDB();
+
+    const settleAddress = process.env.SETTLEMENT_ADDRESS;
+
+    if (settleAddress) {
+      const merchant = await Merchant.findOneAndUpdate(
+        { merchantId: DEFAULT_MERCHANT_ID },
+        {
+          $set: {
+            settleCoin: process.env.SETTLEMENT_COIN || 'usdc',
+            settleNetwork: process.env.SETTLEMENT_NETWORK || 'arbitrum',
+            settleAddress,
+          },
+          $setOnInsert: {
+            name: 'Default',
+            active: true,
+          },
+        },
+        { upsert: true, new: true }
+      );
+      return merchant!;
+    }
+
+    // No env config: only usable if created through the admin API
+    const merchant = await Merchant.findOne({ merchantId: DEFAULT_MERCHANT_ID });
+    if (!merchant) {
+      throw new MerchantError('Default merchant is not configured (set SETTLEMENT_ADDRESS or pass merchantId)');
+    }
+    return merchant;
+  }
+
+  async createMerchant(params: CreateMerchantParams): Promise<IMerchant> {
+    await connectDB();
+
+    this.validateMerchantId(params.merchantId);
+
+    const existing = await Merchant.findOne({ merchantId: params.merchantId });
+    if (existing) {
+      throw new MerchantError(`Merchant ${params.merchantId} already exists`);
+    }
+
+    const merchant = await Merchant.create({
+      merchantId: params.merchantId,
+      name: params.name,
+      settleCoin: params.settleCoin.toLowerCase(),
+      settleNetwork: params.settleNetwork.toLowerCase(),
+      settleAddress: params.settleAddress,
+      affiliateId: params.affiliateId,
+      acceptedCoins: this.normalizeCoins(params.acceptedCoins || []),
+      blockedCoins: this.normalizeCoins(params.blockedCoins || []),
+      branding: params.branding || {},
+      active: true,
+    });
+
+    console.log(`[Merchant ${merchant.merchantId}] Created: settles ${merchant.settleCoin.toUpperCase()} on ${merchant.settleNetwork}`);
+
+    return merchant;
+  }
+
+  async listMerchants(): Promise<IMerchant[]> {
+    await connectDB();
+
+    // Make sure the env-configured default shows up before its first order
+    if (process.env.SETTLEMENT_ADDRESS) {
+      await this.getDefaultMerchant();
+    }
+
+    return Merchant.find().sort({ createdAt: -1 });
+  }
+
+  async getMerchant(merchantId: string): Promise<IMerchant | null> {
+    await connectDB();
+    return Merchant.findOne({ merchantId });
+  }
+
+  async updateMerchant(merchantId: string, params: UpdateMerchantParams): Promise<IMerchant> {
+    await connectDB();
+
+    const merchant = await Merchant.findOne({ merchantId });
+    if (!merchant) {
+      throw new MerchantError(`Merchant ${merchantId} not found`, 404);
+    }
+
+    const changesSettlement = params.settleCoin !== undefined ||
+      params.settleNetwork !== undefined ||
+      params.settleAddress !== undefined;
+
+    if (merchantId === DEFAULT_MERCHANT_ID && changesSettlement && process.env.SETTLEMENT_ADDRESS) {
+      throw new MerchantError('Default merchant settlement is configured via SETTLEMENT_* env vars');
+    }
+
+    if (params.name !== undefined) merchant.name = params.name;
+    if (params.settleCoin !== undefined) merchant.settleCoin = params.settleCoin.toLowerCase();
+    if (params.settleNetwork !== undefined) merchant.settleNetwork = params.settleNetwork.toLowerCase();
+    if (params.settleAddress !== undefined) merchant.settleAddress = params.settleAddress;
+    if (params.affiliateId !== undefined) merchant.affiliateId = params.affiliateId;
+    if (params.acceptedCoins !== undefined) merchant.acceptedCoins = this.normalizeCoins(params.acceptedCoins);
+    if (params.blockedCoins !== undefined) merchant.blockedCoins = this.normalizeCoins(params.blockedCoins);
+    if (params.branding !== undefined) {
+      for (const [key, value] of Object.entries(params.branding)) {
+        merchant.set(`branding.${key}`, value);
+      }
+    }
+    if (params.active !== undefined) merchant.active = params.active;
+
+    await merchant.save();
+    return merchant;
+  }
+
+  /**
+   * Can customers of this merchant pay with coin/network?
+   * Allow list (acceptedCoins, empty = all) minus deny list (blockedCoins)
+   */
+  isCoinAccepted(merchant: IMerchant, coin: string, network: string): boolean {
+    coin = coin.toLowerCase();
+    network = network.toLowerCase();
+
+    const blocked = (merchant.blockedCoins || []).some(
+      entry => entry.coin === coin && (!entry.network || entry.network === network)
+    );
+    if (blocked) return false;
+
+    if (merchant.acceptedCoins.length === 0) return true;
+
+    return merchant.acceptedCoins.some(
+      accepted => accepted.coin === coin && accepted.network === network
+    );
+  }
+
+  private validateMerchantId(merchantId: string): void {
+    if (!/^[a-z0-9][a-z0-9_-]{1,62}$/.test(merchantId)) {
+      throw new MerchantError('merchantId must be 2-63 lowercase letters, digits, "-" or "_"');
+    }
+  }
+
+  private normalizeCoins<T extends { coin: string; network?: string }>(coins: T[]): T[] {
+    return coins.map(entry => ({
+      ...entry,
+      coin: entry.coin.toLowerCase(),
+      network: entry.network?.toLowerCase(),
+    }) as T);
+  }
+}
+
+/**
+ * Public view of a merchant
+ */
+export function serializeMerchant(merchant: IMerchant) {
+  return {
+    merchantId: merchant.merchantId,
+    name: merchant.name,
+    settleCoin: merchant.settleCoin,
+    settleNetwork: merchant.settleNetwork,
+    settleAddress: merchant.settleAddress,
+    affiliateId: merchant.affiliateId,
+    acceptedCoins: merchant.acceptedCoins.map(({ coin, network }) => ({ coin, network })),
+    blockedCoins: (merchant.blockedCoins || []).map(({ coin, network }) => ({ coin, network })),
+    branding: merchant.branding,
+    active: merchant.active,
+    createdAt: merchant.createdAt,
+    updatedAt: merchant.updatedAt,
+  };
+}
+
+/**
+ * Merchant request that can't be fulfilled (bad config, inactive, coin not
+ * accepted: 400) or for a merchant that doesn't exist (404)
+ */
+export class MerchantError extends Error {
+  constructor(message: string, public statusCode: 400 | 404 = 400) {
+    super(message);
+    this.name = 'MerchantError';
+  }
+}
+
+// Singleton instance
+let merchantService: MerchantService | null = null;
+
+export function getMerchantService(): MerchantService {
+  if (!merchantService) {
+    merchantService = new MerchantService();
+  }
+  return merchantService;
+}
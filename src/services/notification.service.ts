@@ -0,0 +1,175 @@
+import { PaymentOrder, IPaymentOrder, PaymentStatus } from '@/models/PaymentOrder';
+import { Merchant } from '@/models/Merchant';
+import { connectDB } from '@/lib/mongodb';
+import { createCheckoutToken, ORDER_TOKEN_TTL_SECONDS } from '@/lib/api-auth';
+import { getEmailTransport } from '@/lib/email-transports';
+import { renderEmail, NotificationType } from '@/lib/email-templates';
+
+/**
+ * NOTIFICATION SERVICE
+ * Customer emails for payment lifecycle events
+ *
+ * Every send is recorded in order.notifications. A notification is claimed
+ * atomically (pushed as `sending`) before the transport is called, so the
+ * webhook, a poll and the monitor racing on the same event send it once.
+ * Failed sends can be retried by the next trigger; sent ones never repeat.
+ * A claim still `sending` after SENDING_LEASE_MS (the process died mid-send)
+ * counts as failed, so it is retried too (at-least-once in that case).
+ */
+
+const SENDING_LEASE_MS = 10 * 60 * 1000;
+
+// Status changes that email the customer
+const STATUS_NOTIFICATIONS: Partial<Record<PaymentStatus, NotificationType>> = {
+  pending: 'payment_created',
+  detecting: 'payment_detected',
+  completed: 'payment_completed',
+  expired: 'payment_expired',
+  failed: 'payment_failed',
+  refunded: 'payment_refunded',
+};
+
+// Tied to one quote: a re-quoted order gets these again
+const PER_QUOTE_NOTIFICATIONS: NotificationType[] = ['payment_expiring', 'payment_expired'];
+
+export class NotificationService {
+  /**
+   * Email the customer about a status change (if that status has a template)
+   */
+  async notifyOrderStatus(order: IPaymentOrder, status: PaymentStatus): Promise<void> {
+    const type = STATUS_NOTIFICATIONS[status];
+    if (type) {
+      await this.send(order, type);
+    }
+  }
+
+  /**
+   * Send one notification for an order, at most once
+   * Returns false if it was already sent (or is being sent)
+   */
+  async send(order: IPaymentOrder, type: NotificationType): Promise<boolean> {
+    await connectDB();
+
+    if (!order.customerEmail) {
+      return false;
+    }
+
+    const key = PER_QUOTE_NOTIFICATIONS.includes(type) ? `${type}:${order.shiftId}` : type;
+
+    // Release claims abandoned mid-send so they can be taken again
+    const staleBefore = new Date(Date.now() - SENDING_LEASE_MS);
+    await PaymentOrder.updateOne(
+      {
+        orderId: order.orderId,
+        notifications: { $elemMatch: { key, status: 'sending', createdAt: { $lt: staleBefore } } },
+      },
+      {
+        $set: {
+          'notifications.$[stale].status': 'failed',
+          'notifications.$[stale].error': 'Interrupted before the send was recorded',
+        },
+      },
+      {
+        arrayFilters: [{
+          'stale.key': key,
+          'stale.status': 'sending',
+          'stale.createdAt': { $lt: staleBefore },
+        }],
+      }
+    );
+
+    const claimed = await PaymentOrder.findOneAndUpdate(
+      {
+        orderId: order.orderId,
+        notifications: { $not: { $elemMatch: { key, status: { $in: ['sending', 'sent'] } } } },
+      },
+      {
+        $push: {
+          notifications: { key, type, status: 'sending', to: order.customerEmail, createdAt: new Date() },
+        },
+      },
+      { new: true }
+    );
+
+    if (!claimed) {
+      console.log(`[Notify ${order.orderId}] ${key} already sent`);
+      return false;
+    }
+
+    const transport = getEmailTransport();
+
+    try {
+      const message = await this.buildMessage(claimed, type);
+      const { messageId } = await transport.send(message);
+
+      await PaymentOrder.updateOne(
+        { orderId: order.orderId, notifications: { $elemMatch: { key, status: 'sending' } } },
+        {
+          $set: {
+            'notifications.$.status': 'sent',
+            'notifications.$.transport': transport.name,
+            'notifications.$.messageId': messageId,
+            'notifications.$.sentAt': new Date(),
+          },
+        }
+      );
+
+      console.log(`[Notify ${order.orderId}] Sent ${key} via ${transport.name}`);
+      return true;
+    } catch (error: any) {
+      await PaymentOrder.updateOne(
+        { orderId: order.orderId, notifications: { $elemMatch: { key, status: 'sending' } } },
+        {
+          $set: {
+            'notifications.$.status': 'failed',
+            'notifications.$.transport': transport.name,
+            'notifications.$.error': error.message,
+          },
+        }
+      );
+
+      console.error(`[Notify ${order.orderId}] Failed to send ${key}:`, error.message);
+      return false;
+    }
+  }
+
+  private async buildMessage(order: IPaymentOrder, type: NotificationType) {
+    const merchant = await Merchant.findOne({ merchantId: order.merchantId });
+    const merchantName = merchant?.branding?.displayName || merchant?.name || 'Crypto Checkout';
+
+    // Order token so the link opens the hosted page without a session
+    const { token } = createCheckoutToken({
+      merchantId: order.merchantId,
+      orderId: order.orderId,
+      scopes: ['read', 'create'],
+      ttlSeconds: ORDER_TOKEN_TTL_SECONDS,
+    });
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || '';
+    const paymentUrl = `${appUrl}/payment/${order.orderId}?token=${encodeURIComponent(token)}`;
+
+    const { subject, text, html } = renderEmail(type, {
+      order,
+      merchantName,
+      paymentUrl,
+      supportEmail: merchant?.branding?.supportEmail,
+    });
+
+    return {
+      from: process.env.EMAIL_FROM || `${merchantName} <no-reply@localhost>`,
+      to: order.customerEmail,
+      subject,
+      text,
+      html,
+    };
+  }
+}
+
+// Singleton instance
+let notificationService: NotificationService | null = null;
+
+export function getNotificationService(): NotificationService {
+  if (!notificationService) {
+    notificationService = new NotificationService();
+  }
+  return notificationService;
+}
@@ -0,0 +1,160 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = await vi.hoisted(async () => {
+  const { modelMock } = await import('@/test/mocks');
+  return {
+    PaymentOrder: modelMock('findOne', 'findOneAndUpdate'),
+    publishOrderUpdate: vi.fn(),
+    dispatchOrderStatus: vi.fn(),
+    notifyOrderStatus: vi.fn(),
+  };
+});
+
+vi.mock('@/lib/mongodb');
+vi.mock('@/models/PaymentOrder', () => ({ PaymentOrder: mocks.PaymentOrder }));
+vi.mock('@/lib/swap-providers', () => ({ getSwapProvider: vi.fn() }));
+vi.mock('@/lib/order-events', () => ({ publishOrderUpdate: mocks.publishOrderUpdate }));
+vi.mock('@/services/merchant-webhook.service', () => ({
+  getMerchantWebhookService: () => ({ dispatchOrderStatus: mocks.dispatchOrderStatus }),
+}));
+vi.mock('@/services/notification.service', () => ({
+  getNotificationService: () => ({ notifyOrderStatus: mocks.notifyOrderStatus }),
+}));
+vi.mock('@/services/merchant.service', () => ({ getMerchantService: vi.fn(), MerchantError: class extends Error {} }));
+vi.mock('@/services/catalog.service', () => ({ getCatalogService: vi.fn() }));
+vi.mock('@/services/coin-catalog.service', () => ({ getCoinCatalogService: vi.fn(), CoinCatalogError: class extends Error {} }));
+
+import { PaymentService } from '@/services/payment.service';
+import { buildOrder, OrderFixture } from '@/test/mocks';
+
+/**
+ * Stand-in for the collection: findOneAndUpdate only applies a status
+ * change when the filter's status still matches (compare-and-set)
+ */
+function useStoredOrder(initial: OrderFixture) {
+  const stored = buildOrder(initial);
+
+  mocks.PaymentOrder.findOne.mockImplementation(async () => ({ ...stored }));
+  mocks.PaymentOrder.findOneAndUpdate.mockImplementation(async (filter: any, update: any) => {
+    if (filter.fulfilledAt) {
+      return stored.fulfilledAt ? null : Object.assign(stored, update.$set);
+    }
+    if (filter.status && filter.status !== stored.status) {
+      return null;
+    }
+    if (filter.shiftId && filter.shiftId !== stored.shiftId) {
+      return null;
+    }
+    Object.assign(stored, update.$set);
+    return { ...stored };
+  });
+
+  return stored;
+}
+
+describe('PaymentService.updateOrderStatus', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.stubEnv('PAYMENT_AMOUNT_TOLERANCE_PERCENT', '0.5');
+    mocks.notifyOrderStatus.mockResolvedValue(undefined);
+  });
+
+  it('applies an allowed transition with a compare-and-set on status and shift', async () => {
+    useStoredOrder({ status: 'pending' });
+
+    const updated = await new PaymentService().updateOrderStatus('ord_1', 'processing', { source: 'webhook' });
+
+    expect(updated.status).toBe('processing');
+    expect(mocks.PaymentOrder.findOneAndUpdate).toHaveBeenCalledWith(
+      { orderId: 'ord_1', status: 'pending', shiftId: 'shift_1' },
+      expect.objectContaining({ $set: expect.objectContaining({ status: 'processing' }) }),
+      { new: true }
+    );
+    expect(mocks.publishOrderUpdate).toHaveBeenCalledTimes(1);
+    expect(mocks.dispatchOrderStatus).toHaveBeenCalledWith(expect.objectContaining({ orderId: 'ord_1' }), 'processing');
+  });
+
+  it('does not wait for the customer email', async () => {
+    useStoredOrder({ status: 'pending' });
+    mocks.notifyOrderStatus.mockReturnValue(new Promise(() => {}));
+
+    const updated = await new PaymentService().updateOrderStatus('ord_1', 'detecting');
+
+    expect(updated.status).toBe('detecting');
+    expect(mocks.notifyOrderStatus).toHaveBeenCalledWith(expect.objectContaining({ orderId: 'ord_1' }), 'detecting');
+  });
+
+  it('records a rejected transition instead of moving backwards', async () => {
+    const stored = useStoredOrder({ status: 'settling' });
+
+    await new PaymentService().updateOrderStatus('ord_1', 'processing', { source: 'poll', note: 'stale poll' });
+
+    expect(stored.status).toBe('settling');
+    const [, update] = mocks.PaymentOrder.findOneAndUpdate.mock.calls[0];
+    expect(update.$push.rejectedTransitions).toMatchObject({ from: 'settling', to: 'processing', source: 'poll' });
+    expect(update.$set).toBeUndefined();
+    expect(mocks.dispatchOrderStatus).not.toHaveBeenCalled();
+  });
+
+  it('re-reads and re-validates when another writer changed the status first', async () => {
+    const stored = useStoredOrder({ status: 'pending' });
+    // The first read sees pending, but a webhook moves the order on before the write
+    mocks.PaymentOrder.findOne.mockImplementationOnce(async () => {
+      const snapshot = { ...stored };
+      stored.status = 'settling';
+      return snapshot;
+    });
+
+    const updated = await new PaymentService().updateOrderStatus('ord_1', 'completed');
+
+    expect(updated.status).toBe('completed');
+    const statusFilters = mocks.PaymentOrder.findOneAndUpdate.mock.calls
+      .map(([filter]) => filter.status)
+      .filter(Boolean);
+    expect(statusFilters).toEqual(['pending', 'settling']);
+  });
+
+  it('does not resurrect a completed order from a concurrent stale update', async () => {
+    const stored = useStoredOrder({ status: 'pending' });
+    mocks.PaymentOrder.findOne.mockImplementationOnce(async () => {
+      const snapshot = { ...stored };
+      stored.status = 'completed';
+      return snapshot;
+    });
+
+    const updated = await new PaymentService().updateOrderStatus('ord_1', 'processing');
+
+    expect(stored.status).toBe('completed');
+    expect(updated.status).toBe('completed');
+    expect(mocks.dispatchOrderStatus).not.toHaveBeenCalled();
+  });
+
+  it('ignores updates for a shift the order no longer uses', async () => {
+    useStoredOrder({ status: 'pending', shiftId: 'shift_2' });
+
+    const result = await new PaymentService().updateOrderStatus('ord_1', 'completed', { shiftId: 'shift_1' });
+
+    expect(result.status).toBe('pending');
+    expect(mocks.PaymentOrder.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('redirects to underpaid when the deposit is short', async () => {
+    const stored = useStoredOrder({ status: 'detecting', depositAmount: '0.01' });
+
+    await new PaymentService().updateOrderStatus('ord_1', 'processing', { depositAmount: '0.009' });
+
+    expect(stored).toMatchObject({ status: 'underpaid', receivedAmount: '0.009', shortfallAmount: '0.001' });
+  });
+
+  it('claims fulfillment once on completion', async () => {
+    const stored = useStoredOrder({ status: 'settling' });
+
+    await new PaymentService().updateOrderStatus('ord_1', 'completed');
+
+    expect(stored.fulfilledAt).toBeInstanceOf(Date);
+    expect(mocks.PaymentOrder.findOneAndUpdate).toHaveBeenCalledWith(
+      { orderId: 'ord_1', fulfilledAt: { $exists: false } },
+      { $set: { fulfilledAt: expect.any(Date) } }
+    );
+  });
+});
@@ -1,29 +1,46 @@
+import mongoose from 'mongoose';
 import { nanoid } from 'nanoid';
-import { PaymentOrder, IPaymentOrder, PaymentStatus } from '@/models/PaymentOrder';
-import { getSideShiftClient, QuoteResponse, ShiftResponse } from '@/lib/sideshift';
+import { PaymentOrder, IPaymentOrder, PaymentStatus, PaymentMode } from '@/models/PaymentOrder';
+import { SwapProvider, SwapProviderError, SwapQuote, SwapShift, SwapPair } from '@/lib/swap-provider';
+import { getSwapProvider } from '@/lib/swap-providers';
 import { connectDB } from '@/lib/mongodb';
+import { publishOrderUpdate } from '@/lib/order-events';
+import { getMerchantWebhookService } from '@/services/merchant-webhook.service';
+import { getMerchantService, MerchantError } from '@/services/merchant.service';
+import { getNotificationService } from '@/services/notification.service';
+import { getCatalogService, CartLine, PricedCart } from '@/services/catalog.service';
+import { getCoinCatalogService, CoinCatalogError } from '@/services/coin-catalog.service';
+import { canTransition, mapShiftStatus, StatusUpdateSource } from '@/lib/payment-status';
+import { getWalletDeepLink } from '@/lib/utils';
 
 // Re-export PaymentStatus for convenience
 export type { PaymentStatus };
 
+// Max compare-and-set retries when concurrent writers race on an order
+const MAX_UPDATE_ATTEMPTS = 5;
+
+// Max times one order can be re-quoted after its quote expired
+const MAX_REQUOTES = 5;
+
+// Settle coins whose settled amount is recorded as totalUSD for open payments
+const USD_STABLECOINS = ['usdc', 'usdt', 'dai'];
+
 /**
  * PAYMENT SERVICE
  * Core business logic for payment processing
  */
 
 export interface CreatePaymentParams {
-  // Cart/Order info
-  items: Array<{
-    productId: string;
-    name: string;
-    quantity: number;
-    priceUSD: number;
-  }>;
-  totalUSD: number;
+  merchantId?: string; // Default: the env-configured default merchant
+  
+  // Cart: product IDs + quantities only, priced from the catalog
+  items?: CartLine[]; // Required for 'fixed', ignored for 'open'
+  mode?: PaymentMode; // Default: 'fixed'
   
   // Customer info
   customerEmail: string;
   customerWallet?: string; // For refunds
+  customerWalletMemo?: string; // Memo/tag for customerWallet on memo networks
   
   // Crypto preferences
   depositCoin: string;
@@ -37,60 +54,142 @@ export interface CreatePaymentParams {
 export interface CreatePaymentResult {
   order: IPaymentOrder;
   depositAddress: string;
-  depositAmount: string;
+  depositMemo?: string; // Must be sent with the deposit on memo networks
+  depositAmount: string; // Empty for open-amount payments
+  depositMin?: string;
+  depositMax?: string;
   qrCodeData: string;
   expiresAt: Date;
   expiresInMinutes: number;
 }
 
+export interface SearchOrdersParams {
+  merchantId?: string;
+  status?: PaymentStatus;
+  coin?: string; // Deposit coin
+  network?: string; // Deposit network
+  from?: Date; // createdAt >= from
+  to?: Date; // createdAt < to
+  q?: string; // orderNumber, orderId, email, deposit address or tx hash
+  page?: number; // 1-based
+  limit?: number;
+}
+
+export type OrderSortField = 'createdAt' | 'updatedAt' | 'totalUSD';
+
+export interface ListOrdersParams {
+  merchantId?: string; // Unset = all merchants (admin only)
+  status?: PaymentStatus[];
+  createdFrom?: Date; // createdAt >= createdFrom
+  createdTo?: Date; // createdAt < createdTo
+  depositCoin?: string;
+  settleNetwork?: string;
+  customerEmail?: string;
+
+  // Lookups (support: customer only has a tx hash or address)
+  depositTxHash?: string;
+  depositAddress?: string;
+  shiftId?: string; // Current or replaced (re-quoted) shift
+
+  sort?: OrderSortField; // Default: createdAt
+  direction?: 'asc' | 'desc'; // Default: desc
+  limit?: number; // Default 25, max 100
+  cursor?: string; // nextCursor from the previous page
+}
+
+export interface ListOrdersResult {
+  orders: IPaymentOrder[];
+  nextCursor: string | null; // null = last page
+}
+
+// Opaque page cursor: position of the last order returned
+interface OrderCursor {
+  sort: OrderSortField;
+  direction: 'asc' | 'desc';
+  value: string | number; // Sort field value (dates as ISO strings)
+  id: string; // _id tiebreaker for equal sort values
+}
+
 export class PaymentService {
-  private sideshift = getSideShiftClient();
-  
   /**
    * STEP 1: Create a new payment order
-   * This creates quote, shift, and returns deposit address
+   * Fixed mode: creates quote + fixed shift for the exact USD total
+   * Open mode: creates a variable shift, any amount within SideShift's limits
+   * Returns the deposit address either way
    */
   async createPayment(params: CreatePaymentParams): Promise<CreatePaymentResult> {
     await connectDB();
 
+    const mode: PaymentMode = params.mode || 'fixed';
+
     // Generate unique order ID
     const orderId = nanoid(12);
     const orderNumber = `ORD-${Date.now().toString(36).toUpperCase()}-${nanoid(6)}`;
 
-    // Get settlement config from env
-    const settleCoin = process.env.SETTLEMENT_COIN || 'usdc';
-    const settleNetwork = process.env.SETTLEMENT_NETWORK || 'arbitrum';
-    const settleAddress = process.env.SETTLEMENT_ADDRESS;
+    // Settlement config comes from the order's merchant
+    const merchantService = getMerchantService();
+    const merchant = await merchantService.resolveMerchant(params.merchantId);
 
-    if (!settleAddress) {
-      throw new Error('SETTLEMENT_ADDRESS not configured');
+    if (!merchantService.isCoinAccepted(merchant, params.depositCoin, params.depositNetwork)) {
+      throw new MerchantError(
+        `${params.depositCoin.toUpperCase()} on ${params.depositNetwork} is not accepted by this merchant`
+      );
     }
 
-    // Step 1: Request quote from SideShift
-    // We specify settleAmount (what we want to receive in USDC)
-    console.log(`[Payment ${orderId}] Requesting quote for $${params.totalUSD} USD`);
-    
-    const quote = await this.sideshift.requestQuote({
-      depositCoin: params.depositCoin,
-      depositNetwork: params.depositNetwork,
-      settleCoin,
-      settleNetwork,
-      settleAmount: params.totalUSD.toFixed(6), // USDC amount
-      affiliateId: process.env.SIDESHIFT_AFFILIATE_ID!,
-    });
-
-    console.log(`[Payment ${orderId}] Quote received: ${quote.depositAmount} ${params.depositCoin.toUpperCase()}`);
-
-    // Step 2: Create fixed shift (generates deposit address)
-    const shift = await this.sideshift.createFixedShift({
-      quoteId: quote.id,
-      settleAddress,
-      affiliateId: process.env.SIDESHIFT_AFFILIATE_ID!,
-      refundAddress: params.customerWallet, // Optional: for auto-refunds
-    });
+    if (!(await getCoinCatalogService().isAvailable(merchant, params.depositCoin, params.depositNetwork))) {
+      throw new CoinCatalogError(
+        `${params.depositCoin.toUpperCase()} on ${params.depositNetwork} is not currently supported`
+      );
+    }
 
-    console.log(`[Payment ${orderId}] Shift created: ${shift.id}`);
-    console.log(`[Payment ${orderId}] Deposit address: ${shift.depositAddress}`);
+    const { settleCoin, settleNetwork, settleAddress } = merchant;
+    const affiliateId = merchant.affiliateId || process.env.SIDESHIFT_AFFILIATE_ID!;
+
+    // Trusted pricing: never take names/prices/totals from the client
+    const cart: PricedCart = mode === 'fixed'
+      ? await getCatalogService().priceCart(merchant.merchantId, params.items || [])
+      : { items: [], totalUSD: 0 };
+
+    // Step 1 + 2: Quote and shift (generates deposit address)
+    const provider = getSwapProvider();
+    let quote: SwapQuote | undefined;
+    let shift: SwapShift;
+
+    if (mode === 'fixed') {
+      ({ quote, shift } = await this.requestFixedShift(provider, orderId, {
+        depositCoin: params.depositCoin,
+        depositNetwork: params.depositNetwork,
+        settleCoin,
+        settleNetwork,
+        settleAddress,
+        affiliateId,
+        totalUSD: cart.totalUSD,
+        refundAddress: params.customerWallet,
+        refundMemo: params.customerWalletMemo,
+      }));
+    } else {
+      await this.checkPairLimits(provider, orderId, {
+        depositCoin: params.depositCoin,
+        depositNetwork: params.depositNetwork,
+        settleCoin,
+        settleNetwork,
+      });
+
+      console.log(`[Payment ${orderId}] Creating variable shift (open amount)`);
+
+      shift = await provider.createVariableShift({
+        depositCoin: params.depositCoin,
+        depositNetwork: params.depositNetwork,
+        settleCoin,
+        settleNetwork,
+        settleAddress,
+        affiliateId,
+        refundAddress: params.customerWallet,
+        refundMemo: params.customerWalletMemo,
+      });
+
+      console.log(`[Payment ${orderId}] Shift created: ${shift.id} (min ${shift.depositMin}, max ${shift.depositMax})`);
+    }
 
     // Step 3: Save to database
     const expiresAt = new Date(shift.expiresAt);
@@ -100,18 +199,25 @@ export class PaymentService {
     const order = await PaymentOrder.create({
       orderId,
       orderNumber,
-      items: params.items,
-      totalUSD: params.totalUSD,
+      merchantId: merchant.merchantId,
+      items: cart.items,
+      totalUSD: cart.totalUSD,
+      paymentMode: mode,
+      provider: provider.name,
       customerEmail: params.customerEmail,
       customerWallet: params.customerWallet,
+      customerWalletMemo: params.customerWalletMemo,
       
-      quoteId: quote.id,
+      quoteId: quote?.id,
       shiftId: shift.id,
       
       depositCoin: params.depositCoin,
       depositNetwork: params.depositNetwork,
       depositAddress: shift.depositAddress,
+      depositMemo: shift.depositMemo,
       depositAmount: shift.depositAmount,
+      depositMin: shift.depositMin,
+      depositMax: shift.depositMax,
       
       settleCoin,
       settleNetwork,
@@ -126,26 +232,32 @@ export class PaymentService {
       }],
       
       quoteExpiresAt: expiresAt,
-      exchangeRate: parseFloat(quote.rate),
-      quotedAt: new Date(quote.createdAt),
+      exchangeRate: quote ? parseFloat(quote.rate) : undefined,
+      quotedAt: quote ? new Date(quote.createdAt) : now,
       
       ipAddress: params.ipAddress,
       userAgent: params.userAgent,
-      affiliateId: process.env.SIDESHIFT_AFFILIATE_ID,
+      affiliateId,
     });
 
+    await this.notifyStatusChange(order, 'pending');
+
     // Generate QR code data (for wallet apps)
-    // Format: coin:address?amount=X
+    // Format: coin:address?amount=X (no amount for open payments, plus the memo on memo networks)
     const qrCodeData = this.generatePaymentURI(
       params.depositCoin,
       shift.depositAddress,
-      shift.depositAmount || ''
+      shift.depositAmount || '',
+      shift.depositMemo
     );
 
     return {
       order,
       depositAddress: shift.depositAddress,
+      depositMemo: shift.depositMemo,
       depositAmount: shift.depositAmount || '',
+      depositMin: shift.depositMin,
+      depositMax: shift.depositMax,
       qrCodeData,
       expiresAt,
       expiresInMinutes,
@@ -153,17 +265,11 @@ export class PaymentService {
   }
 
   /**
-   * STEP 2: Update order status from SideShift webhook or polling
+   * Re-quote an expired payment
+   * Requests a fresh quote and fixed shift for the same order, keeps the
+   * previous shift in shiftHistory and restarts the countdown
    */
-  async updateOrderStatus(
-    orderId: string,
-    newStatus: PaymentStatus,
-    metadata?: {
-      depositTxHash?: string;
-      settleTxHash?: string;
-      note?: string;
-    }
-  ): Promise<IPaymentOrder> {
+  async requotePayment(orderId: string): Promise<CreatePaymentResult> {
     await connectDB();
 
     const order = await PaymentOrder.findOne({ orderId });
@@ -171,41 +277,242 @@ export class PaymentService {
       throw new Error(`Order ${orderId} not found`);
     }
 
-    // Don't update if already in terminal state
-    if (['completed', 'refunded', 'expired'].includes(order.status)) {
-      console.log(`[Payment ${orderId}] Already in terminal state: ${order.status}`);
-      return order;
+    const quoteExpired = !order.quoteExpiresAt || order.quoteExpiresAt.getTime() <= Date.now();
+    const requotable = order.status === 'expired' || (order.status === 'pending' && quoteExpired);
+
+    if (!requotable || order.depositTxHash) {
+      throw new RequoteError(`Order in status "${order.status}" cannot be re-quoted`);
     }
 
-    console.log(`[Payment ${orderId}] Status: ${order.status} -> ${newStatus}`);
+    if (order.paymentMode === 'open') {
+      throw new RequoteError('Open-amount payments cannot be re-quoted, please start a new checkout');
+    }
+
+    if (order.shiftHistory.length >= MAX_REQUOTES) {
+      throw new RequoteError('Maximum number of re-quotes reached, please start a new checkout');
+    }
 
-    order.status = newStatus;
-    order.statusHistory.push({
-      status: newStatus,
-      timestamp: new Date(),
-      note: metadata?.note,
+    const { quote, shift } = await this.requestFixedShift(getSwapProvider(order.provider), orderId, {
+      depositCoin: order.depositCoin,
+      depositNetwork: order.depositNetwork,
+      settleCoin: order.settleCoin,
+      settleNetwork: order.settleNetwork,
+      settleAddress: order.settleAddress,
+      affiliateId: order.affiliateId || process.env.SIDESHIFT_AFFILIATE_ID!,
+      totalUSD: order.totalUSD,
+      refundAddress: order.customerWallet,
+      refundMemo: order.customerWalletMemo,
     });
 
-    if (metadata?.depositTxHash) {
-      order.depositTxHash = metadata.depositTxHash;
-    }
+    const expiresAt = new Date(shift.expiresAt);
+    const now = new Date();
 
-    if (metadata?.settleTxHash) {
-      order.settleTxHash = metadata.settleTxHash;
-    }
+    // Compare-and-set on status + shift so a concurrent re-quote (or a
+    // late deposit) can't be overwritten
+    const updated = await PaymentOrder.findOneAndUpdate(
+      { orderId, status: order.status, shiftId: order.shiftId },
+      {
+        $set: {
+          status: 'pending',
+          quoteId: quote.id,
+          shiftId: shift.id,
+          depositAddress: shift.depositAddress,
+          depositMemo: shift.depositMemo,
+          depositAmount: shift.depositAmount,
+          depositMin: shift.depositMin,
+          depositMax: shift.depositMax,
+          settleAmount: shift.settleAmount,
+          quoteExpiresAt: expiresAt,
+          exchangeRate: parseFloat(quote.rate),
+          quotedAt: new Date(quote.createdAt),
+          expiryReminderSent: false,
+        },
+        $push: {
+          shiftHistory: {
+            quoteId: order.quoteId,
+            shiftId: order.shiftId,
+            depositAddress: order.depositAddress,
+            depositMemo: order.depositMemo,
+            depositAmount: order.depositAmount,
+            settleAmount: order.settleAmount,
+            exchangeRate: order.exchangeRate,
+            quoteExpiresAt: order.quoteExpiresAt,
+            replacedAt: now,
+          },
+          statusHistory: {
+            status: 'pending',
+            timestamp: now,
+            note: `Re-quoted: new shift ${shift.id} replaces ${order.shiftId}`,
+          },
+        },
+      },
+      { new: true }
+    );
 
-    if (newStatus === 'completed') {
-      order.completedAt = new Date();
+    if (!updated) {
+      throw new RequoteError('Order changed while re-quoting, please refresh');
     }
 
-    await order.save();
+    console.log(`[Payment ${orderId}] Re-quoted: ${order.shiftId} -> ${shift.id}`);
+
+    publishOrderUpdate(updated);
+
+    return {
+      order: updated,
+      depositAddress: shift.depositAddress,
+      depositMemo: shift.depositMemo,
+      depositAmount: shift.depositAmount || '',
+      qrCodeData: this.generatePaymentURI(order.depositCoin, shift.depositAddress, shift.depositAmount || '', shift.depositMemo),
+      expiresAt,
+      expiresInMinutes: Math.floor((expiresAt.getTime() - now.getTime()) / 60000),
+    };
+  }
+
+  /**
+   * STEP 2: Update order status from SideShift webhook or polling
+   * Transitions are validated against STATUS_TRANSITIONS; illegal ones are
+   * recorded in rejectedTransitions and the order is returned unchanged
+   * 
+   * Concurrency: the webhook, the poll route and the monitor can race on the
+   * same order. Each transition is a conditional update on the status we
+   * read (compare-and-set), so only one writer wins; losers re-read and
+   * re-evaluate, which turns duplicates into no-ops.
+   */
+  async updateOrderStatus(
+    orderId: string,
+    newStatus: PaymentStatus,
+    metadata?: {
+      depositTxHash?: string;
+      settleTxHash?: string;
+      note?: string;
+      refundId?: string;
+      depositAmount?: string; // Amount actually received, from SideShift
+      settleAmount?: string; // Final settled amount, from SideShift
+      source?: StatusUpdateSource;
+      shiftId?: string; // Only apply if the order is still on this shift
+    }
+  ): Promise<IPaymentOrder> {
+    await connectDB();
 
-    // TODO: Trigger order fulfillment webhook/email
-    if (newStatus === 'completed') {
-      await this.handleOrderCompletion(order);
+    for (let attempt = 1; attempt <= MAX_UPDATE_ATTEMPTS; attempt++) {
+      const order = await PaymentOrder.findOne({ orderId });
+      if (!order) {
+        throw new Error(`Order ${orderId} not found`);
+      }
+
+      // Update is about a shift that was since replaced by a re-quote
+      if (metadata?.shiftId && order.shiftId !== metadata.shiftId) {
+        console.log(`[Payment ${orderId}] Ignoring update for replaced shift ${metadata.shiftId}`);
+        return order;
+      }
+
+      const fields: Record<string, any> = {};
+      let targetStatus = newStatus;
+
+      // Compare what arrived with what was quoted
+      if (metadata?.depositAmount) {
+        const amounts = this.checkReceivedAmount(order, targetStatus, metadata.depositAmount);
+        targetStatus = amounts.status;
+        Object.assign(fields, amounts.fields);
+      }
+
+      if (metadata?.depositTxHash) {
+        fields.depositTxHash = metadata.depositTxHash;
+      }
+
+      if (metadata?.settleTxHash) {
+        fields.settleTxHash = metadata.settleTxHash;
+      }
+
+      // Final settled amount (the only amount we get for open payments)
+      if (metadata?.settleAmount && targetStatus === 'completed') {
+        fields.settleAmount = metadata.settleAmount;
+
+        if (order.paymentMode === 'open' && USD_STABLECOINS.includes(order.settleCoin.toLowerCase())) {
+          fields.totalUSD = parseFloat(metadata.settleAmount);
+        }
+      }
+
+      const previousStatus = order.status;
+
+      // Same status: only refresh hashes/amounts, no history entry
+      if (targetStatus === previousStatus) {
+        if (Object.keys(fields).length === 0) {
+          return order;
+        }
+        const updated = await PaymentOrder.findOneAndUpdate(
+          { orderId },
+          { $set: fields },
+          { new: true }
+        );
+        if (updated) publishOrderUpdate(updated);
+        return updated || order;
+      }
+
+      if (!canTransition(previousStatus, targetStatus)) {
+        console.warn(
+          `[Payment ${orderId}] Rejected transition ${previousStatus} -> ${targetStatus}` +
+          (metadata?.source ? ` (from ${metadata.source})` : '')
+        );
+
+        const updated = await PaymentOrder.findOneAndUpdate(
+          { orderId },
+          {
+            $push: {
+              rejectedTransitions: {
+                from: previousStatus,
+                to: targetStatus,
+                source: metadata?.source,
+                note: metadata?.note,
+                timestamp: new Date(),
+              },
+            },
+          },
+          { new: true }
+        );
+        return updated || order;
+      }
+
+      if (targetStatus === 'completed') {
+        fields.completedAt = new Date();
+      }
+
+      // Compare-and-set on the status (and shift) we validated against
+      const updated = await PaymentOrder.findOneAndUpdate(
+        { orderId, status: previousStatus, ...(order.shiftId ? { shiftId: order.shiftId } : {}) },
+        {
+          $set: { ...fields, status: targetStatus },
+          $push: {
+            statusHistory: {
+              status: targetStatus,
+              timestamp: new Date(),
+              note: metadata?.note,
+              refundId: metadata?.refundId,
+            },
+          },
+        },
+        { new: true }
+      );
+
+      if (!updated) {
+        // Another writer changed the status first: re-read and re-evaluate
+        console.log(`[Payment ${orderId}] Concurrent update detected, retrying (${attempt}/${MAX_UPDATE_ATTEMPTS})`);
+        continue;
+      }
+
+      console.log(`[Payment ${orderId}] Status: ${previousStatus} -> ${targetStatus}`);
+
+      publishOrderUpdate(updated);
+      await this.notifyStatusChange(updated, targetStatus);
+
+      if (targetStatus === 'completed') {
+        await this.handleOrderCompletion(updated);
+      }
+
+      return updated;
     }
 
-    return order;
+    throw new Error(`Order ${orderId} update conflicted ${MAX_UPDATE_ATTEMPTS} times`);
   }
 
   /**
@@ -220,26 +527,24 @@ export class PaymentService {
       throw new Error(`Order ${orderId} not found or has no shiftId`);
     }
 
-    const shiftStatus = await this.sideshift.getShiftStatus(order.shiftId);
-
-    // Map SideShift status to our status
-    const statusMap: Record<string, PaymentStatus> = {
-      'waiting': 'pending',
-      'pending': 'detecting',
-      'processing': 'processing',
-      'settling': 'settling',
-      'settled': 'completed',
-      'refund': 'failed',
-      'refunded': 'refunded',
-      'expired': 'expired',
-    };
+    const provider = getSwapProvider(order.provider);
+    const shiftStatus = await provider.getShiftStatus(order.shiftId);
+
+    const newStatus = mapShiftStatus(shiftStatus.status);
 
-    const newStatus = statusMap[shiftStatus.status] || 'pending';
+    if (!newStatus) {
+      console.warn(`[Payment ${orderId}] Unknown ${provider.displayName} status: ${shiftStatus.status}`);
+      return order;
+    }
 
     return this.updateOrderStatus(orderId, newStatus, {
       depositTxHash: shiftStatus.depositHash,
       settleTxHash: shiftStatus.settleHash,
-      note: `SideShift status: ${shiftStatus.status}`,
+      depositAmount: shiftStatus.depositAmount,
+      settleAmount: shiftStatus.settleAmount,
+      note: `${provider.displayName} status: ${shiftStatus.status}`,
+      source: 'poll',
+      shiftId: order.shiftId,
     });
   }
 
@@ -259,39 +564,448 @@ export class PaymentService {
     return PaymentOrder.find({ customerEmail: email }).sort({ createdAt: -1 });
   }
 
+  /**
+   * Cursor-paginated order list for the merchant orders API
+   *
+   * Pages are keyed on (sort field, _id), so orders created or updated while
+   * a client pages through never shift items between pages the way
+   * offset pagination would.
+   */
+  async listOrders(params: ListOrdersParams): Promise<ListOrdersResult> {
+    await connectDB();
+
+    const sort = params.sort || 'createdAt';
+    const direction = params.direction || 'desc';
+    const limit = Math.min(Math.max(params.limit || 25, 1), 100);
+
+    const conditions: Record<string, any>[] = [];
+
+    if (params.merchantId) conditions.push({ merchantId: params.merchantId });
+    if (params.status?.length) conditions.push({ status: { $in: params.status } });
+    if (params.depositCoin) conditions.push({ depositCoin: params.depositCoin.toLowerCase() });
+    if (params.settleNetwork) conditions.push({ settleNetwork: params.settleNetwork.toLowerCase() });
+
+    if (params.createdFrom || params.createdTo) {
+      conditions.push({
+        createdAt: {
+          ...(params.createdFrom ? { $gte: params.createdFrom } : {}),
+          ...(params.createdTo ? { $lt: params.createdTo } : {}),
+        },
+      });
+    }
+
+    if (params.customerEmail) {
+      const email = params.customerEmail.trim();
+      conditions.push({ customerEmail: { $in: [email, email.toLowerCase()] } });
+    }
+
+    if (params.depositTxHash) conditions.push({ depositTxHash: params.depositTxHash.trim() });
+    if (params.depositAddress) conditions.push({ depositAddress: params.depositAddress.trim() });
+    if (params.shiftId) {
+      const shiftId = params.shiftId.trim();
+      conditions.push({ $or: [{ shiftId }, { 'shiftHistory.shiftId': shiftId }] });
+    }
+
+    if (params.cursor) {
+      const cursor = decodeOrderCursor(params.cursor);
+      if (cursor.sort !== sort || cursor.direction !== direction) {
+        throw new OrderQueryError('Cursor does not match the requested sort');
+      }
+
+      const value = sort === 'totalUSD' ? cursor.value : new Date(cursor.value);
+      const op = direction === 'desc' ? '$lt' : '$gt';
+      const id = new mongoose.Types.ObjectId(cursor.id);
+
+      conditions.push({
+        $or: [
+          { [sort]: { [op]: value } },
+          { [sort]: value, _id: { [op]: id } },
+        ],
+      });
+    }
+
+    const order = direction === 'desc' ? -1 : 1;
+
+    const orders = await PaymentOrder.find(conditions.length ? { $and: conditions } : {})
+      .sort({ [sort]: order, _id: order })
+      .limit(limit + 1);
+
+    const hasMore = orders.length > limit;
+    const page = hasMore ? orders.slice(0, limit) : orders;
+    const last = page[page.length - 1];
+
+    return {
+      orders: page,
+      nextCursor: hasMore && last ? encodeOrderCursor({
+        sort,
+        direction,
+        value: sort === 'totalUSD' ? last.totalUSD : new Date(last[sort]).toISOString(),
+        id: String(last._id),
+      }) : null,
+    };
+  }
+
+  /**
+   * Filtered, paginated order list (admin dashboard), newest first
+   */
+  async searchOrders(params: SearchOrdersParams): Promise<{ orders: IPaymentOrder[]; total: number }> {
+    await connectDB();
+
+    const query: Record<string, any> = {};
+
+    if (params.merchantId) query.merchantId = params.merchantId;
+    if (params.status) query.status = params.status;
+    if (params.coin) query.depositCoin = params.coin.toLowerCase();
+    if (params.network) query.depositNetwork = params.network.toLowerCase();
+
+    if (params.from || params.to) {
+      query.createdAt = {
+        ...(params.from ? { $gte: params.from } : {}),
+        ...(params.to ? { $lt: params.to } : {}),
+      };
+    }
+
+    // Exact matches only, so every branch can use an index
+    const q = params.q?.trim();
+    if (q) {
+      query.$or = [
+        { orderNumber: q },
+        { orderId: q },
+        { customerEmail: { $in: [q, q.toLowerCase()] } },
+        { depositAddress: q },
+        { depositTxHash: q },
+        { settleTxHash: q },
+        { shiftId: q },
+      ];
+    }
+
+    const limit = Math.min(Math.max(params.limit || 50, 1), 200);
+    const page = Math.max(params.page || 1, 1);
+
+    const [orders, total] = await Promise.all([
+      PaymentOrder.find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      PaymentOrder.countDocuments(query),
+    ]);
+
+    return { orders, total };
+  }
+
+  /**
+   * Request a quote for the USD total and create a fixed shift from it
+   */
+  private async requestFixedShift(
+    provider: SwapProvider,
+    orderId: string,
+    params: {
+      depositCoin: string;
+      depositNetwork: string;
+      settleCoin: string;
+      settleNetwork: string;
+      settleAddress: string;
+      affiliateId: string;
+      totalUSD: number;
+      refundAddress?: string;
+      refundMemo?: string;
+    }
+  ): Promise<{ quote: SwapQuote; shift: SwapShift }> {
+    // Pre-flight: a clear "minimum order" beats the provider rejecting the quote
+    await this.checkPairLimits(provider, orderId, params, params.totalUSD);
+
+    // We specify settleAmount (what we want to receive in USDC)
+    console.log(`[Payment ${orderId}] Requesting quote for $${params.totalUSD} USD`);
+    
+    const quote = await provider.requestQuote({
+      depositCoin: params.depositCoin,
+      depositNetwork: params.depositNetwork,
+      settleCoin: params.settleCoin,
+      settleNetwork: params.settleNetwork,
+      settleAmount: params.totalUSD.toFixed(6), // USDC amount
+      affiliateId: params.affiliateId,
+    });
+
+    console.log(`[Payment ${orderId}] Quote received: ${quote.depositAmount} ${params.depositCoin.toUpperCase()}`);
+
+    const shift = await provider.createFixedShift({
+      quoteId: quote.id,
+      settleAddress: params.settleAddress,
+      affiliateId: params.affiliateId,
+      refundAddress: params.refundAddress, // Optional: for auto-refunds
+      refundMemo: params.refundMemo,
+    });
+
+    console.log(`[Payment ${orderId}] Shift created: ${shift.id}`);
+    console.log(`[Payment ${orderId}] Deposit address: ${shift.depositAddress}`);
+
+    return { quote, shift };
+  }
+
+  /**
+   * Pre-flight: can the deposit coin be deposited and the settle coin settled
+   * (coin permissions), is the pair allowed, and is totalUSD within its
+   * deposit limits? Limits come in deposit coin units and are converted at the pair rate
+   * (settle coins are USD stablecoins, same assumption as the quote)
+   */
+  private async checkPairLimits(
+    provider: SwapProvider,
+    orderId: string,
+    params: { depositCoin: string; depositNetwork: string; settleCoin: string; settleNetwork: string },
+    totalUSD?: number
+  ): Promise<SwapPair> {
+    const coin = params.depositCoin.toUpperCase();
+
+    let pair: SwapPair;
+    try {
+      const [depositPermissions, settlePermissions] = await Promise.all([
+        provider.getCoinPermissions(params.depositCoin, params.depositNetwork),
+        provider.getCoinPermissions(params.settleCoin, params.settleNetwork),
+      ]);
+      if (!depositPermissions.deposit || !settlePermissions.settle) {
+        console.warn(`[Payment ${orderId}] ${coin}/${params.depositNetwork} -> ${params.settleCoin}/${params.settleNetwork} not permitted (deposit: ${depositPermissions.deposit}, settle: ${settlePermissions.settle})`);
+        throw new PaymentLimitError('pair_unavailable', `${coin} on ${params.depositNetwork} can't be used for this payment right now`);
+      }
+
+      pair = await provider.getPairInfo(
+        params.depositCoin,
+        params.depositNetwork,
+        params.settleCoin,
+        params.settleNetwork
+      );
+    } catch (error) {
+      if (error instanceof SwapProviderError && (error.category === 'invalid_request' || error.category === 'not_found')) {
+        console.warn(`[Payment ${orderId}] Pair ${coin}/${params.depositNetwork} rejected: ${error.message}`);
+        throw new PaymentLimitError('pair_unavailable', `${coin} on ${params.depositNetwork} can't be used for this payment right now`);
+      }
+      throw error;
+    }
+
+    if (totalUSD === undefined) {
+      return pair;
+    }
+
+    const rate = parseFloat(pair.rate);
+    const minUSD = Math.ceil(parseFloat(pair.min) * rate * 100) / 100;
+    const maxUSD = Math.floor(parseFloat(pair.max) * rate * 100) / 100;
+
+    if (totalUSD < minUSD) {
+      throw new PaymentLimitError('below_minimum', `Minimum order for ${coin} is $${minUSD.toFixed(2)}`, { minUSD, maxUSD });
+    }
+    if (totalUSD > maxUSD) {
+      throw new PaymentLimitError('above_maximum', `Maximum order for ${coin} is $${maxUSD.toFixed(2)}`, { minUSD, maxUSD });
+    }
+
+    return pair;
+  }
+
   /**
    * Generate payment URI for QR codes
    */
-  private generatePaymentURI(coin: string, address: string, amount: string): string {
+  private generatePaymentURI(coin: string, address: string, amount: string, memo?: string): string {
     // Standard crypto payment URI format
     // bitcoin:address?amount=X
     // ethereum:address?value=X
-    
-    const coinURI = coin.toLowerCase();
-    
-    if (amount) {
-      return `${coinURI}:${address}?amount=${amount}`;
+    // Same builder as the payment page, so the QR code and wallet link match
+    return getWalletDeepLink(coin, address, amount, memo);
+  }
+
+  /**
+   * Compare the received amount with the quote and redirect to
+   * underpaid/overpaid when it is outside PAYMENT_AMOUNT_TOLERANCE_PERCENT
+   * 
+   * - underpaid: sticks until SideShift refunds/fails the shift (never completes)
+   * - overpaid: replaces in-progress statuses; the order still completes on
+   *   settlement, with excessAmount kept for a refund
+   */
+  private checkReceivedAmount(
+    order: IPaymentOrder,
+    newStatus: PaymentStatus,
+    receivedAmount: string
+  ): { status: PaymentStatus; fields: Record<string, string> } {
+    const inFlight: PaymentStatus[] = ['detecting', 'processing', 'settling', 'completed'];
+    if (!inFlight.includes(newStatus)) {
+      return { status: newStatus, fields: {} };
     }
-    
-    return `${coinURI}:${address}`;
+
+    const fields: Record<string, string> = { receivedAmount };
+    const expected = parseFloat(order.depositAmount || '');
+    const received = parseFloat(receivedAmount);
+
+    // Open payments have no expected amount: any deposit is fine
+    if (order.paymentMode === 'open' || Number.isNaN(expected) || Number.isNaN(received)) {
+      return { status: newStatus, fields };
+    }
+
+    const tolerancePercent = parseFloat(process.env.PAYMENT_AMOUNT_TOLERANCE_PERCENT || '0.5');
+    const tolerance = expected * (tolerancePercent / 100);
+    const difference = received - expected;
+
+    if (difference < -tolerance) {
+      fields.shortfallAmount = formatAmount(-difference);
+      console.warn(`[Payment ${order.orderId}] Underpaid: received ${received}, expected ${expected}`);
+      return { status: 'underpaid', fields };
+    }
+
+    if (difference > tolerance) {
+      fields.excessAmount = formatAmount(difference);
+      console.warn(`[Payment ${order.orderId}] Overpaid: received ${received}, expected ${expected}`);
+      return { status: newStatus === 'completed' ? 'completed' : 'overpaid', fields };
+    }
+
+    return { status: newStatus, fields };
   }
 
   /**
-   * Handle order completion (send confirmation email, trigger fulfillment)
+   * Send merchant webhooks and the customer email for a status change
+   * Delivery failures are retried separately and never block the status update
+   */
+  private async notifyStatusChange(order: IPaymentOrder, status: PaymentStatus): Promise<void> {
+    try {
+      await getMerchantWebhookService().dispatchOrderStatus(order, status);
+    } catch (error) {
+      console.error(`[Payment ${order.orderId}] Failed to dispatch merchant webhooks:`, error);
+    }
+
+    // Not awaited: a slow mail server mustn't hold up the status update
+    getNotificationService().notifyOrderStatus(order, status)
+      .catch(error => console.error(`[Payment ${order.orderId}] Failed to notify customer:`, error));
+  }
+
+  /**
+   * Handle order completion (trigger fulfillment)
    */
   private async handleOrderCompletion(order: IPaymentOrder): Promise<void> {
+    // Claim fulfillment atomically: runs exactly once per order, even if
+    // completion is reported by the webhook and a poll at the same time
+    const claimed = await PaymentOrder.findOneAndUpdate(
+      { orderId: order.orderId, fulfilledAt: { $exists: false } },
+      { $set: { fulfilledAt: new Date() } }
+    );
+
+    if (!claimed) {
+      console.log(`[Payment ${order.orderId}] Fulfillment already handled`);
+      return;
+    }
+
     console.log(`[Payment ${order.orderId}] 🎉 ORDER COMPLETED!`);
     console.log(`  - Customer: ${order.customerEmail}`);
     console.log(`  - Amount: $${order.totalUSD} USD`);
     console.log(`  - Settled: ${order.settleAmount} ${order.settleCoin.toUpperCase()}`);
     console.log(`  - Tx Hash: ${order.settleTxHash}`);
 
+    // Merchant systems get the order.completed webhook and the customer the
+    // payment_completed email (see notifyStatusChange).
     // TODO: Implement your business logic here:
-    // 1. Send confirmation email to customer
-    // 2. Trigger order fulfillment (digital goods delivery, etc.)
-    // 3. Update inventory
-    // 4. Send to accounting system
-    // 5. Notify merchant dashboard
+    // 1. Trigger order fulfillment (digital goods delivery, etc.)
+    // 2. Update inventory
+    // 3. Send to accounting system
+  }
+}
+
+/**
+ * Format a crypto amount without float noise (max 8 decimals)
+ */
+export function formatAmount(amount: number): string {
+  return parseFloat(amount.toFixed(8)).toString();
+}
+
+function encodeOrderCursor(cursor: OrderCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeOrderCursor(encoded: string): OrderCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as OrderCursor;
+    if (
+      !cursor.sort ||
+      !cursor.direction ||
+      cursor.value === undefined ||
+      !mongoose.Types.ObjectId.isValid(cursor.id)
+    ) {
+      throw new Error('incomplete cursor');
+    }
+    return cursor;
+  } catch {
+    throw new OrderQueryError('Invalid cursor');
+  }
+}
+
+/**
+ * Order as returned by the merchant orders API
+ * (no request metadata such as IP address or user agent)
+ */
+export function serializeOrder(order: IPaymentOrder) {
+  return {
+    orderId: order.orderId,
+    orderNumber: order.orderNumber,
+    merchantId: order.merchantId,
+    status: order.status,
+    paymentMode: order.paymentMode,
+    provider: order.provider,
+    items: order.items,
+    totalUSD: order.totalUSD,
+    customerEmail: order.customerEmail,
+    customerWallet: order.customerWallet,
+    customerWalletMemo: order.customerWalletMemo,
+    shiftId: order.shiftId,
+    depositCoin: order.depositCoin,
+    depositNetwork: order.depositNetwork,
+    depositAddress: order.depositAddress,
+    depositMemo: order.depositMemo,
+    depositAmount: order.depositAmount,
+    depositMin: order.depositMin,
+    depositMax: order.depositMax,
+    receivedAmount: order.receivedAmount,
+    shortfallAmount: order.shortfallAmount,
+    excessAmount: order.excessAmount,
+    refundedAmount: order.refundedAmount,
+    depositTxHash: order.depositTxHash,
+    settleCoin: order.settleCoin,
+    settleNetwork: order.settleNetwork,
+    settleAddress: order.settleAddress,
+    settleAmount: order.settleAmount,
+    settleTxHash: order.settleTxHash,
+    exchangeRate: order.exchangeRate,
+    expiresAt: order.quoteExpiresAt,
+    createdAt: order.createdAt,
+    updatedAt: order.updatedAt,
+    completedAt: order.completedAt,
+    statusHistory: order.statusHistory,
+  };
+}
+
+/**
+ * Order list query can't be served (bad cursor, cursor/sort mismatch)
+ */
+export class OrderQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrderQueryError';
+  }
+}
+
+/**
+ * Order can't be re-quoted (wrong state, limit reached, concurrent change)
+ */
+export class RequoteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RequoteError';
+  }
+}
+
+/**
+ * Order can't be paid with the chosen coin (pair not allowed, amount outside limits)
+ */
+export class PaymentLimitError extends Error {
+  constructor(
+    public code: 'pair_unavailable' | 'below_minimum' | 'above_maximum',
+    message: string,
+    public limits?: { minUSD: number; maxUSD: number }
+  ) {
+    super(message);
+    this.name = 'PaymentLimitError';
   }
 }
 
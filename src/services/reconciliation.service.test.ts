@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = await vi.hoisted(async () => {
+  const { modelMock } = await import('@/test/mocks');
+  return {
+    ReconciliationReport: modelMock('findOne', 'findOneAndUpdate', 'updateMany', 'create'),
+    PaymentOrder: modelMock('find', 'countDocuments', 'aggregate'),
+    getShiftStatus: vi.fn(),
+    getAffiliateStats: vi.fn(),
+  };
+});
+
+vi.mock('@/lib/mongodb');
+vi.mock('@/models/ReconciliationReport', () => ({ ReconciliationReport: mocks.ReconciliationReport }));
+vi.mock('@/models/PaymentOrder', () => ({ PaymentOrder: mocks.PaymentOrder }));
+vi.mock('@/lib/swap-providers', () => ({
+  LEGACY_SWAP_PROVIDER: 'sideshift',
+  getSwapProvider: () => ({
+    displayName: 'SideShift',
+    getShiftStatus: mocks.getShiftStatus,
+    getAffiliateStats: mocks.getAffiliateStats,
+  }),
+}));
+
+import { ReconciliationService, ReconciliationError } from '@/services/reconciliation.service';
+import { buildOrder } from '@/test/mocks';
+
+describe('ReconciliationService.startReport', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mocks.ReconciliationReport.create.mockImplementation(async (fields: any) => fields);
+  });
+
+  it('clears a crashed run before opening the report', async () => {
+    const report = await new ReconciliationService().startReport('cron', 48);
+
+    const [filter, update] = mocks.ReconciliationReport.updateMany.mock.calls[0];
+    expect(filter).toMatchObject({ status: 'running', startedAt: { $lte: expect.any(Date) } });
+    expect(update.$set).toMatchObject({ status: 'failed' });
+    expect(report).toMatchObject({ status: 'running', trigger: 'cron' });
+  });
+
+  it('refuses a concurrent start caught by the unique running index', async () => {
+    mocks.ReconciliationReport.create.mockRejectedValue(Object.assign(new Error('E11000'), { code: 11000 }));
+    mocks.ReconciliationReport.findOne.mockResolvedValue({ reportId: 'rec_1', status: 'running' });
+
+    const start = new ReconciliationService().startReport('admin', 48);
+
+    await expect(start).rejects.toThrow(ReconciliationError);
+    await expect(start).rejects.toThrow('Reconciliation rec_1 is already running');
+  });
+});
+
+describe('ReconciliationService.runReport', () => {
+  const report = {
+    reportId: 'rec_1',
+    status: 'running',
+    windowStart: new Date('2026-10-01T00:00:00Z'),
+    windowEnd: new Date('2026-10-03T00:00:00Z'),
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.stubEnv('RECONCILIATION_MAX_ORDERS', '2');
+    mocks.ReconciliationReport.findOne.mockResolvedValue(report);
+    mocks.ReconciliationReport.findOneAndUpdate.mockImplementation(async (_filter: any, update: any) => update.$set);
+    mocks.PaymentOrder.aggregate.mockResolvedValue([]);
+    mocks.getAffiliateStats.mockResolvedValue({});
+    mocks.getShiftStatus.mockResolvedValue({ id: 'shift_1', status: 'waiting' });
+  });
+
+  it('checks the newest orders and flags a capped window', async () => {
+    const limit = vi.fn().mockResolvedValue([buildOrder({ orderId: 'ord_3' }), buildOrder({ orderId: 'ord_2' })]);
+    const sort = vi.fn(() => ({ limit }));
+    mocks.PaymentOrder.find.mockReturnValue({ sort });
+    mocks.PaymentOrder.countDocuments.mockResolvedValue(3);
+
+    const result = await new ReconciliationService().runReport('rec_1');
+
+    expect(sort).toHaveBeenCalledWith({ createdAt: -1 });
+    expect(limit).toHaveBeenCalledWith(2);
+    expect(result).toMatchObject({ status: 'completed', ordersInWindow: 3, ordersChecked: 2, ordersTruncated: true });
+  });
+
+  it('does not flag a window within the cap', async () => {
+    mocks.PaymentOrder.find.mockReturnValue({ sort: () => ({ limit: async () => [buildOrder()] }) });
+    mocks.PaymentOrder.countDocuments.mockResolvedValue(1);
+
+    const result = await new ReconciliationService().runReport('rec_1');
+
+    expect(result).toMatchObject({ ordersInWindow: 1, ordersChecked: 1, ordersTruncated: false });
+  });
+});
@@ -0,0 +1,379 @@
+import { nanoid } from 'nanoid';
+import {
+  ReconciliationReport,
+  IReconciliationReport,
+  DiscrepancyType,
+} from '@/models/ReconciliationReport';
+import { PaymentOrder, IPaymentOrder } from '@/models/PaymentOrder';
+import { SwapProviderError, SwapShiftStatus } from '@/lib/swap-provider';
+import { getSwapProvider, LEGACY_SWAP_PROVIDER } from '@/lib/swap-providers';
+import { connectDB } from '@/lib/mongodb';
+import { mapShiftStatus } from '@/lib/payment-status';
+
+/**
+ * RECONCILIATION SERVICE
+ * Checks that our orders agree with their swap provider (SideShift)
+ *
+ * For every order created in the lookback window with a shift (newest first,
+ * up to RECONCILIATION_MAX_ORDERS; older ones were covered by earlier runs of
+ * the overlapping window, and a capped report says so), the shift is
+ * fetched (getShiftStatus, from the order's provider) and compared with the order:
+ * - status: mapped provider status vs ours
+ * - deposit/settle amounts and transaction hashes
+ * Lifetime completed-shift totals of SideShift orders for the platform
+ * affiliate ID are compared with getAffiliateStats. Everything that disagrees goes into a
+ * ReconciliationReport; nothing on the order is changed.
+ */
+
+type Discrepancy = IReconciliationReport['discrepancies'][number];
+
+const DEFAULT_LOOKBACK_HOURS = 48;
+const DEFAULT_MAX_ORDERS = 500;
+const MAX_STORED_DISCREPANCIES = 1000;
+const RUN_LEASE_MS = 30 * 60 * 1000; // A crashed run stops blocking new ones after this
+const AMOUNT_EPSILON = 1e-8;
+const VOLUME_TOLERANCE = 0.01; // 1% on affiliate volume (their USD rates vs our quotes)
+
+// getAffiliateStats isn't typed by SideShift's docs: fields we compare if present
+const AFFILIATE_COUNT_FIELDS = ['shiftCount', 'shifts', 'totalShifts', 'count'];
+const AFFILIATE_VOLUME_FIELDS = ['volumeUsd', 'volumeUSD', 'totalVolumeUsd', 'volume'];
+
+export class ReconciliationService {
+  private maxOrders = parseInt(process.env.RECONCILIATION_MAX_ORDERS || String(DEFAULT_MAX_ORDERS), 10);
+
+  /**
+   * Open a report for the last `lookbackHours` (one run at a time)
+   * A run that outlived RUN_LEASE_MS crashed: it is marked failed first, so
+   * it doesn't hold the running slot
+   */
+  async startReport(
+    trigger: 'cron' | 'admin',
+    lookbackHours: number = parseFloat(process.env.RECONCILIATION_LOOKBACK_HOURS || String(DEFAULT_LOOKBACK_HOURS))
+  ): Promise<IReconciliationReport> {
+    await connectDB();
+
+    const now = new Date();
+
+    await ReconciliationReport.updateMany(
+      { status: 'running', startedAt: { $lte: new Date(now.getTime() - RUN_LEASE_MS) } },
+      { $set: { status: 'failed', error: 'Run abandoned (no result within the lease)', completedAt: now } }
+    );
+
+    try {
+      return await ReconciliationReport.create({
+        reportId: `rec_${nanoid(12)}`,
+        trigger,
+        status: 'running',
+        windowStart: new Date(now.getTime() - lookbackHours * 60 * 60 * 1000),
+        windowEnd: now,
+        startedAt: now,
+      });
+    } catch (error: any) {
+      if (error.code !== 11000) throw error;
+
+      const running = await ReconciliationReport.findOne({ status: 'running' });
+      throw new ReconciliationError(
+        running ? `Reconciliation ${running.reportId} is already running` : 'A reconciliation is already running'
+      );
+    }
+  }
+
+  /**
+   * Compare every order in the report's window and store the findings
+   */
+  async runReport(reportId: string): Promise<IReconciliationReport | null> {
+    await connectDB();
+
+    const report = await ReconciliationReport.findOne({ reportId, status: 'running' });
+    if (!report) {
+      return ReconciliationReport.findOne({ reportId });
+    }
+
+    console.log(`[Reconcile ${reportId}] Checking orders since ${report.windowStart.toISOString()}`);
+
+    const discrepancies: Discrepancy[] = [];
+    const orderErrors: IReconciliationReport['orderErrors'] = [];
+    let ordersChecked = 0;
+    let ordersMatched = 0;
+
+    try {
+      const inWindow = {
+        shiftId: { $exists: true },
+        createdAt: { $gte: report.windowStart, $lt: report.windowEnd },
+      };
+      const ordersInWindow = await PaymentOrder.countDocuments(inWindow);
+      const ordersTruncated = ordersInWindow > this.maxOrders;
+      if (ordersTruncated) {
+        console.warn(
+          `[Reconcile ${reportId}] ${ordersInWindow} orders in the window, checking the newest ` +
+          `${this.maxOrders} (RECONCILIATION_MAX_ORDERS)`
+        );
+      }
+
+      const orders = await PaymentOrder.find(inWindow)
+        .sort({ createdAt: -1 })
+        .limit(this.maxOrders);
+
+      for (const order of orders) {
+        ordersChecked++;
+
+        let shift: SwapShiftStatus;
+        try {
+          shift = await getSwapProvider(order.provider).getShiftStatus(order.shiftId!);
+        } catch (error: any) {
+          if (error instanceof SwapProviderError && error.statusCode === 404) {
+            discrepancies.push({
+              type: 'shift_not_found',
+              severity: 'high',
+              orderId: order.orderId,
+              shiftId: order.shiftId,
+              orderStatus: order.status,
+              note: `${getSwapProvider(order.provider).displayName} has no shift with this ID`,
+            });
+          } else {
+            orderErrors.push({ orderId: order.orderId, shiftId: order.shiftId, error: error.message });
+          }
+          continue;
+        }
+
+        const found = this.compareOrder(order, shift);
+        if (found.length === 0) {
+          ordersMatched++;
+        }
+        discrepancies.push(...found);
+      }
+
+      const affiliateTotals = await this.compareAffiliateTotals(discrepancies);
+
+      const updated = await ReconciliationReport.findOneAndUpdate(
+        { reportId },
+        {
+          $set: {
+            status: 'completed',
+            ordersInWindow,
+            ordersChecked,
+            ordersTruncated,
+            ordersMatched,
+            discrepancyCount: discrepancies.length,
+            discrepancies: discrepancies.slice(0, MAX_STORED_DISCREPANCIES),
+            truncated: discrepancies.length > MAX_STORED_DISCREPANCIES,
+            orderErrors: orderErrors.slice(0, MAX_STORED_DISCREPANCIES),
+            affiliateTotals,
+            completedAt: new Date(),
+          },
+        },
+        { new: true }
+      );
+
+      console.log(
+        `[Reconcile ${reportId}] Checked ${ordersChecked} orders: ${ordersMatched} matched, ` +
+        `${discrepancies.length} discrepancies, ${orderErrors.length} errors`
+      );
+
+      return updated;
+
+    } catch (error: any) {
+      console.error(`[Reconcile ${reportId}] Failed:`, error);
+
+      return ReconciliationReport.findOneAndUpdate(
+        { reportId },
+        {
+          $set: {
+            status: 'failed',
+            error: error.message,
+            ordersChecked,
+            ordersMatched,
+            completedAt: new Date(),
+          },
+        },
+        { new: true }
+      );
+    }
+  }
+
+  async getReport(reportId: string): Promise<IReconciliationReport | null> {
+    await connectDB();
+    return ReconciliationReport.findOne({ reportId });
+  }
+
+  async listReports(limit: number = 20): Promise<IReconciliationReport[]> {
+    await connectDB();
+    return ReconciliationReport.find()
+      .select('-discrepancies -orderErrors')
+      .sort({ createdAt: -1 })
+      .limit(Math.min(limit, 100));
+  }
+
+  /**
+   * Field-by-field comparison of one order with its shift
+   */
+  private compareOrder(order: IPaymentOrder, shift: SwapShiftStatus): Discrepancy[] {
+    const found: Discrepancy[] = [];
+    const base = { orderId: order.orderId, shiftId: order.shiftId, orderStatus: order.status };
+
+    const add = (type: DiscrepancyType, severity: 'high' | 'low', field: string, ours?: string, theirs?: string, note?: string) => {
+      found.push({ ...base, type, severity, field, ours, theirs, note });
+    };
+
+    // Status. underpaid/overpaid come from our amount checks and a refund
+    // runs on its own shift, so SideShift can't confirm those
+    const expected = mapShiftStatus(shift.status);
+    const refundedByUs = order.status === 'refunded' && order.statusHistory.some(entry => entry.refundId);
+    if (
+      expected &&
+      expected !== order.status &&
+      !['underpaid', 'overpaid'].includes(order.status) &&
+      !refundedByUs
+    ) {
+      // Money has moved (or not) differently from what we think
+      const high = expected === 'completed' || order.status === 'completed' ||
+        expected === 'refunded' || expected === 'failed';
+      add('status', high ? 'high' : 'low', 'status', order.status, shift.status,
+        high ? undefined : 'Order is behind SideShift (missed webhook?); a poll will catch it up');
+    }
+
+    // Deposit: what SideShift received vs what we recorded
+    if (shift.depositAmount && shift.status !== 'waiting' && shift.status !== 'expired') {
+      if (!order.receivedAmount) {
+        add('deposit_amount', 'low', 'receivedAmount', undefined, shift.depositAmount, 'Deposit not recorded on the order');
+      } else if (amountsDiffer(order.receivedAmount, shift.depositAmount)) {
+        add('deposit_amount', 'high', 'receivedAmount', order.receivedAmount, shift.depositAmount);
+      }
+    }
+
+    // Settlement: only final once SideShift has settled
+    if (shift.status === 'settled' && shift.settleAmount) {
+      if (!order.settleAmount || amountsDiffer(order.settleAmount, shift.settleAmount)) {
+        add('settle_amount', 'high', 'settleAmount', order.settleAmount, shift.settleAmount);
+      }
+    }
+
+    if (shift.depositHash && shift.depositHash !== order.depositTxHash) {
+      add('deposit_hash', order.depositTxHash ? 'high' : 'low', 'depositTxHash', order.depositTxHash, shift.depositHash);
+    }
+
+    if (shift.settleHash && shift.settleHash !== order.settleTxHash) {
+      add('settle_hash', order.settleTxHash ? 'high' : 'low', 'settleTxHash', order.settleTxHash, shift.settleHash);
+    }
+
+    return found;
+  }
+
+  /**
+   * Lifetime completed shifts/volume for the platform affiliate vs SideShift
+   */
+  private async compareAffiliateTotals(
+    discrepancies: Discrepancy[]
+  ): Promise<IReconciliationReport['affiliateTotals']> {
+    const affiliateId = process.env.SIDESHIFT_AFFILIATE_ID || '';
+
+    const [totals] = await PaymentOrder.aggregate<{ completedShifts: number; volumeUSD: number }>([
+      {
+        $match: {
+          provider: { $in: [LEGACY_SWAP_PROVIDER, null] }, // null: orders from before providers were stored
+          status: { $in: ['completed', 'refunded'] },
+          completedAt: { $exists: true },
+          $or: [{ affiliateId }, { affiliateId: { $exists: false } }],
+        },
+      },
+      { $group: { _id: null, completedShifts: { $sum: 1 }, volumeUSD: { $sum: '$totalUSD' } } },
+    ]);
+
+    const ours = {
+      completedShifts: totals?.completedShifts || 0,
+      volumeUSD: Math.round((totals?.volumeUSD || 0) * 100) / 100,
+    };
+
+    let theirs: any;
+    try {
+      theirs = await getSwapProvider(LEGACY_SWAP_PROVIDER).getAffiliateStats();
+    } catch (error: any) {
+      return { affiliateId, ours, error: error.message };
+    }
+
+    const theirCount = pickNumber(theirs, AFFILIATE_COUNT_FIELDS);
+    if (theirCount !== undefined && theirCount !== ours.completedShifts) {
+      discrepancies.push({
+        type: 'affiliate_totals',
+        severity: 'low', // Other integrations may share the affiliate ID
+        field: 'completedShifts',
+        ours: String(ours.completedShifts),
+        theirs: String(theirCount),
+      });
+    }
+
+    const theirVolume = pickNumber(theirs, AFFILIATE_VOLUME_FIELDS);
+    if (
+      theirVolume !== undefined &&
+      Math.abs(theirVolume - ours.volumeUSD) > Math.max(theirVolume, ours.volumeUSD) * VOLUME_TOLERANCE
+    ) {
+      discrepancies.push({
+        type: 'affiliate_totals',
+        severity: 'low',
+        field: 'volumeUSD',
+        ours: String(ours.volumeUSD),
+        theirs: String(theirVolume),
+      });
+    }
+
+    return { affiliateId, ours, theirs };
+  }
+}
+
+function amountsDiffer(a: string, b: string): boolean {
+  return Math.abs(parseFloat(a) - parseFloat(b)) > AMOUNT_EPSILON;
+}
+
+function pickNumber(source: any, fields: string[]): number | undefined {
+  for (const field of fields) {
+    const value = source?.[field];
+    if (value !== undefined && value !== null && !isNaN(Number(value))) {
+      return Number(value);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reconciliation can't start (another run in progress)
+ */
+export class ReconciliationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReconciliationError';
+  }
+}
+
+export function serializeReconciliationReport(report: IReconciliationReport, includeDetails: boolean = false) {
+  return {
+    reportId: report.reportId,
+    trigger: report.trigger,
+    status: report.status,
+    windowStart: report.windowStart,
+    windowEnd: report.windowEnd,
+    ordersInWindow: report.ordersInWindow,
+    ordersChecked: report.ordersChecked,
+    ordersTruncated: report.ordersTruncated,
+    ordersMatched: report.ordersMatched,
+    discrepancyCount: report.discrepancyCount,
+    truncated: report.truncated,
+    affiliateTotals: report.affiliateTotals,
+    error: report.error,
+    startedAt: report.startedAt,
+    completedAt: report.completedAt,
+    ...(includeDetails ? {
+      discrepancies: report.discrepancies,
+      orderErrors: report.orderErrors,
+    } : {}),
+  };
+}
+
+// Singleton instance
+let reconciliationService: ReconciliationService | null = null;
+
+export function getReconciliationService(): ReconciliationService {
+  if (!reconciliationService) {
+    reconciliationService = new ReconciliationService();
+  }
+  return reconciliationService;
+}
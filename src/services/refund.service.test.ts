@@ -0,0 +1,233 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = await vi.hoisted(async () => {
+  const { modelMock } = await import('@/test/mocks');
+  return {
+    Refund: modelMock('find', 'findOne', 'findOneAndUpdate', 'create'),
+    PaymentOrder: modelMock('findOne', 'updateOne'),
+    getShiftStatus: vi.fn(),
+    getPairInfo: vi.fn(),
+    updateOrderStatus: vi.fn(),
+  };
+});
+
+vi.mock('@/lib/mongodb');
+vi.mock('@/models/Refund', () => ({ Refund: mocks.Refund }));
+vi.mock('@/models/PaymentOrder', () => ({ PaymentOrder: mocks.PaymentOrder }));
+vi.mock('@/lib/swap-providers', () => ({
+  getSwapProvider: () => ({ getShiftStatus: mocks.getShiftStatus, getPairInfo: mocks.getPairInfo }),
+}));
+vi.mock('@/services/payment.service', () => ({
+  getPaymentService: () => ({ updateOrderStatus: mocks.updateOrderStatus }),
+  formatAmount: (amount: number) => parseFloat(amount.toFixed(8)).toString(),
+}));
+
+import { RefundService, RefundError } from '@/services/refund.service';
+import type { PaymentStatus } from '@/models/PaymentOrder';
+import { buildOrder, OrderFixture } from '@/test/mocks';
+
+// A paid order: the full 0.01 BTC was received
+function order(fields: OrderFixture = {}) {
+  return buildOrder({ status: 'completed', receivedAmount: '0.01', ...fields });
+}
+
+describe('RefundService.createRefund', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mocks.Refund.findOne.mockResolvedValue(null);
+    mocks.Refund.create.mockImplementation(async (fields: any) => fields);
+  });
+
+  it('defaults to the full received amount in the deposit coin', async () => {
+    mocks.PaymentOrder.findOne.mockResolvedValue(order());
+
+    const refund = await new RefundService().createRefund({ orderId: 'ord_1', reason: 'customer_request' });
+
+    expect(refund).toMatchObject({
+      refundAmount: '0.01',
+      refundCoin: 'btc',
+      refundNetwork: 'bitcoin',
+      refundAddress: 'bc1qcustomer',
+      depositEquivalent: '0.01',
+      status: 'pending',
+    });
+    expect(mocks.getPairInfo).not.toHaveBeenCalled();
+  });
+
+  it('defaults overpaid refunds to the excess', async () => {
+    mocks.PaymentOrder.findOne.mockResolvedValue(order({ status: 'overpaid', receivedAmount: '0.012', excessAmount: '0.002' }));
+
+    const refund = await new RefundService().createRefund({ orderId: 'ord_1', reason: 'overpaid' });
+
+    expect(refund.refundAmount).toBe('0.002');
+  });
+
+  it('defaults to what is left after earlier refunds', async () => {
+    mocks.PaymentOrder.findOne.mockResolvedValue(order({ refundedAmount: '0.004' }));
+
+    const refund = await new RefundService().createRefund({ orderId: 'ord_1', reason: 'customer_request' });
+
+    expect(refund.refundAmount).toBe('0.006');
+  });
+
+  it('refuses orders with nothing received', async () => {
+    mocks.PaymentOrder.findOne.mockResolvedValue(order({ receivedAmount: undefined }));
+
+    await expect(new RefundService().createRefund({ orderId: 'ord_1', reason: 'customer_request' }))
+      .rejects.toThrow(RefundError);
+    expect(mocks.Refund.create).not.toHaveBeenCalled();
+  });
+
+  it.each<PaymentStatus>(['failed', 'expired', 'pending', 'refunded'])('refuses %s orders', async status => {
+    mocks.PaymentOrder.findOne.mockResolvedValue(order({ status }));
+
+    await expect(new RefundService().createRefund({ orderId: 'ord_1', reason: 'customer_request' }))
+      .rejects.toThrow(`Order in status "${status}" cannot be refunded`);
+  });
+
+  it('refuses more than is left in the deposit coin', async () => {
+    mocks.PaymentOrder.findOne.mockResolvedValue(order({ refundedAmount: '0.004' }));
+
+    await expect(new RefundService().createRefund({
+      orderId: 'ord_1',
+      reason: 'customer_request',
+      refundAmount: '0.007',
+    })).rejects.toThrow(/exceeds the 0.006 BTC left/);
+  });
+
+  describe('in another coin', () => {
+    beforeEach(() => {
+      mocks.PaymentOrder.findOne.mockResolvedValue(order({ refundedAmount: '0.004' }));
+      mocks.getPairInfo.mockResolvedValue({ rate: '60000', min: '0.0001', max: '1' });
+    });
+
+    const params = { orderId: 'ord_1', reason: 'customer_request' as const, refundCoin: 'usdc', refundNetwork: 'ethereum' };
+
+    it('defaults to what is left, converted at the current rate', async () => {
+      const refund = await new RefundService().createRefund(params);
+
+      expect(mocks.getPairInfo).toHaveBeenCalledWith('btc', 'bitcoin', 'usdc', 'ethereum');
+      expect(refund).toMatchObject({ refundAmount: '360', refundCoin: 'usdc', depositEquivalent: '0.006' });
+    });
+
+    it('refuses more than is left once valued in the deposit coin', async () => {
+      await expect(new RefundService().createRefund({ ...params, refundAmount: '500' }))
+        .rejects.toThrow(/500 USDC \(0.00833333 BTC at the current rate\) exceeds the 0.006 BTC left/);
+      expect(mocks.Refund.create).not.toHaveBeenCalled();
+    });
+  });
+
+  it('refuses a second refund while one is open', async () => {
+    mocks.PaymentOrder.findOne.mockResolvedValue(order());
+    mocks.Refund.findOne.mockResolvedValue({ refundId: 'rf_open', status: 'processing' });
+
+    await expect(new RefundService().createRefund({ orderId: 'ord_1', reason: 'customer_request' }))
+      .rejects.toThrow(/rf_open is already open/);
+  });
+
+  it('refuses a refund opened concurrently, caught by the unique open-refund index', async () => {
+    mocks.PaymentOrder.findOne.mockResolvedValue(order());
+    // Both requests pass the open-refund check; the second insert hits the index
+    mocks.Refund.create
+      .mockImplementationOnce(async (fields: any) => fields)
+      .mockRejectedValueOnce(Object.assign(new Error('E11000 duplicate key error'), { code: 11000 }));
+
+    const service = new RefundService();
+    const results = await Promise.allSettled([
+      service.createRefund({ orderId: 'ord_1', reason: 'customer_request' }),
+      service.createRefund({ orderId: 'ord_1', reason: 'customer_request' }),
+    ]);
+
+    expect(results[0].status).toBe('fulfilled');
+    expect(results[1]).toMatchObject({ status: 'rejected', reason: expect.any(RefundError) });
+    expect((results[1] as PromiseRejectedResult).reason.message).toBe('A refund is already open for this order');
+  });
+});
+
+describe('RefundService.syncRefund', () => {
+  const processing = {
+    refundId: 'rf_1',
+    orderId: 'ord_1',
+    status: 'processing',
+    refundShiftId: 'shift_rf',
+    refundAmount: '0.004',
+    refundCoin: 'btc',
+    refundNetwork: 'bitcoin',
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mocks.Refund.findOne.mockResolvedValue({ ...processing });
+    mocks.getShiftStatus.mockResolvedValue({ id: 'shift_rf', status: 'settled', settleHash: '0xrefund' });
+    mocks.Refund.findOneAndUpdate.mockImplementation(async (_filter: any, update: any) => ({ ...processing, ...update.$set }));
+  });
+
+  it('keeps the order status on a partial refund', async () => {
+    mocks.PaymentOrder.findOne.mockResolvedValue(order());
+    mocks.Refund.find.mockResolvedValue([{ ...processing, status: 'completed' }]);
+
+    const refund = await new RefundService().syncRefund('rf_1');
+
+    expect(refund.status).toBe('completed');
+    expect(mocks.PaymentOrder.updateOne).toHaveBeenCalledWith(
+      { orderId: 'ord_1' },
+      { $set: { refundedAmount: '0.004' } }
+    );
+    expect(mocks.updateOrderStatus).not.toHaveBeenCalled();
+  });
+
+  it('marks the order refunded once refunds cover everything received', async () => {
+    mocks.PaymentOrder.findOne.mockResolvedValue(order({ refundedAmount: '0.006' }));
+    mocks.Refund.find.mockResolvedValue([
+      { ...processing, refundId: 'rf_0', refundAmount: '0.006', status: 'completed' },
+      { ...processing, status: 'completed' },
+    ]);
+
+    await new RefundService().syncRefund('rf_1');
+
+    expect(mocks.updateOrderStatus).toHaveBeenCalledWith('ord_1', 'refunded', expect.objectContaining({ refundId: 'rf_1', source: 'refund' }));
+  });
+
+  it('counts refunds in another coin at their deposit-coin value', async () => {
+    mocks.PaymentOrder.findOne.mockResolvedValue(order());
+    mocks.Refund.find.mockResolvedValue([
+      { ...processing, refundAmount: '360', refundCoin: 'usdc', refundNetwork: 'ethereum', depositEquivalent: '0.006', status: 'completed' },
+      { ...processing, refundId: 'rf_2', status: 'completed' },
+    ]);
+
+    await new RefundService().syncRefund('rf_1');
+
+    expect(mocks.updateOrderStatus).toHaveBeenCalledWith('ord_1', 'refunded', expect.objectContaining({ refundId: 'rf_1' }));
+  });
+
+  it('does not count older refunds in another coin without a deposit value', async () => {
+    mocks.PaymentOrder.findOne.mockResolvedValue(order());
+    mocks.Refund.find.mockResolvedValue([{ ...processing, refundAmount: '500', refundCoin: 'usdc', refundNetwork: 'ethereum', status: 'completed' }]);
+
+    await new RefundService().syncRefund('rf_1');
+
+    expect(mocks.PaymentOrder.updateOne).toHaveBeenCalledWith({ orderId: 'ord_1' }, { $set: { refundedAmount: '0' } });
+    expect(mocks.updateOrderStatus).not.toHaveBeenCalled();
+  });
+
+  it('does nothing when another sync already completed the refund', async () => {
+    mocks.PaymentOrder.findOne.mockResolvedValue(order());
+    mocks.Refund.findOneAndUpdate.mockResolvedValue(null);
+
+    await new RefundService().syncRefund('rf_1');
+
+    expect(mocks.Refund.find).not.toHaveBeenCalled();
+    expect(mocks.updateOrderStatus).not.toHaveBeenCalled();
+  });
+
+  it('fails the refund when its shift is refunded back', async () => {
+    mocks.PaymentOrder.findOne.mockResolvedValue(order());
+    mocks.getShiftStatus.mockResolvedValue({ id: 'shift_rf', status: 'refund' });
+    mocks.Refund.findOneAndUpdate.mockResolvedValue({ ...processing });
+
+    const refund = await new RefundService().syncRefund('rf_1');
+
+    expect(refund).toMatchObject({ status: 'failed', failureReason: 'Refund shift refund' });
+    expect(mocks.updateOrderStatus).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,452 @@
+import { nanoid } from 'nanoid';
+import { Refund, IRefund, RefundReason, RefundStatus } from '@/models/Refund';
+import { PaymentOrder, IPaymentOrder, PaymentStatus } from '@/models/PaymentOrder';
+import { getSwapProvider } from '@/lib/swap-providers';
+import { connectDB } from '@/lib/mongodb';
+import { getPaymentService, formatAmount } from '@/services/payment.service';
+
+/**
+ * REFUND SERVICE
+ * Returns customer funds through a SideShift shift
+ *
+ * Flow:
+ * 1. createRefund: open a refund for an order (amount/coin/network/address
+ *    default to what the customer paid with). A refund in another coin is
+ *    valued in the deposit coin at the provider's rate, so no refund can
+ *    exceed what is left of the deposit
+ * 2. processRefund: quote + fixed shift from the merchant's settle coin into
+ *    the customer's coin; the merchant funds the returned deposit address
+ * 3. syncRefund: poll the refund shift until it settles (completed) or
+ *    SideShift gives up (failed). Completion adds its deposit-coin value to
+ *    order.refundedAmount; the order only becomes `refunded` once everything
+ *    received is returned, partial and excess refunds leave its status alone
+ *
+ * Every step is linked into the order's statusHistory via refundId.
+ */
+
+export interface CreateRefundParams {
+  orderId: string;
+  reason: RefundReason;
+  refundAmount?: string; // Defaults to the excess (overpaid) or what is left of the received amount
+  refundAddress?: string; // Defaults to order.customerWallet
+  refundMemo?: string; // Defaults to order.customerWalletMemo (with the default address)
+  refundCoin?: string; // Defaults to order.depositCoin
+  refundNetwork?: string; // Defaults to order.depositNetwork
+  notes?: string;
+  processedBy?: string;
+}
+
+/**
+ * Orders in these states may have customer funds to return
+ * failed/expired are left out: SideShift refunds those shifts itself
+ * (shift status `refund`), so refunding them here would pay out twice
+ */
+const REFUNDABLE_STATUSES: PaymentStatus[] = ['completed', 'underpaid', 'overpaid'];
+
+const AMOUNT_EPSILON = 1e-8;
+
+export class RefundService {
+  /**
+   * Open a refund for an order
+   */
+  async createRefund(params: CreateRefundParams): Promise<IRefund> {
+    await connectDB();
+
+    const order = await PaymentOrder.findOne({ orderId: params.orderId });
+    if (!order) {
+      throw new Error(`Order ${params.orderId} not found`);
+    }
+
+    if (!REFUNDABLE_STATUSES.includes(order.status)) {
+      throw new RefundError(`Order in status "${order.status}" cannot be refunded`);
+    }
+
+    const openRefund = await Refund.findOne({
+      orderId: order.orderId,
+      status: { $in: ['pending', 'processing'] },
+    });
+    if (openRefund) {
+      throw new RefundError(`Refund ${openRefund.refundId} is already open for this order`);
+    }
+
+    const refundAddress = params.refundAddress || order.customerWallet;
+    if (!refundAddress) {
+      throw new RefundError('No refund address: order has no customerWallet, provide refundAddress');
+    }
+    const refundMemo = params.refundAddress ? params.refundMemo : order.customerWalletMemo;
+
+    // Only money SideShift reported as received can be returned
+    const received = parseFloat(order.receivedAmount || '');
+    if (!(received > 0)) {
+      throw new RefundError('Nothing to refund: no deposit has been received for this order');
+    }
+
+    const refundCoin = (params.refundCoin || order.depositCoin).toLowerCase();
+    const refundNetwork = (params.refundNetwork || order.depositNetwork).toLowerCase();
+    const remaining = received - parseFloat(order.refundedAmount || '0');
+
+    // Refund coin per deposit coin: 1 for the deposit coin itself
+    const rate = isDepositCoin(order, refundCoin, refundNetwork)
+      ? 1
+      : await this.getRefundRate(order, refundCoin, refundNetwork);
+
+    // Overpayments refund the excess, everything else what is left of the deposit
+    const defaultDeposit = params.reason === 'overpaid' && order.excessAmount
+      ? parseFloat(order.excessAmount)
+      : remaining;
+    const refundAmount = params.refundAmount || formatAmount(defaultDeposit * rate);
+    if (!(parseFloat(refundAmount) > 0)) {
+      throw new RefundError('Nothing left to refund: the received amount has already been returned');
+    }
+
+    const depositEquivalent = parseFloat(refundAmount) / rate;
+    if (depositEquivalent > remaining + AMOUNT_EPSILON) {
+      const valued = rate === 1
+        ? ''
+        : ` ${refundCoin.toUpperCase()} (${formatAmount(depositEquivalent)} ${order.depositCoin.toUpperCase()} at the current rate)`;
+      throw new RefundError(
+        `Refund of ${refundAmount}${valued} exceeds the ${formatAmount(remaining)} ${order.depositCoin.toUpperCase()} left to refund`
+      );
+    }
+
+    let refund: IRefund;
+    try {
+      refund = await Refund.create({
+        refundId: `rf_${nanoid(12)}`,
+        orderId: order.orderId,
+        paymentOrderId: order._id,
+        refundReason: params.reason,
+        refundAmount,
+        refundCoin,
+        refundNetwork,
+        refundAddress,
+        refundMemo,
+        depositEquivalent: formatAmount(depositEquivalent),
+        status: 'pending',
+        notes: params.notes,
+        processedBy: params.processedBy,
+      });
+    } catch (error: any) {
+      // A concurrent request opened one between the check above and here
+      if (error.code === 11000) {
+        throw new RefundError('A refund is already open for this order');
+      }
+      throw error;
+    }
+
+    console.log(`[Refund ${refund.refundId}] Opened for order ${order.orderId}: ${refundAmount} ${refund.refundCoin.toUpperCase()}`);
+
+    await this.recordOnOrder(order, refund, `Refund opened (${params.reason}): ${refundAmount} ${refund.refundCoin.toUpperCase()}`);
+
+    return refund;
+  }
+
+  /**
+   * Create the refund shift (with the order's swap provider)
+   * settleCoin (merchant funds) -> refundCoin (customer wallet)
+   */
+  async processRefund(refundId: string, processedBy?: string): Promise<IRefund> {
+    await connectDB();
+
+    // Claim the refund so it can't be processed twice
+    const refund = await Refund.findOneAndUpdate(
+      { refundId, status: 'pending' },
+      { $set: { status: 'processing', ...(processedBy ? { processedBy } : {}) } },
+      { new: true }
+    );
+
+    if (!refund) {
+      const existing = await Refund.findOne({ refundId });
+      if (!existing) {
+        throw new Error(`Refund ${refundId} not found`);
+      }
+      throw new RefundError(`Refund is already ${existing.status}`);
+    }
+
+    const order = await PaymentOrder.findOne({ orderId: refund.orderId });
+    if (!order) {
+      throw new Error(`Order ${refund.orderId} not found`);
+    }
+
+    try {
+      // Refund through the provider that took the payment
+      const provider = getSwapProvider(order.provider);
+      const quote = await provider.requestQuote({
+        depositCoin: order.settleCoin,
+        depositNetwork: order.settleNetwork,
+        settleCoin: refund.refundCoin,
+        settleNetwork: refund.refundNetwork,
+        settleAmount: refund.refundAmount,
+        affiliateId: order.affiliateId || process.env.SIDESHIFT_AFFILIATE_ID!,
+      });
+
+      const shift = await provider.createFixedShift({
+        quoteId: quote.id,
+        settleAddress: refund.refundAddress,
+        settleMemo: refund.refundMemo,
+        affiliateId: order.affiliateId || process.env.SIDESHIFT_AFFILIATE_ID!,
+        refundAddress: order.settleAddress, // If the refund shift fails, funds return to us
+      });
+
+      refund.refundQuoteId = quote.id;
+      refund.refundShiftId = shift.id;
+      refund.refundDepositCoin = shift.depositCoin;
+      refund.refundDepositNetwork = shift.depositNetwork;
+      refund.refundDepositAddress = shift.depositAddress;
+      refund.refundDepositMemo = shift.depositMemo;
+      refund.refundDepositAmount = shift.depositAmount || quote.depositAmount;
+      refund.refundShiftExpiresAt = new Date(shift.expiresAt);
+      await refund.save();
+
+      console.log(`[Refund ${refundId}] Shift created: ${shift.id}`);
+      console.log(`[Refund ${refundId}] Fund with ${refund.refundDepositAmount} ${order.settleCoin.toUpperCase()} -> ${shift.depositAddress}`);
+
+      await this.recordOnOrder(order, refund, `Refund shift ${shift.id} created`);
+
+      return refund;
+    } catch (error: any) {
+      await this.markFailed(refund, order, error.message || 'Failed to create refund shift');
+      throw error;
+    }
+  }
+
+  /**
+   * Poll the refund shift and move the refund to completed/failed
+   */
+  async syncRefund(refundId: string): Promise<IRefund> {
+    await connectDB();
+
+    const refund = await Refund.findOne({ refundId });
+    if (!refund) {
+      throw new Error(`Refund ${refundId} not found`);
+    }
+
+    if (refund.status !== 'processing' || !refund.refundShiftId) {
+      return refund;
+    }
+
+    const order = await PaymentOrder.findOne({ orderId: refund.orderId });
+    if (!order) {
+      throw new Error(`Order ${refund.orderId} not found`);
+    }
+    const shiftStatus = await getSwapProvider(order.provider).getShiftStatus(refund.refundShiftId);
+
+    if (shiftStatus.status === 'settled') {
+      // Only the sync that flips processing -> completed updates the order
+      const completed = await Refund.findOneAndUpdate(
+        { refundId, status: 'processing' },
+        {
+          $set: {
+            status: 'completed',
+            refundTxHash: shiftStatus.settleHash,
+            completedAt: new Date(),
+          },
+        },
+        { new: true }
+      );
+
+      if (!completed) {
+        return (await Refund.findOne({ refundId })) || refund;
+      }
+
+      console.log(`[Refund ${refundId}] Completed: ${shiftStatus.settleHash}`);
+
+      await this.applyCompletedRefund(order, completed);
+
+      return completed;
+    }
+
+    if (['refund', 'refunded', 'expired'].includes(shiftStatus.status)) {
+      await this.markFailed(refund, order, `Refund shift ${shiftStatus.status}`);
+    }
+
+    return refund;
+  }
+
+  /**
+   * Sync every in-flight refund (used by the payment monitor)
+   */
+  async syncProcessingRefunds(): Promise<number> {
+    await connectDB();
+
+    const processing = await Refund.find({ status: 'processing', refundShiftId: { $exists: true } });
+
+    for (const refund of processing) {
+      try {
+        await this.syncRefund(refund.refundId);
+      } catch (error) {
+        console.error(`[Refund ${refund.refundId}] Sync failed:`, error);
+      }
+    }
+
+    return processing.length;
+  }
+
+  async getRefund(refundId: string): Promise<IRefund | null> {
+    await connectDB();
+    return Refund.findOne({ refundId });
+  }
+
+  async listRefunds(filters: { status?: RefundStatus; orderId?: string; limit?: number }): Promise<IRefund[]> {
+    await connectDB();
+
+    const query: Record<string, any> = {};
+    if (filters.status) query.status = filters.status;
+    if (filters.orderId) query.orderId = filters.orderId;
+
+    return Refund.find(query)
+      .sort({ createdAt: -1 })
+      .limit(Math.min(filters.limit || 50, 200));
+  }
+
+  /**
+   * Current rate (refund coin per deposit coin) for valuing a refund paid
+   * in another coin
+   */
+  private async getRefundRate(order: IPaymentOrder, refundCoin: string, refundNetwork: string): Promise<number> {
+    const pair = await getSwapProvider(order.provider).getPairInfo(
+      order.depositCoin,
+      order.depositNetwork,
+      refundCoin,
+      refundNetwork
+    );
+
+    const rate = parseFloat(pair.rate);
+    if (!(rate > 0)) {
+      throw new RefundError(
+        `No rate from ${order.depositCoin.toUpperCase()} to ${refundCoin.toUpperCase()} (${refundNetwork}) to value the refund`
+      );
+    }
+    return rate;
+  }
+
+  private async markFailed(refund: IRefund, order: IPaymentOrder, reason: string): Promise<void> {
+    const failed = await Refund.findOneAndUpdate(
+      { refundId: refund.refundId, status: { $in: ['pending', 'processing'] } },
+      { $set: { status: 'failed', failureReason: reason } }
+    );
+    if (!failed) return;
+
+    refund.status = 'failed';
+    refund.failureReason = reason;
+
+    console.error(`[Refund ${refund.refundId}] Failed: ${reason}`);
+
+    await this.recordOnOrder(order, refund, `Refund failed: ${reason}`);
+  }
+
+  /**
+   * Add a completed refund to the order; the order becomes `refunded` only
+   * when the refunds (valued in the deposit coin) cover everything received
+   */
+  private async applyCompletedRefund(order: IPaymentOrder, refund: IRefund): Promise<void> {
+    const note = `Refund ${refund.refundId} completed: ${refund.refundAmount} ${refund.refundCoin.toUpperCase()}`;
+
+    const completedRefunds = await Refund.find({ orderId: order.orderId, status: 'completed' });
+    const refunded = completedRefunds
+      .reduce((sum, entry) => sum + depositValue(order, entry), 0);
+
+    await PaymentOrder.updateOne({ orderId: order.orderId }, { $set: { refundedAmount: formatAmount(refunded) } });
+
+    const received = parseFloat(order.receivedAmount || '');
+    if (received > 0 && refunded >= received - AMOUNT_EPSILON) {
+      await getPaymentService().updateOrderStatus(order.orderId, 'refunded', {
+        note,
+        refundId: refund.refundId,
+        source: 'refund',
+      });
+      return;
+    }
+
+    // Partial or excess refund: the payment itself stands
+    await this.recordOnOrder(order, refund, `${note} (partial, ${formatAmount(refunded)} of ${order.receivedAmount} refunded)`);
+  }
+
+  /**
+   * Link a refund step into the order's statusHistory
+   * The order status itself only changes once the refund completes
+   */
+  private async recordOnOrder(order: IPaymentOrder, refund: IRefund, note: string): Promise<void> {
+    await PaymentOrder.updateOne(
+      { orderId: order.orderId },
+      {
+        $push: {
+          statusHistory: {
+            status: order.status,
+            timestamp: new Date(),
+            note,
+            refundId: refund.refundId,
+          },
+        },
+      }
+    );
+  }
+}
+
+function isDepositCoin(order: IPaymentOrder, coin: string, network: string): boolean {
+  return coin.toLowerCase() === order.depositCoin.toLowerCase()
+    && network.toLowerCase() === order.depositNetwork.toLowerCase();
+}
+
+/**
+ * A refund's value in the order's deposit coin
+ * Refunds opened before depositEquivalent was stored only count in the
+ * deposit coin itself
+ */
+function depositValue(order: IPaymentOrder, refund: IRefund): number {
+  if (refund.depositEquivalent) {
+    return parseFloat(refund.depositEquivalent);
+  }
+  return isDepositCoin(order, refund.refundCoin, refund.refundNetwork) ? parseFloat(refund.refundAmount) : 0;
+}
+
+/**
+ * API view of a refund
+ */
+export function serializeRefund(refund: IRefund) {
+  return {
+    refundId: refund.refundId,
+    orderId: refund.orderId,
+    refundReason: refund.refundReason,
+    refundAmount: refund.refundAmount,
+    refundCoin: refund.refundCoin,
+    refundNetwork: refund.refundNetwork,
+    refundAddress: refund.refundAddress,
+    refundMemo: refund.refundMemo,
+    depositEquivalent: refund.depositEquivalent,
+    status: refund.status,
+    refundShiftId: refund.refundShiftId,
+    refundDepositCoin: refund.refundDepositCoin,
+    refundDepositNetwork: refund.refundDepositNetwork,
+    refundDepositAddress: refund.refundDepositAddress,
+    refundDepositMemo: refund.refundDepositMemo,
+    refundDepositAmount: refund.refundDepositAmount,
+    refundShiftExpiresAt: refund.refundShiftExpiresAt,
+    refundTxHash: refund.refundTxHash,
+    failureReason: refund.failureReason,
+    notes: refund.notes,
+    processedBy: refund.processedBy,
+    createdAt: refund.createdAt,
+    completedAt: refund.completedAt,
+  };
+}
+
+/**
+ * Refund request that can't be fulfilled as asked (bad state, missing data)
+ */
+export class RefundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RefundError';
+  }
+}
+
+// Singleton instance
+let refundService: RefundService | null = null;
+
+export function getRefundService(): RefundService {
+  if (!refundService) {
+    refundService = new RefundService();
+  }
+  return refundService;
+}
@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = await vi.hoisted(async () => {
+  const { modelMock } = await import('@/test/mocks');
+  return {
+    WebhookEvent: modelMock('findOne', 'findOneAndUpdate', 'updateOne'),
+    PaymentOrder: modelMock('findOne'),
+    getShiftStatus: vi.fn(),
+    updateOrderStatus: vi.fn(),
+  };
+});
+
+vi.mock('@/lib/mongodb');
+vi.mock('@/models/WebhookEvent', () => ({ WebhookEvent: mocks.WebhookEvent }));
+vi.mock('@/models/PaymentOrder', () => ({ PaymentOrder: mocks.PaymentOrder }));
+vi.mock('@/lib/swap-providers', () => ({
+  LEGACY_SWAP_PROVIDER: 'sideshift',
+  getSwapProvider: () => ({ getShiftStatus: mocks.getShiftStatus }),
+}));
+vi.mock('@/services/payment.service', () => ({
+  getPaymentService: () => ({ updateOrderStatus: mocks.updateOrderStatus }),
+}));
+
+import { WebhookService } from '@/services/webhook.service';
+import { buildOrder } from '@/test/mocks';
+
+const event = {
+  eventId: 'evt_1',
+  shiftId: 'shift_1',
+  retryCount: 0,
+  payload: { shiftId: 'shift_1', status: 'settled' },
+};
+
+describe('WebhookService', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.stubEnv('WEBHOOK_MAX_ATTEMPTS', '5');
+    mocks.WebhookEvent.findOne.mockResolvedValue({ ...event });
+    mocks.PaymentOrder.findOne.mockResolvedValue(buildOrder({ provider: 'sideshift' }));
+    mocks.getShiftStatus.mockResolvedValue({ id: 'shift_1', status: 'settled', settleHash: '0xsettle' });
+    mocks.updateOrderStatus.mockResolvedValue({ orderId: 'ord_1', status: 'completed' });
+  });
+
+  describe('processEvent', () => {
+    it('applies the status verified with the provider, not the payload', async () => {
+      mocks.getShiftStatus.mockResolvedValue({ id: 'shift_1', status: 'processing' });
+      mocks.updateOrderStatus.mockResolvedValue({ orderId: 'ord_1', status: 'processing' });
+
+      const result = await new WebhookService().processEvent('evt_1');
+
+      expect(result).toEqual({ outcome: 'processed', orderId: 'ord_1', status: 'processing' });
+      expect(mocks.updateOrderStatus).toHaveBeenCalledWith('ord_1', 'processing',
+        expect.objectContaining({ source: 'webhook', shiftId: 'shift_1' }));
+      expect(mocks.WebhookEvent.updateOne).toHaveBeenLastCalledWith(
+        { eventId: 'evt_1' },
+        expect.objectContaining({ $set: expect.objectContaining({ processed: true }) })
+      );
+    });
+
+    it('returns failed for a missing event instead of throwing', async () => {
+      mocks.WebhookEvent.findOne.mockResolvedValue(null);
+
+      await expect(new WebhookService().processEvent('evt_missing'))
+        .resolves.toMatchObject({ outcome: 'failed' });
+      expect(mocks.WebhookEvent.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('schedules a retry when processing throws', async () => {
+      mocks.getShiftStatus.mockRejectedValue(new Error('SideShift down'));
+
+      const result = await new WebhookService().processEvent('evt_1');
+
+      expect(result).toEqual({ outcome: 'failed', error: 'SideShift down' });
+      const [, update] = mocks.WebhookEvent.updateOne.mock.calls.at(-1)!;
+      expect(update.$set).toMatchObject({ processed: false, retryCount: 1, processingError: 'SideShift down' });
+      expect(update.$set.nextRetryAt).toBeInstanceOf(Date);
+    });
+
+    it('dead-letters after WEBHOOK_MAX_ATTEMPTS', async () => {
+      mocks.WebhookEvent.findOne.mockResolvedValue({ ...event, retryCount: 4 });
+      mocks.getShiftStatus.mockRejectedValue(new Error('SideShift down'));
+
+      await new WebhookService().processEvent('evt_1');
+
+      const [, update] = mocks.WebhookEvent.updateOne.mock.calls.at(-1)!;
+      expect(update.$set).toMatchObject({ deadLettered: true, retryCount: 5 });
+      expect(update.$unset).toEqual({ nextRetryAt: 1 });
+    });
+  });
+
+  describe('order not found', () => {
+    beforeEach(() => {
+      mocks.PaymentOrder.findOne.mockResolvedValue(null);
+    });
+
+    it('schedules a retry, since the webhook can arrive before the order is saved', async () => {
+      const result = await new WebhookService().processEvent('evt_1');
+
+      expect(result).toEqual({ outcome: 'order_not_found', error: 'Order not found' });
+      const [, update] = mocks.WebhookEvent.updateOne.mock.calls.at(-1)!;
+      expect(update.$set).toMatchObject({ processed: false, retryCount: 1, processingError: 'Order not found' });
+      expect(update.$set.nextRetryAt).toBeInstanceOf(Date);
+    });
+
+    it('dead-letters once the retries run out', async () => {
+      mocks.WebhookEvent.findOne.mockResolvedValue({ ...event, retryCount: 4 });
+
+      await new WebhookService().processEvent('evt_1');
+
+      const [, update] = mocks.WebhookEvent.updateOne.mock.calls.at(-1)!;
+      expect(update.$set).toMatchObject({ processed: false, deadLettered: true, retryCount: 5 });
+    });
+
+    it('counts as a failure for the retry worker', async () => {
+      mocks.WebhookEvent.findOneAndUpdate
+        .mockResolvedValueOnce({ ...event })
+        .mockResolvedValueOnce(null);
+
+      await expect(new WebhookService().retryDueEvents()).resolves.toEqual({ attempted: 1, succeeded: 0, failed: 1 });
+    });
+
+    it('is not a failure for the shift of a re-quoted order', async () => {
+      mocks.PaymentOrder.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(buildOrder({ shiftId: 'shift_2' }));
+
+      await expect(new WebhookService().processEvent('evt_1')).resolves.toEqual({ outcome: 'ignored', orderId: 'ord_1' });
+      const [, update] = mocks.WebhookEvent.updateOne.mock.calls.at(-1)!;
+      expect(update.$set).toMatchObject({ processed: true });
+    });
+  });
+
+  describe('replayEvent', () => {
+    it('clears the dead-letter flags and reprocesses', async () => {
+      mocks.WebhookEvent.findOneAndUpdate.mockResolvedValue({ ...event, deadLettered: false });
+
+      const result = await new WebhookService().replayEvent('evt_1');
+
+      expect(mocks.WebhookEvent.findOneAndUpdate).toHaveBeenCalledWith(
+        { eventId: 'evt_1' },
+        expect.objectContaining({ $set: { processed: false, deadLettered: false } }),
+        { new: true }
+      );
+      expect(result).toEqual({ outcome: 'processed', orderId: 'ord_1', status: 'completed' });
+    });
+
+    it('throws for an unknown event', async () => {
+      mocks.WebhookEvent.findOneAndUpdate.mockResolvedValue(null);
+      await expect(new WebhookService().replayEvent('evt_missing')).rejects.toThrow('not found');
+    });
+  });
+});
@@ -0,0 +1,354 @@
+import { WebhookEvent, IWebhookEvent } from '@/models/WebhookEvent';
+import { PaymentOrder, IPaymentOrder } from '@/models/PaymentOrder';
+import { getSwapProvider, LEGACY_SWAP_PROVIDER } from '@/lib/swap-providers';
+import { connectDB } from '@/lib/mongodb';
+import { mapShiftStatus } from '@/lib/payment-status';
+import { getPaymentService, PaymentStatus } from '@/services/payment.service';
+
+/**
+ * WEBHOOK SERVICE
+ * Processing, retry and dead-letter handling for inbound SideShift webhooks
+ *
+ * Lifecycle of a verified event:
+ * - processed: applied to the order (or intentionally ignored)
+ * - retrying: processing threw or no order has the shift yet (the webhook
+ *   can beat the order insert), nextRetryAt scheduled with exponential backoff
+ * - dead letter: gave up after WEBHOOK_MAX_ATTEMPTS, needs a manual replay
+ */
+
+export type WebhookEventState = 'pending' | 'failed' | 'dead_letter' | 'processed' | 'rejected';
+
+export interface ProcessEventResult {
+  outcome: 'processed' | 'ignored' | 'order_not_found' | 'failed';
+  orderId?: string;
+  status?: PaymentStatus;
+  error?: string;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_RETRY_BASE_SECONDS = 60;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000; // 6 hours
+const PROCESSING_LEASE_MS = 5 * 60 * 1000;
+
+export class WebhookService {
+  private maxAttempts = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || String(DEFAULT_MAX_ATTEMPTS), 10);
+  private retryBaseMs = parseInt(
+    process.env.WEBHOOK_RETRY_BASE_SECONDS || String(DEFAULT_RETRY_BASE_SECONDS),
+    10
+  ) * 1000;
+
+  /**
+   * Apply a stored webhook event to its order
+   * Processing failures don't throw: they are recorded on the event and a
+   * retry is scheduled, as for an order_not_found outcome. A missing event is
+   * also a 'failed' outcome; only database errors (connecting, recording the
+   * outcome) propagate.
+   */
+  async processEvent(eventId: string): Promise<ProcessEventResult> {
+    await connectDB();
+
+    const event = await WebhookEvent.findOne({ eventId });
+    if (!event) {
+      console.error(`[Webhook ${eventId}] Event not found, nothing to process`);
+      return { outcome: 'failed', error: 'Webhook event not found' };
+    }
+
+    const attemptAt = new Date();
+
+    let result: ProcessEventResult;
+    try {
+      result = await this.applyEvent(event);
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      await this.recordFailure(event, attemptAt, message);
+      return { outcome: 'failed', error: message };
+    }
+
+    // Retried like a failure: the order may not be saved yet
+    if (result.outcome === 'order_not_found') {
+      await this.recordFailure(event, attemptAt, 'Order not found');
+      return { ...result, error: 'Order not found' };
+    }
+
+    const update: Record<string, any> = {
+      $set: {
+        processed: true,
+        processedAt: new Date(),
+        lastAttemptAt: attemptAt,
+        deadLettered: false,
+      },
+      $unset: { nextRetryAt: 1, processingError: 1 },
+    };
+
+    if (result.orderId) {
+      update.$set.orderId = result.orderId;
+    }
+
+    await WebhookEvent.updateOne({ eventId }, update);
+
+    return result;
+  }
+
+  /**
+   * Retry worker: pick up due events and reprocess them
+   */
+  async retryDueEvents(limit: number = 50): Promise<{ attempted: number; succeeded: number; failed: number }> {
+    await connectDB();
+
+    const now = new Date();
+    let attempted = 0;
+    let succeeded = 0;
+    let failed = 0;
+
+    while (attempted < limit) {
+      // Claim one event with a lease so concurrent workers don't double-process
+      const event = await WebhookEvent.findOneAndUpdate(
+        {
+          processed: false,
+          rejected: { $ne: true },
+          deadLettered: { $ne: true },
+          $or: [
+            { nextRetryAt: { $lte: now } },
+            // Never attempted to completion (e.g. crashed mid-request)
+            { nextRetryAt: { $exists: false }, receivedAt: { $lt: new Date(now.getTime() - 60 * 1000) } },
+          ],
+        },
+        { $set: { nextRetryAt: new Date(now.getTime() + PROCESSING_LEASE_MS) } },
+        { sort: { receivedAt: 1 }, new: true }
+      );
+
+      if (!event) break;
+
+      attempted++;
+      try {
+        const result = await this.processEvent(event.eventId);
+        if (result.outcome === 'failed' || result.outcome === 'order_not_found') {
+          failed++;
+        } else {
+          succeeded++;
+        }
+      } catch (error) {
+        // Lease still holds: picked up again once it runs out
+        console.error(`[Webhook ${event.eventId}] Retry failed:`, error);
+        failed++;
+      }
+    }
+
+    return { attempted, succeeded, failed };
+  }
+
+  /**
+   * Manually replay an event (including processed and dead-lettered ones)
+   */
+  async replayEvent(eventId: string): Promise<ProcessEventResult> {
+    await connectDB();
+
+    const event = await WebhookEvent.findOneAndUpdate(
+      { eventId },
+      {
+        $set: { processed: false, deadLettered: false },
+        $unset: { deadLetteredAt: 1, nextRetryAt: 1 },
+      },
+      { new: true }
+    );
+
+    if (!event) {
+      throw new Error(`Webhook event ${eventId} not found`);
+    }
+
+    console.log(`[Webhook ${eventId}] Manual replay requested`);
+    return this.processEvent(eventId);
+  }
+
+  /**
+   * List events for the admin API
+   */
+  async listEvents(filters: {
+    state?: WebhookEventState;
+    shiftId?: string;
+    orderId?: string;
+    limit?: number;
+  }): Promise<IWebhookEvent[]> {
+    await connectDB();
+
+    const query: Record<string, any> = {};
+
+    switch (filters.state) {
+      case 'pending':
+        Object.assign(query, { processed: false, rejected: { $ne: true }, deadLettered: { $ne: true }, retryCount: 0 });
+        break;
+      case 'failed':
+        Object.assign(query, { processed: false, rejected: { $ne: true }, deadLettered: { $ne: true }, retryCount: { $gt: 0 } });
+        break;
+      case 'dead_letter':
+        query.deadLettered = true;
+        break;
+      case 'processed':
+        Object.assign(query, { processed: true, rejected: { $ne: true } });
+        break;
+      case 'rejected':
+        query.rejected = true;
+        break;
+    }
+
+    if (filters.shiftId) query.shiftId = filters.shiftId;
+    if (filters.orderId) query.orderId = filters.orderId;
+
+    return WebhookEvent.find(query)
+      .sort({ receivedAt: -1 })
+      .limit(Math.min(filters.limit || 50, 200));
+  }
+
+  /**
+   * Events related to an order: linked by orderId, or received for any of
+   * its shifts (current and re-quoted)
+   */
+  async listOrderEvents(
+    order: Pick<IPaymentOrder, 'orderId' | 'shiftId' | 'shiftHistory'>,
+    limit: number = 100
+  ): Promise<IWebhookEvent[]> {
+    await connectDB();
+
+    const shiftIds = [order.shiftId, ...order.shiftHistory.map(entry => entry.shiftId)]
+      .filter((shiftId): shiftId is string => !!shiftId);
+
+    return WebhookEvent.find({
+      $or: [{ orderId: order.orderId }, { shiftId: { $in: shiftIds } }],
+    })
+      .sort({ receivedAt: -1 })
+      .limit(limit);
+  }
+
+  /**
+   * Get a single event
+   */
+  async getEvent(eventId: string): Promise<IWebhookEvent | null> {
+    await connectDB();
+    return WebhookEvent.findOne({ eventId });
+  }
+
+  /**
+   * Cross-check the event with SideShift and update the order
+   */
+  private async applyEvent(event: IWebhookEvent): Promise<ProcessEventResult> {
+    const shiftId = event.shiftId;
+    if (!shiftId) {
+      throw new Error('Event has no shiftId');
+    }
+
+    const order = await PaymentOrder.findOne({ shiftId });
+
+    if (!order) {
+      // Shift replaced by a re-quote: the order has moved on
+      const requoted = await PaymentOrder.findOne({ 'shiftHistory.shiftId': shiftId });
+      if (requoted) {
+        console.log(`[Webhook] Ignoring replaced shift ${shiftId} of ${requoted.orderId}`);
+        return { outcome: 'ignored', orderId: requoted.orderId };
+      }
+
+      // Might be a test webhook or old order
+      console.error(`[Webhook] Order not found for shiftId: ${shiftId}`);
+      return { outcome: 'order_not_found' };
+    }
+
+    // SideShift webhooks only concern SideShift orders
+    const provider = order.provider || LEGACY_SWAP_PROVIDER;
+    if (provider !== 'sideshift') {
+      console.warn(`[Webhook] Ignoring ${shiftId}: order ${order.orderId} uses ${provider}`);
+      return { outcome: 'ignored', orderId: order.orderId };
+    }
+
+    // Cross-check with SideShift: the API is the source of truth, not the payload
+    const shiftStatus = await getSwapProvider(provider).getShiftStatus(shiftId);
+    const payloadStatus = event.payload?.status;
+
+    if (shiftStatus.status !== payloadStatus) {
+      console.warn(`[Webhook] Status mismatch for ${shiftId}: payload=${payloadStatus}, api=${shiftStatus.status}`);
+    }
+
+    await WebhookEvent.updateOne(
+      { eventId: event.eventId },
+      { $set: { verifiedStatus: shiftStatus.status, orderId: order.orderId } }
+    );
+
+    const newStatus = mapShiftStatus(shiftStatus.status);
+
+    if (!newStatus) {
+      console.warn(`[Webhook] Unknown status: ${shiftStatus.status}`);
+      return { outcome: 'ignored', orderId: order.orderId };
+    }
+
+    const paymentService = getPaymentService();
+    const updated = await paymentService.updateOrderStatus(order.orderId, newStatus, {
+      depositTxHash: shiftStatus.depositHash,
+      settleTxHash: shiftStatus.settleHash,
+      depositAmount: shiftStatus.depositAmount,
+      settleAmount: shiftStatus.settleAmount,
+      note: `Webhook: ${shiftStatus.status}`,
+      source: 'webhook',
+      shiftId,
+    });
+
+    console.log(`[Webhook] Processed: ${order.orderId} -> ${updated.status}`);
+
+    return { outcome: 'processed', orderId: order.orderId, status: updated.status };
+  }
+
+  /**
+   * Record a failed attempt: schedule a retry, or dead-letter the event
+   * once it has used up WEBHOOK_MAX_ATTEMPTS
+   */
+  private async recordFailure(event: IWebhookEvent, attemptAt: Date, message: string): Promise<void> {
+    const eventId = event.eventId;
+    const retryCount = event.retryCount + 1;
+    const deadLetter = retryCount >= this.maxAttempts;
+
+    console.error(`[Webhook ${eventId}] Processing failed (attempt ${retryCount}): ${message}`);
+
+    await WebhookEvent.updateOne(
+      { eventId },
+      deadLetter
+        ? {
+            $set: {
+              processed: false,
+              processingError: message,
+              retryCount,
+              lastAttemptAt: attemptAt,
+              deadLettered: true,
+              deadLetteredAt: new Date(),
+            },
+            $unset: { nextRetryAt: 1 },
+          }
+        : {
+            $set: {
+              processed: false,
+              processingError: message,
+              retryCount,
+              lastAttemptAt: attemptAt,
+              nextRetryAt: new Date(Date.now() + this.getRetryDelay(retryCount)),
+            },
+          }
+    );
+
+    if (deadLetter) {
+      console.error(`[Webhook ${eventId}] Moved to dead-letter queue after ${retryCount} attempts`);
+    }
+  }
+
+  /**
+   * Exponential backoff: base * 2^(attempt - 1), capped
+   */
+  private getRetryDelay(attempt: number): number {
+    return Math.min(this.retryBaseMs * Math.pow(2, attempt - 1), MAX_RETRY_DELAY_MS);
+  }
+}
+
+// Singleton instance
+let webhookService: WebhookService | null = null;
+
+export function getWebhookService(): WebhookService {
+  if (!webhookService) {
+    webhookService = new WebhookService();
+  }
+  return webhookService;
+}
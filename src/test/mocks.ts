@@ -0,0 +1,38 @@
+import { vi, type Mock } from 'vitest';
+import type { IPaymentOrder } from '@/models/PaymentOrder';
+
+/**
+ * TEST HELPERS
+ * Shared by the service and route tests (*.test.ts next to the code):
+ * - modelMock: a mongoose model whose statics are plain vi.fn() mocks;
+ *   create it inside vi.hoisted so vi.mock factories can return it
+ * - buildOrder: a payment order with sensible defaults for the fields the
+ *   services read, overridable per test
+ */
+
+export type ModelMock<M extends string> = Record<M, Mock<(...args: any[]) => any>>;
+
+export function modelMock<M extends string>(...methods: M[]): ModelMock<M> {
+  return Object.fromEntries(methods.map(method => [method, vi.fn()])) as ModelMock<M>;
+}
+
+// Plain object standing in for an IPaymentOrder document
+export type OrderFixture = Partial<IPaymentOrder> & Record<string, any>;
+
+export function buildOrder(fields: OrderFixture = {}): OrderFixture {
+  return {
+    _id: 'oid_1',
+    orderId: 'ord_1',
+    merchantId: 'default',
+    shiftId: 'shift_1',
+    status: 'pending',
+    paymentMode: 'fixed',
+    depositCoin: 'btc',
+    depositNetwork: 'bitcoin',
+    depositAmount: '0.01',
+    settleCoin: 'usdc',
+    settleNetwork: 'ethereum',
+    customerWallet: 'bc1qcustomer',
+    ...fields,
+  };
+}